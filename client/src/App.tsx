@@ -10,6 +10,7 @@ import SearchPage from "@/pages/search";
 import CountryDetail from "@/pages/country-detail";
 import AdminRules from "@/pages/admin-rules-working";
 import AdminPage from "@/pages/admin";
+import AdminSimulator from "@/pages/admin-simulator";
 import Analytics from "@/pages/analytics";
 import NotFound from "@/pages/not-found";
 
@@ -20,6 +21,7 @@ function Router() {
       <Route path="/search" component={SearchPage} />
       <Route path="/country/:iso" component={CountryDetail} />
       <Route path="/admin-rules" component={AdminRules} />
+      <Route path="/admin/simulator" component={AdminSimulator} />
       <Route path="/admin" component={AdminPage} />
       <Route path="/analytics" component={Analytics} />
       <Route component={NotFound} />
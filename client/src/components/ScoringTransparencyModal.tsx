@@ -11,6 +11,7 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { formatScore } from "@/lib/formatters";
+import { useActiveScoringProfile } from "@/hooks/use-scoring-profile";
 
 interface ScoringBreakdown {
   sanctions: number;
@@ -18,6 +19,8 @@ interface ScoringBreakdown {
   adverseMedia: number;
   internalHistory: number;
   countryBaseline: number;
+  regulatory?: number;
+  paymentMethod?: number;
 }
 
 interface ScoringTransparencyModalProps {
@@ -40,19 +43,8 @@ export function ScoringTransparencyModal({
   rulesetVersion = 1,
   providerInfo
 }: ScoringTransparencyModalProps) {
-  const weights = {
-    sanctions: 0.45,      // 45%
-    pep: 0.15,           // 15%
-    adverseMedia: 0.15,   // 15%
-    internalHistory: 0.15, // 15%
-    countryBaseline: 0.10  // 10%
-  };
-
-  const tierThresholds = {
-    low: 30,
-    medium: 70,
-    high: 100
-  };
+  // Weights and tiers of the active scoring profile
+  const { weights, tierThresholds } = useActiveScoringProfile();
 
   const getRiskTierColor = (tier: string) => {
     switch (tier) {
@@ -75,7 +67,9 @@ export function ScoringTransparencyModal({
       'adverseMedia': 'NewsAPI Adverse Media',
       'pep': 'OpenSanctions PEP (live)',
       'internalHistory': 'Internal Risk History',
-      'countryBaseline': 'Country Risk Baseline'
+      'countryBaseline': 'Country Risk Baseline',
+      'regulatory': 'Published Compliance Rules',
+      'paymentMethod': 'Payment Method Policy'
     };
     return sourceMap[source] || source;
   };
@@ -124,7 +118,7 @@ export function ScoringTransparencyModal({
             <h4 className="font-medium mb-3">Scoring Breakdown</h4>
             <div className="space-y-3">
               {Object.entries(breakdown).map(([factor, score]) => {
-                const weight = weights[factor as keyof typeof weights];
+                const weight = weights[factor as keyof typeof weights] ?? 0;
                 const weightedScore = score * weight;
                 return (
                   <div key={factor} className="flex items-center justify-between p-3 border rounded-lg">
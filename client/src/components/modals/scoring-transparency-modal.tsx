@@ -14,9 +14,12 @@ import {
   History, 
   Globe,
   Info,
+  FileText,
   CheckCircle,
-  XCircle
+  XCircle,
+  CreditCard
 } from "lucide-react";
+import { useActiveScoringProfile } from "@/hooks/use-scoring-profile";
 
 interface ScoringTransparencyModalProps {
   isOpen: boolean;
@@ -24,18 +27,22 @@ interface ScoringTransparencyModalProps {
 }
 
 export function ScoringTransparencyModal({ isOpen, onClose }: ScoringTransparencyModalProps) {
+  // Weights and tiers of the active scoring profile, as percentages
+  const { weights, tierThresholds } = useActiveScoringProfile();
+  const percent = (weight: number) => Math.round(weight * 100);
+
   const scoringWeights = [
     {
       category: "Sanctions Screening",
-      weight: 45,
+      weight: percent(weights.sanctions),
       icon: Shield,
       description: "Checks against global sanctions lists including OFAC, EU, UN, and UK sanctions",
       sources: "OpenSanctions (live)",
-      thresholds: "0 hits = 0-15 pts, 1-5 hits = 16-35 pts, 6+ hits = 36-45 pts"
+      thresholds: "0 hits = 0-15 pts, 1-5 hits = 16-30 pts, 6+ hits = 31-40 pts"
     },
     {
       category: "PEP (Politically Exposed Person)",
-      weight: 15,
+      weight: percent(weights.pep),
       icon: AlertTriangle,
       description: "Identifies politically exposed persons and their close associates",
       sources: "OpenSanctions (live)",
@@ -43,7 +50,7 @@ export function ScoringTransparencyModal({ isOpen, onClose }: ScoringTransparenc
     },
     {
       category: "Adverse Media",
-      weight: 15,
+      weight: percent(weights.adverseMedia),
       icon: Newspaper,
       description: "Scans recent news for negative mentions, criminal activity, or compliance issues",
       sources: "NewsAPI (live)",
@@ -51,28 +58,48 @@ export function ScoringTransparencyModal({ isOpen, onClose }: ScoringTransparenc
     },
     {
       category: "Internal History",
-      weight: 15,
+      weight: percent(weights.internalHistory),
       icon: History,
       description: "Previous risk assessments, compliance violations, and performance history",
       sources: "Internal database",
-      thresholds: "Clean = 0-5 pts, Issues = 6-10 pts, Major violations = 11-15 pts"
+      thresholds: "Clean = 0-3 pts, Issues = 4-7 pts, Major violations = 8-10 pts"
     },
     {
       category: "Country Baseline",
-      weight: 10,
+      weight: percent(weights.countryBaseline),
       icon: Globe,
       description: "Country-specific risk factors including corruption index, regulatory environment",
       sources: "World Bank, Transparency International",
       thresholds: "Low risk countries = 0-3 pts, Medium = 4-7 pts, High = 8-10 pts"
+    },
+    {
+      category: "Regulatory Rules",
+      weight: percent(weights.regulatory),
+      icon: FileText,
+      description: "Published compliance rules in effect for the contractor's country, driven by the admin rules CMS",
+      sources: "Compliance rules CMS",
+      thresholds: "Most severe rule = severity x 10 pts, each additional rule adds severity x 2 pts (max 100)"
+    },
+    {
+      category: "Payment Method",
+      weight: percent(weights.paymentMethod),
+      icon: CreditCard,
+      description: "Traceability of the payout channel, adjusted by the contractor country's payment method policy",
+      sources: "Payment method policies",
+      thresholds: "ACH = 5 pts, Wire = 15 pts, PayPal = 30 pts, Crypto = 70 pts (100 where restricted), plus any cross-border surcharge"
     }
   ];
 
   const riskTiers = [
-    { tier: "Low Risk", range: "0-30", color: "text-green-600", bgColor: "bg-green-50", borderColor: "border-green-200" },
-    { tier: "Medium Risk", range: "31-70", color: "text-yellow-600", bgColor: "bg-yellow-50", borderColor: "border-yellow-200" },
-    { tier: "High Risk", range: "71-100", color: "text-red-600", bgColor: "bg-red-50", borderColor: "border-red-200" }
+    { tier: "Low Risk", range: `0-${tierThresholds.low}`, progress: tierThresholds.low, color: "text-green-600", bgColor: "bg-green-50", borderColor: "border-green-200" },
+    { tier: "Medium Risk", range: `${tierThresholds.low + 1}-${tierThresholds.medium}`, progress: tierThresholds.medium, color: "text-yellow-600", bgColor: "bg-yellow-50", borderColor: "border-yellow-200" },
+    { tier: "High Risk", range: `${tierThresholds.medium + 1}-100`, progress: 100, color: "text-red-600", bgColor: "bg-red-50", borderColor: "border-red-200" }
   ];
 
+  const formula = scoringWeights
+    .map(category => `(${category.category.split(' (')[0]} × ${(category.weight / 100).toFixed(2)})`)
+    .join(' + ');
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
@@ -88,7 +115,7 @@ export function ScoringTransparencyModal({ isOpen, onClose }: ScoringTransparenc
           <div className="p-4 bg-blue-50 rounded-lg">
             <h3 className="font-semibold text-blue-900 mb-2">Assessment Overview</h3>
             <p className="text-blue-800 text-sm">
-              Our risk scoring engine uses a weighted algorithm that evaluates contractors across five key dimensions. 
+              Our risk scoring engine uses a weighted algorithm that evaluates contractors across seven key dimensions. 
               The system integrates with live data providers to ensure real-time accuracy and comprehensive coverage.
             </p>
           </div>
@@ -152,7 +179,7 @@ export function ScoringTransparencyModal({ isOpen, onClose }: ScoringTransparenc
                     </Badge>
                   </div>
                   <Progress 
-                    value={tier.range === "0-30" ? 30 : tier.range === "31-70" ? 70 : 100} 
+                    value={tier.progress} 
                     className="mb-2" 
                   />
                   <p className="text-xs text-gray-600">
@@ -201,7 +228,7 @@ export function ScoringTransparencyModal({ isOpen, onClose }: ScoringTransparenc
           <div className="p-4 bg-gray-50 rounded-lg">
             <h3 className="font-semibold mb-2">Calculation Formula</h3>
             <code className="text-sm font-mono bg-white p-2 rounded border block">
-              Overall Score = (Sanctions × 0.45) + (PEP × 0.15) + (AdverseMedia × 0.15) + (InternalHistory × 0.15) + (CountryBaseline × 0.10)
+              Overall Score = {formula}
             </code>
             <p className="text-xs text-gray-600 mt-2">
               All component scores are normalized to 0-100 scale before applying weights. Final score determines risk tier classification.
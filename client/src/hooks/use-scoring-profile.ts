@@ -0,0 +1,42 @@
+import { useQuery } from "@tanstack/react-query";
+
+export type ScoringWeightKey =
+  | 'sanctions' | 'pep' | 'adverseMedia' | 'internalHistory' | 'countryBaseline' | 'regulatory' | 'paymentMethod';
+
+export interface ScoringProfile {
+  version: number;
+  name: string;
+  weights: Record<ScoringWeightKey, number>;
+  tierThresholds: { low: number; medium: number; high: number };
+}
+
+// The server's built-in default, shown until the active profile has loaded or if it can't be fetched
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  version: 0,
+  name: 'Built-in default',
+  weights: {
+    sanctions: 0.35,
+    pep: 0.15,
+    adverseMedia: 0.15,
+    internalHistory: 0.10,
+    countryBaseline: 0.10,
+    regulatory: 0.10,
+    paymentMethod: 0.05,
+  },
+  tierThresholds: { low: 30, medium: 70, high: 100 },
+};
+
+// Weights and tier thresholds the risk engine is currently scoring with
+export const useActiveScoringProfile = (): ScoringProfile => {
+  const { data } = useQuery<{ profile: ScoringProfile }>({
+    queryKey: ['admin', 'scoring-profiles', 'active'],
+    queryFn: async () => {
+      const response = await fetch('/api/admin/scoring-profiles/active');
+      if (!response.ok) throw new Error('Failed to fetch active scoring profile');
+      return response.json();
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return data?.profile ?? DEFAULT_SCORING_PROFILE;
+};
@@ -9,7 +9,8 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Plus, FileText, BarChart3, Database, Settings, Users } from "lucide-react";
+import { Plus, FileText, BarChart3, Database, Settings, Users, FlaskConical } from "lucide-react";
+import { useLocation } from "wouter";
 import { ComplianceRule } from "@/types";
 
 export default function AdminRules() {
@@ -17,6 +18,7 @@ export default function AdminRules() {
   const [showNewRuleEditor, setShowNewRuleEditor] = useState(false);
   
   const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
   const { toast } = useToast();
 
   // Fetch compliance rules
@@ -158,10 +160,16 @@ export default function AdminRules() {
               Manage compliance rules and system configuration
             </p>
           </div>
-          <Button onClick={handleNewRule} className="flex items-center gap-2">
-            <Plus className="h-4 w-4" />
-            New Rule
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => setLocation('/admin/simulator')} className="flex items-center gap-2">
+              <FlaskConical className="h-4 w-4" />
+              Simulate Impact
+            </Button>
+            <Button onClick={handleNewRule} className="flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              New Rule
+            </Button>
+          </div>
         </div>
 
         <Tabs defaultValue="rules" className="space-y-6">
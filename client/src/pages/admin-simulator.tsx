@@ -0,0 +1,334 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card, CardHeader, CardContent, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, ArrowDown, ArrowUp, FlaskConical } from 'lucide-react';
+import { useLocation } from 'wouter';
+import { useToast } from '@/hooks/use-toast';
+
+type Tier = 'low' | 'medium' | 'high';
+
+const WEIGHT_KEYS = [
+  'sanctions', 'pep', 'adverseMedia', 'internalHistory', 'countryBaseline', 'regulatory', 'paymentMethod',
+] as const;
+type WeightKey = typeof WEIGHT_KEYS[number];
+
+const WEIGHT_LABELS: Record<WeightKey, string> = {
+  sanctions: 'Sanctions',
+  pep: 'PEP',
+  adverseMedia: 'Adverse media',
+  internalHistory: 'Internal history',
+  countryBaseline: 'Country baseline',
+  regulatory: 'Regulatory',
+  paymentMethod: 'Payment method',
+};
+
+interface DraftRule {
+  id: string;
+  ruleType: string;
+  description: string;
+  severity: number;
+  status: string;
+  country: { name: string; iso: string } | null;
+}
+
+interface SimulatedContractor {
+  riskScoreId: string;
+  contractorName: string | null;
+  countryIso: string;
+  currentScore: number;
+  simulatedScore: number;
+  currentTier: Tier;
+  simulatedTier: Tier;
+}
+
+interface Simulation {
+  assessed: number;
+  baseProfileVersion: number;
+  distribution: { current: Record<Tier, number>; simulated: Record<Tier, number> };
+  movedUp: SimulatedContractor[];
+  movedDown: SimulatedContractor[];
+  averageScoreDelta: number;
+}
+
+const tierBadge = (tier: Tier) => (
+  <Badge variant={tier === 'high' ? 'destructive' : tier === 'medium' ? 'secondary' : 'outline'}>
+    {tier}
+  </Badge>
+);
+
+export default function AdminSimulatorPage() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const [weights, setWeights] = useState<Record<WeightKey, string> | null>(null);
+  const [thresholds, setThresholds] = useState<{ low: string; medium: string } | null>(null);
+  const [selectedRules, setSelectedRules] = useState<string[]>([]);
+  const [countryIso, setCountryIso] = useState('');
+
+  const { data: activeProfile } = useQuery({
+    queryKey: ['admin', 'scoring-profiles', 'active'],
+    queryFn: async () => {
+      const response = await fetch('/api/admin/scoring-profiles/active');
+      if (!response.ok) throw new Error('Failed to fetch active scoring profile');
+      return response.json();
+    },
+  });
+
+  const { data: draftRules = [] } = useQuery<DraftRule[]>({
+    queryKey: ['admin', 'rules', 'drafts'],
+    queryFn: async () => {
+      const response = await fetch('/api/admin/rules?limit=100');
+      if (!response.ok) throw new Error('Failed to fetch rules');
+      const data = await response.json();
+      return (data.rules || []).filter((rule: DraftRule) => rule.status === 'draft');
+    },
+  });
+
+  // Form fields start from the active profile until edited
+  const profile = activeProfile?.profile;
+  const currentWeights: Record<WeightKey, string> = weights || Object.fromEntries(
+    WEIGHT_KEYS.map(key => [key, String(profile?.weights?.[key] ?? 0)])
+  ) as Record<WeightKey, string>;
+  const currentThresholds = thresholds || {
+    low: String(profile?.tierThresholds?.low ?? 30),
+    medium: String(profile?.tierThresholds?.medium ?? 70),
+  };
+  const weightsTotal = WEIGHT_KEYS.reduce((sum, key) => sum + (parseFloat(currentWeights[key]) || 0), 0);
+
+  const simulateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/admin/simulations/score', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          weights: Object.fromEntries(WEIGHT_KEYS.map(key => [key, parseFloat(currentWeights[key]) || 0])),
+          tierThresholds: {
+            low: parseInt(currentThresholds.low, 10),
+            medium: parseInt(currentThresholds.medium, 10),
+            high: 100,
+          },
+          draftRuleIds: selectedRules,
+          ...(countryIso.trim() && { countryIso: countryIso.trim().toUpperCase() }),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Simulation failed');
+      }
+      return data.simulation as Simulation;
+    },
+    onError: (error) => {
+      toast({
+        title: "Simulation Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const simulation = simulateMutation.data;
+
+  const toggleRule = (id: string) => {
+    setSelectedRules(prev => prev.includes(id) ? prev.filter(r => r !== id) : [...prev, id]);
+  };
+
+  const renderMovers = (title: string, movers: SimulatedContractor[], icon: JSX.Element) => (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {icon}
+          {title} ({movers.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {movers.length === 0 ? (
+          <p className="text-sm text-gray-500">No contractors would change tier in this direction.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Contractor</TableHead>
+                <TableHead>Country</TableHead>
+                <TableHead>Score</TableHead>
+                <TableHead>Tier</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {movers.slice(0, 100).map(mover => (
+                <TableRow key={mover.riskScoreId}>
+                  <TableCell>{mover.contractorName || 'Unnamed contractor'}</TableCell>
+                  <TableCell>{mover.countryIso}</TableCell>
+                  <TableCell>{mover.currentScore} → {mover.simulatedScore}</TableCell>
+                  <TableCell className="flex items-center gap-2">
+                    {tierBadge(mover.currentTier)} → {tierBadge(mover.simulatedTier)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <Button variant="ghost" onClick={() => setLocation('/admin-rules')}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Rules
+            </Button>
+            <h1 className="text-lg font-semibold text-gray-900">
+              What-if Score Simulator
+            </h1>
+            <div className="w-20"></div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Alert>
+          <AlertDescription>
+            Replays the stored inputs of recent risk scores with the weights, thresholds and draft rules below.
+            Nothing is published or written.
+          </AlertDescription>
+        </Alert>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Candidate weights</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {WEIGHT_KEYS.map(key => (
+                <div key={key} className="flex items-center justify-between gap-4">
+                  <label className="text-sm text-gray-700">{WEIGHT_LABELS[key]}</label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="1"
+                    className="w-28"
+                    value={currentWeights[key]}
+                    onChange={(e) => setWeights({ ...currentWeights, [key]: e.target.value })}
+                  />
+                </div>
+              ))}
+              <p className={`text-sm ${Math.abs(weightsTotal - 1) < 0.001 ? 'text-gray-500' : 'text-red-600'}`}>
+                Total: {weightsTotal.toFixed(2)} (must be 1.00)
+              </p>
+              <div className="grid grid-cols-2 gap-4 pt-2">
+                <div>
+                  <label className="text-sm text-gray-700">Medium tier from</label>
+                  <Input
+                    type="number"
+                    value={currentThresholds.low}
+                    onChange={(e) => setThresholds({ ...currentThresholds, low: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm text-gray-700">High tier from</label>
+                  <Input
+                    type="number"
+                    value={currentThresholds.medium}
+                    onChange={(e) => setThresholds({ ...currentThresholds, medium: e.target.value })}
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Draft rules to include</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {draftRules.length === 0 ? (
+                <p className="text-sm text-gray-500">There are no draft rules.</p>
+              ) : (
+                draftRules.map(rule => (
+                  <label key={rule.id} className="flex items-start gap-3 p-2 border rounded cursor-pointer">
+                    <Checkbox
+                      checked={selectedRules.includes(rule.id)}
+                      onCheckedChange={() => toggleRule(rule.id)}
+                    />
+                    <div>
+                      <div className="text-sm font-medium">
+                        {rule.country?.iso} · {rule.ruleType} <Badge variant="outline">severity {rule.severity}</Badge>
+                      </div>
+                      <p className="text-xs text-gray-500">{rule.description}</p>
+                    </div>
+                  </label>
+                ))
+              )}
+              <div className="pt-2">
+                <label className="text-sm text-gray-700">Limit to country (ISO, optional)</label>
+                <Input
+                  placeholder="e.g. DE"
+                  maxLength={2}
+                  value={countryIso}
+                  onChange={(e) => setCountryIso(e.target.value)}
+                />
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Button
+          onClick={() => simulateMutation.mutate()}
+          disabled={simulateMutation.isPending}
+          className="flex items-center gap-2"
+        >
+          <FlaskConical className="w-4 h-4" />
+          {simulateMutation.isPending ? 'Simulating...' : 'Run simulation'}
+        </Button>
+
+        {simulation && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Tier distribution ({simulation.assessed} contractors)</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-3 gap-4">
+                  {(['low', 'medium', 'high'] as Tier[]).map(tier => {
+                    const delta = simulation.distribution.simulated[tier] - simulation.distribution.current[tier];
+                    return (
+                      <div key={tier} className="p-4 border rounded-lg">
+                        <div className="flex items-center justify-between">
+                          {tierBadge(tier)}
+                          <span className={`text-sm ${delta > 0 ? 'text-red-600' : delta < 0 ? 'text-green-600' : 'text-gray-500'}`}>
+                            {delta > 0 ? `+${delta}` : delta}
+                          </span>
+                        </div>
+                        <div className="text-2xl font-bold mt-2">
+                          {simulation.distribution.current[tier]} → {simulation.distribution.simulated[tier]}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+                <p className="text-sm text-gray-500 mt-4">
+                  Average score change: {simulation.averageScoreDelta > 0 ? '+' : ''}{simulation.averageScoreDelta} points
+                  (compared with the stored scores; active profile v{simulation.baseProfileVersion})
+                </p>
+              </CardContent>
+            </Card>
+
+            {renderMovers('Would move up', simulation.movedUp, <ArrowUp className="w-5 h-5 text-red-600" />)}
+            {renderMovers('Would move down', simulation.movedDown, <ArrowDown className="w-5 h-5 text-green-600" />)}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -32,6 +32,7 @@ export interface RiskAssessment {
     adverseMedia: number;
     internalHistory: number;
     countryBaseline: number;
+    regulatory: number;
   };
   rulesetVersion: number;
   createdAt: string;
@@ -0,0 +1,78 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { createChildLogger } from './logger';
+
+const logger = createChildLogger('field-encryption');
+
+const ALGORITHM = 'aes-256-gcm';
+const PREFIX = 'enc:v1';
+
+export const REDACTED = '[redacted]';
+
+interface EncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * AES-256-GCM encryption for individual JSON string values. The key comes from
+ * EVIDENCE_ENCRYPTION_KEY (32 bytes, hex or base64); its id is a short hash so
+ * stored values can be matched to the key that wrote them after a rotation.
+ * Values are serialized as `enc:v1:<keyId>:<iv>:<tag>:<ciphertext>`.
+ */
+export class FieldEncryption {
+  private readonly key: EncryptionKey | null;
+
+  constructor(rawKey = process.env.EVIDENCE_ENCRYPTION_KEY) {
+    this.key = rawKey ? this.parseKey(rawKey) : null;
+    if (!this.key) {
+      logger.warn('EVIDENCE_ENCRYPTION_KEY not configured, PII fields will be redacted instead of encrypted');
+    }
+  }
+
+  get enabled(): boolean {
+    return this.key !== null;
+  }
+
+  get keyId(): string | null {
+    return this.key?.id ?? null;
+  }
+
+  encrypt(plaintext: string): string {
+    if (!this.key) return REDACTED;
+
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(ALGORITHM, this.key.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+
+    return [PREFIX, this.key.id, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+  }
+
+  decrypt(value: string): string {
+    if (!FieldEncryption.isEncrypted(value)) return value;
+
+    const [, , keyId, iv, tag, ciphertext] = value.split(':');
+    if (!this.key || keyId !== this.key.id) {
+      throw new Error(`Encryption key ${keyId} is not available`);
+    }
+
+    const decipher = createDecipheriv(ALGORITHM, this.key.key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+  }
+
+  static isEncrypted(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(`${PREFIX}:`);
+  }
+
+  private parseKey(rawKey: string): EncryptionKey | null {
+    const key = /^[0-9a-f]{64}$/i.test(rawKey) ? Buffer.from(rawKey, 'hex') : Buffer.from(rawKey, 'base64');
+    if (key.length !== 32) {
+      logger.error({ length: key.length }, 'EVIDENCE_ENCRYPTION_KEY must be 32 bytes (hex or base64)');
+      return null;
+    }
+    return { id: createHash('sha256').update(key).digest('hex').slice(0, 8), key };
+  }
+}
+
+export const fieldEncryption = new FieldEncryption();
@@ -0,0 +1,145 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createChildLogger } from './logger';
+
+const logger = createChildLogger('provider-recorder');
+
+/**
+ * HTTP layer for provider adapters with a record/replay switch.
+ *
+ *   PROVIDER_RECORDING_MODE=record  calls the provider and writes each
+ *                                   request/response pair to a fixture file
+ *   PROVIDER_RECORDING_MODE=replay  serves responses from fixtures and never
+ *                                   touches the network; a missing fixture fails
+ *
+ * Fixtures are keyed by provider, method, path, query and body, so the same
+ * screening always maps to the same file. Request headers (API keys) are not
+ * stored, but responses are kept verbatim, so recordings of real contractors
+ * contain their PII.
+ */
+
+export type RecordingMode = 'off' | 'record' | 'replay';
+
+export interface ProviderFixture {
+  provider: string;
+  recordedAt: string;
+  request: { method: string; url: string; body: unknown };
+  response: { status: number; statusText: string; contentType: string | null; body: unknown };
+}
+
+export interface RecordOptions {
+  ignoreParams?: string[]; // query parameters that change between runs (e.g. a rolling date) and must not affect the key
+}
+
+export class FixtureNotFoundError extends Error {
+  constructor(public readonly provider: string, public readonly fixturePath: string) {
+    super(`No ${provider} fixture recorded for this request (${fixturePath})`);
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+const parseMode = (value: string | undefined): RecordingMode =>
+  value === 'record' || value === 'replay' ? value : 'off';
+
+// Objects with keys sorted so equivalent JSON bodies hash the same
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.keys(value).sort().map(key => [key, canonicalize((value as Record<string, unknown>)[key])]));
+  }
+  return value;
+}
+
+function parseBody(text: string | null | undefined): unknown {
+  if (text === null || text === undefined || text === '') return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+export class ProviderRecorder {
+  readonly mode: RecordingMode;
+  private readonly fixturesDir: string;
+
+  constructor() {
+    this.mode = parseMode(process.env.PROVIDER_RECORDING_MODE);
+    this.fixturesDir = path.resolve(process.env.PROVIDER_FIXTURES_DIR || 'fixtures/providers');
+    if (this.mode !== 'off') {
+      logger.warn({ mode: this.mode, fixturesDir: this.fixturesDir }, 'Provider recording mode enabled');
+    }
+  }
+
+  isReplaying(): boolean {
+    return this.mode === 'replay';
+  }
+
+  async fetch(provider: string, url: string, init: RequestInit = {}, options: RecordOptions = {}): Promise<Response> {
+    if (this.mode === 'off') return fetch(url, init);
+
+    const method = (init.method || 'GET').toUpperCase();
+    const requestBody = parseBody(typeof init.body === 'string' ? init.body : null);
+    const fixturePath = this.fixturePath(provider, method, url, requestBody, options);
+
+    if (this.mode === 'replay') {
+      const fixture = await this.readFixture(fixturePath);
+      if (!fixture) throw new FixtureNotFoundError(provider, path.relative(process.cwd(), fixturePath));
+      logger.debug({ provider, fixturePath }, 'Replaying provider response');
+      return this.toResponse(fixture);
+    }
+
+    const response = await fetch(url, init);
+    const text = await response.text();
+    const fixture: ProviderFixture = {
+      provider,
+      recordedAt: new Date().toISOString(),
+      request: { method, url, body: requestBody },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        contentType: response.headers.get('content-type'),
+        body: parseBody(text),
+      },
+    };
+    await fs.mkdir(path.dirname(fixturePath), { recursive: true });
+    await fs.writeFile(fixturePath, JSON.stringify(fixture, null, 2) + '\n');
+    logger.info({ provider, status: response.status, fixturePath }, 'Recorded provider response');
+
+    return this.toResponse(fixture);
+  }
+
+  private fixturePath(provider: string, method: string, url: string, body: unknown, options: RecordOptions): string {
+    const parsed = new URL(url);
+    for (const param of options.ignoreParams || []) parsed.searchParams.delete(param);
+    parsed.searchParams.sort();
+
+    // Host left out so fixtures replay against any base URL override
+    const key = JSON.stringify([method, parsed.pathname + parsed.search, canonicalize(body)]);
+    const hash = createHash('sha256').update(key).digest('hex').slice(0, 16);
+    const slug = parsed.pathname.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '') || 'root';
+    return path.join(this.fixturesDir, provider, `${method.toLowerCase()}-${slug}-${hash}.json`);
+  }
+
+  private async readFixture(fixturePath: string): Promise<ProviderFixture | null> {
+    try {
+      return JSON.parse(await fs.readFile(fixturePath, 'utf8')) as ProviderFixture;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private toResponse(fixture: ProviderFixture): Response {
+    const { status, statusText, contentType, body } = fixture.response;
+    const text = body === null ? null : typeof body === 'string' ? body : JSON.stringify(body);
+    return new Response(text, {
+      status,
+      statusText,
+      headers: contentType ? { 'content-type': contentType } : {},
+    });
+  }
+}
+
+export const providerRecorder = new ProviderRecorder();
@@ -0,0 +1,277 @@
+import { createChildLogger } from './logger';
+import { FixtureNotFoundError } from './provider-recorder';
+
+const logger = createChildLogger('provider-resilience');
+
+/**
+ * Shared call wrapper for external provider adapters: a circuit breaker per
+ * provider, a timeout that follows the provider's recent p95 latency, and a
+ * retry budget so retries can't multiply load on a provider that is struggling.
+ * While a breaker is open, calls fail immediately instead of waiting out the
+ * timeout on every risk check.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface ResiliencePolicy {
+  timeoutMs: number; // used until enough latency samples exist, and the ceiling afterwards
+  maxRetries: number;
+  minTimeoutMs?: number;
+  backoffMs?: number; // first retry delay, doubled per attempt
+}
+
+export interface ProviderResilienceSnapshot {
+  provider: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  retryAt: string | null;
+  timeoutMs: number;
+  p95LatencyMs: number | null;
+  latencySamples: number;
+  retryBudget: number;
+  totals: {
+    calls: number;
+    failures: number;
+    timeouts: number;
+    rejected: number; // short-circuited while open
+    retries: number;
+    retriesDenied: number; // retries the budget did not allow
+  };
+}
+
+// Thrown without calling the provider while its breaker is open
+export class CircuitOpenError extends Error {
+  constructor(public readonly provider: string, public readonly retryAt: Date) {
+    super(`${provider} circuit is open until ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+// Non-2xx response; 4xx other than 408/429 is the caller's fault and neither retried nor counted against the provider
+export class ProviderHttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'ProviderHttpError';
+  }
+}
+
+const FAILURE_THRESHOLD = parseInt(process.env.PROVIDER_BREAKER_FAILURE_THRESHOLD || '5', 10);
+const RESET_TIMEOUT_MS = parseInt(process.env.PROVIDER_BREAKER_RESET_MS || '30000', 10);
+const TIMEOUT_P95_MULTIPLIER = parseFloat(process.env.PROVIDER_TIMEOUT_P95_MULTIPLIER || '2');
+const RETRY_BUDGET_RATIO = parseFloat(process.env.PROVIDER_RETRY_BUDGET_RATIO || '0.2');
+const RETRY_BUDGET_MAX = 10;
+const LATENCY_WINDOW = 100;
+const MIN_LATENCY_SAMPLES = 10;
+const DEFAULT_MIN_TIMEOUT_MS = 500;
+
+// A missing replay fixture won't appear on retry and says nothing about the provider
+const isProviderFault = (error: unknown) => error instanceof ProviderHttpError
+  ? error.status >= 500 || error.status === 408 || error.status === 429
+  : !(error instanceof FixtureNotFoundError);
+
+export class ProviderResilience {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+  private latencies: number[] = [];
+  // Each first attempt earns RETRY_BUDGET_RATIO of a retry; a retry spends one
+  private retryBudget = RETRY_BUDGET_MAX / 2;
+  private totals = { calls: 0, failures: 0, timeouts: 0, rejected: 0, retries: 0, retriesDenied: 0 };
+
+  constructor(readonly provider: string, private policy: ResiliencePolicy) {}
+
+  updatePolicy(policy: ResiliencePolicy) {
+    this.policy = policy;
+  }
+
+  /**
+   * Run `operation` under the breaker, aborting `signal` once the adaptive
+   * timeout passes and retrying with backoff while the budget allows.
+   * `timeoutMs` lowers the ceiling for a single call.
+   */
+  async execute<T>(
+    operation: (signal: AbortSignal) => Promise<T>,
+    options: { timeoutMs?: number } = {}
+  ): Promise<T> {
+    this.retryBudget = Math.min(RETRY_BUDGET_MAX, this.retryBudget + RETRY_BUDGET_RATIO);
+
+    for (let attempt = 0; ; attempt++) {
+      this.beforeCall();
+      const timeoutMs = Math.min(this.currentTimeout(), options.timeoutMs ?? Infinity);
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      const startTime = Date.now();
+      this.totals.calls++;
+
+      try {
+        const result = await operation(controller.signal);
+        this.onSuccess(Date.now() - startTime);
+        return result;
+      } catch (error) {
+        const timedOut = controller.signal.aborted;
+        this.onFailure(error, timedOut);
+
+        if (!isProviderFault(error) || attempt >= this.policy.maxRetries) throw error;
+        if (this.retryBudget < 1) {
+          this.totals.retriesDenied++;
+          logger.warn({ provider: this.provider, attempt }, 'Retry budget exhausted, not retrying');
+          throw error;
+        }
+
+        this.retryBudget -= 1;
+        this.totals.retries++;
+        const backoffDelay = Math.pow(2, attempt) * (this.policy.backoffMs ?? 1000);
+        logger.warn({
+          provider: this.provider,
+          attempt,
+          backoffDelay,
+          timedOut,
+          timeoutMs,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }, 'Retrying provider request');
+        await new Promise(resolve => setTimeout(resolve, backoffDelay));
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  }
+
+  // p95 of recent successful calls, scaled and clamped to [minTimeoutMs, timeoutMs]
+  currentTimeout(): number {
+    const p95 = this.p95Latency();
+    if (p95 === null) return this.policy.timeoutMs;
+    const floor = this.policy.minTimeoutMs ?? Math.min(DEFAULT_MIN_TIMEOUT_MS, this.policy.timeoutMs);
+    return Math.round(Math.min(this.policy.timeoutMs, Math.max(floor, p95 * TIMEOUT_P95_MULTIPLIER)));
+  }
+
+  snapshot(): ProviderResilienceSnapshot {
+    this.refreshState();
+    return {
+      provider: this.provider,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+      retryAt: this.state === 'open' && this.openedAt ? new Date(this.openedAt + RESET_TIMEOUT_MS).toISOString() : null,
+      timeoutMs: this.currentTimeout(),
+      p95LatencyMs: this.p95Latency(),
+      latencySamples: this.latencies.length,
+      retryBudget: Math.round(this.retryBudget * 100) / 100,
+      totals: { ...this.totals },
+    };
+  }
+
+  private p95Latency(): number | null {
+    if (this.latencies.length < MIN_LATENCY_SAMPLES) return null;
+    const sorted = [...this.latencies].sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))];
+  }
+
+  // An open breaker lets one trial call through once the reset timeout has passed
+  private refreshState() {
+    if (this.state === 'open' && this.openedAt && Date.now() - this.openedAt >= RESET_TIMEOUT_MS) {
+      this.transition('half_open');
+    }
+  }
+
+  private beforeCall() {
+    this.refreshState();
+    if (this.state === 'closed') return;
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+    this.totals.rejected++;
+    throw new CircuitOpenError(this.provider, new Date((this.openedAt ?? Date.now()) + RESET_TIMEOUT_MS));
+  }
+
+  private onSuccess(latencyMs: number) {
+    this.latencies.push(latencyMs);
+    if (this.latencies.length > LATENCY_WINDOW) this.latencies.shift();
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+    if (this.state !== 'closed') this.transition('closed');
+  }
+
+  private onFailure(error: unknown, timedOut: boolean) {
+    this.trialInFlight = false;
+    if (!isProviderFault(error)) {
+      // The provider answered, so it is reachable
+      this.consecutiveFailures = 0;
+      if (this.state === 'half_open') this.transition('closed');
+      return;
+    }
+
+    this.totals.failures++;
+    if (timedOut) this.totals.timeouts++;
+    this.consecutiveFailures++;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= FAILURE_THRESHOLD) {
+      this.openedAt = Date.now();
+      if (this.state !== 'open') this.transition('open');
+    }
+  }
+
+  private transition(next: CircuitState) {
+    logger.warn({
+      provider: this.provider,
+      from: this.state,
+      to: next,
+      consecutiveFailures: this.consecutiveFailures
+    }, 'Provider circuit state changed');
+    this.state = next;
+    if (next === 'closed') this.openedAt = null;
+  }
+}
+
+const STATE_VALUES: Record<CircuitState, number> = { closed: 0, half_open: 1, open: 2 };
+
+export class ProviderResilienceRegistry {
+  private providers = new Map<string, ProviderResilience>();
+
+  // Adapters register in their constructors; re-registering keeps the breaker and latency history
+  register(provider: string, policy: ResiliencePolicy): ProviderResilience {
+    const existing = this.providers.get(provider);
+    if (existing) {
+      existing.updatePolicy(policy);
+      return existing;
+    }
+    const resilience = new ProviderResilience(provider, policy);
+    this.providers.set(provider, resilience);
+    return resilience;
+  }
+
+  snapshot(): ProviderResilienceSnapshot[] {
+    return Array.from(this.providers.values()).map(p => p.snapshot());
+  }
+
+  getPrometheusMetrics(): string {
+    const snapshots = this.snapshot();
+    if (snapshots.length === 0) return '';
+
+    const gauge = (name: string, help: string, type: 'gauge' | 'counter', value: (s: ProviderResilienceSnapshot) => number | null) => {
+      let output = `# HELP ${name} ${help}\n# TYPE ${name} ${type}\n`;
+      for (const s of snapshots) {
+        const v = value(s);
+        if (v !== null) output += `${name}{provider="${s.provider}"} ${v}\n`;
+      }
+      return output;
+    };
+
+    return [
+      gauge('provider_circuit_state', 'Circuit breaker state (0 closed, 1 half-open, 2 open)', 'gauge', s => STATE_VALUES[s.state]),
+      gauge('provider_timeout_seconds', 'Current adaptive request timeout', 'gauge', s => s.timeoutMs / 1000),
+      gauge('provider_latency_p95_seconds', 'p95 latency of recent successful calls', 'gauge', s => s.p95LatencyMs === null ? null : s.p95LatencyMs / 1000),
+      gauge('provider_retry_budget', 'Retries currently available', 'gauge', s => s.retryBudget),
+      gauge('provider_calls_total', 'Provider call attempts', 'counter', s => s.totals.calls),
+      gauge('provider_failures_total', 'Failed provider call attempts', 'counter', s => s.totals.failures),
+      gauge('provider_timeouts_total', 'Provider call attempts that timed out', 'counter', s => s.totals.timeouts),
+      gauge('provider_rejected_total', 'Calls rejected while the circuit was open', 'counter', s => s.totals.rejected),
+      gauge('provider_retries_total', 'Retries made', 'counter', s => s.totals.retries),
+      gauge('provider_retries_denied_total', 'Retries refused by the retry budget', 'counter', s => s.totals.retriesDenied),
+    ].join('');
+  }
+}
+
+export const providerResilience = new ProviderResilienceRegistry();
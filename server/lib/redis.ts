@@ -32,6 +32,10 @@ if (redis) {
 
 // Create a fallback redis interface that handles operations gracefully
 const redisInterface = {
+  // False in fallback mode, where reads return null and writes are dropped
+  isAvailable(): boolean {
+    return redis !== null;
+  },
   async get(key: string): Promise<string | null> {
     if (!redis) return null;
     try {
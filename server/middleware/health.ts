@@ -4,6 +4,8 @@ import { countries, complianceRules } from '@shared/schema';
 import { eq } from 'drizzle-orm';
 import { metricsCollector } from './metrics';
 import { createChildLogger } from '../lib/logger';
+import { providerResilience, type ProviderResilienceSnapshot } from '../lib/provider-resilience';
+import { providerCacheService } from '../services/provider-cache-service';
 
 const logger = createChildLogger('health');
 
@@ -22,7 +24,9 @@ interface HealthStatus {
     database: boolean;
     redis?: boolean;
     recentActivity: boolean;
+    providerCircuits?: boolean; // false while any provider circuit is open
   };
+  providers?: ProviderResilienceSnapshot[];
   rulesetVersion?: number;
   metrics?: {
     totalRequests: number;
@@ -40,7 +44,8 @@ export async function healthCheck(req: Request, res: Response) {
   const checks = {
     database: false,
     redis: false,
-    recentActivity: false
+    recentActivity: false,
+    providerCircuits: true
   };
 
   try {
@@ -73,6 +78,13 @@ export async function healthCheck(req: Request, res: Response) {
       checks.recentActivity = false;
     }
 
+    // Open provider circuits mean checks are running on fallbacks
+    const providers = providerResilience.snapshot();
+    checks.providerCircuits = !providers.some(p => p.state === 'open');
+    if (!checks.providerCircuits) {
+      status = status === 'healthy' ? 'degraded' : status;
+    }
+
     // Get current ruleset version (optional)
     let rulesetVersion: number | undefined;
     try {
@@ -94,6 +106,7 @@ export async function healthCheck(req: Request, res: Response) {
       buildSha: BUILD_SHA,
       uptime: Date.now() - START_TIME.getTime(),
       checks,
+      providers,
       rulesetVersion,
       metrics
     };
@@ -144,11 +157,15 @@ export async function metricsEndpoint(req: Request, res: Response) {
       res.json({
         summary: stats,
         recentRequests: recentMetrics.length,
+        providers: providerResilience.snapshot(),
+        providerCache: providerCacheService.getStats(),
         timestamp: new Date().toISOString()
       });
     } else {
       // Prometheus format (default)
-      const prometheusMetrics = metricsCollector.getPrometheusMetrics();
+      const prometheusMetrics = metricsCollector.getPrometheusMetrics()
+        + providerResilience.getPrometheusMetrics()
+        + providerCacheService.getPrometheusMetrics();
       res.set('Content-Type', 'text/plain; version=0.0.4');
       res.send(prometheusMetrics);
     }
@@ -0,0 +1,282 @@
+/**
+ * Lexicon-based classification of adverse media articles into financial-crime
+ * and compliance risk categories. Runs locally on the article title and
+ * description; new categories or terms are added by registering a rule.
+ */
+
+export type AdverseMediaCategory =
+  | 'terrorism_financing'
+  | 'money_laundering'
+  | 'corruption'
+  | 'fraud'
+  | 'tax_evasion'
+  | 'labor_violations'
+  | 'regulatory'
+  | 'litigation'
+  | (string & {});
+
+export interface AdverseMediaTerm {
+  term: string; // whole word or phrase; a * matches the rest of a word ("launder*")
+  severity: number; // 0-100, how serious a mention of this term is on its own
+}
+
+export interface AdverseMediaCategoryRule {
+  category: AdverseMediaCategory;
+  label: string;
+  weight: number; // 0-1, how much an article in this category moves the adverse media score
+  terms: AdverseMediaTerm[];
+  // Phrases blanked out before the terms are matched, so "anti-money laundering
+  // compliance" doesn't read as money laundering; same syntax as terms
+  exclusions?: string[];
+}
+
+export interface ArticleCategoryMatch {
+  category: AdverseMediaCategory;
+  severity: number; // 0-100
+  terms: string[];
+}
+
+export interface ArticleClassification {
+  categories: ArticleCategoryMatch[]; // most severe first
+  severity: number; // 0-100, of the most severe category
+  relevance: number; // 0-100, how clearly the article is about the contractor
+  score: number; // 0-100, category-weighted severity scaled by relevance
+}
+
+interface CompiledTerm extends AdverseMediaTerm {
+  pattern: RegExp;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const compilePattern = (term: string, flags?: string): RegExp => {
+  const body = term.toLowerCase().split('*')
+    .map(part => escapeRegExp(part).replace(/\s+/g, '\\s+'))
+    .join('\\w*');
+  return new RegExp(`\\b${body}${term.endsWith('*') ? '' : '\\b'}`, flags);
+};
+
+const compileTerm = (term: AdverseMediaTerm): CompiledTerm => ({ ...term, pattern: compilePattern(term.term) });
+
+// Words that turn a crime term into a job title, team or control ("sanctions screening")
+const COMPLIANCE_CONTEXTS = [
+  'compliance', 'screening', 'controls', 'prevention', 'detection', 'training', 'policy', 'policies',
+  'program*', 'officer*', 'analyst*', 'specialist*', 'expert*', 'team*', 'lawyer*',
+];
+
+const inComplianceContext = (...subjects: string[]) =>
+  subjects.flatMap(subject => COMPLIANCE_CONTEXTS.map(context => `${subject} ${context}`));
+
+// Each further distinct term in the same category adds a little severity
+const EXTRA_TERM_SEVERITY = 5;
+
+export const terrorismFinancingRule: AdverseMediaCategoryRule = {
+  category: 'terrorism_financing',
+  label: 'Terrorism financing',
+  weight: 1.0,
+  terms: [
+    { term: 'terrorist financing', severity: 95 },
+    { term: 'terrorism financing', severity: 95 },
+    { term: 'financing terror*', severity: 95 },
+    { term: 'funding terror*', severity: 90 },
+    { term: 'terror financ*', severity: 90 },
+    { term: 'material support', severity: 80 },
+    { term: 'extremist group*', severity: 60 },
+  ],
+};
+
+export const moneyLaunderingRule: AdverseMediaCategoryRule = {
+  category: 'money_laundering',
+  label: 'Money laundering',
+  weight: 0.95,
+  terms: [
+    { term: 'money launder*', severity: 90 },
+    { term: 'launder*', severity: 80 },
+    { term: 'aml violation*', severity: 75 },
+    { term: 'shell compan*', severity: 50 },
+    { term: 'illicit funds', severity: 70 },
+    { term: 'proceeds of crime', severity: 75 },
+  ],
+  exclusions: [
+    'anti-money launder*', 'anti money launder*', 'anti-launder*', 'counter-launder*',
+    ...inComplianceContext('launder*', 'aml'),
+  ],
+};
+
+export const corruptionRule: AdverseMediaCategoryRule = {
+  category: 'corruption',
+  label: 'Bribery and corruption',
+  weight: 0.9,
+  terms: [
+    { term: 'brib*', severity: 80 },
+    { term: 'corrupt*', severity: 75 },
+    { term: 'kickback*', severity: 75 },
+    { term: 'embezzl*', severity: 80 },
+    { term: 'fcpa', severity: 70 },
+    { term: 'graft', severity: 65 },
+    { term: 'abuse of office', severity: 65 },
+  ],
+  exclusions: ['anti-corrupt*', 'anti corrupt*', 'anti-brib*', 'anti brib*', ...inComplianceContext('corruption', 'brib*')],
+};
+
+export const fraudRule: AdverseMediaCategoryRule = {
+  category: 'fraud',
+  label: 'Fraud',
+  weight: 0.85,
+  terms: [
+    { term: 'fraud*', severity: 75 },
+    { term: 'ponzi', severity: 85 },
+    { term: 'pyramid scheme', severity: 80 },
+    { term: 'scam', severity: 60 },
+    { term: 'scams', severity: 60 },
+    { term: 'forged', severity: 55 },
+    { term: 'forgery', severity: 55 },
+    { term: 'counterfeit*', severity: 55 },
+    { term: 'misappropriat*', severity: 65 },
+    { term: 'identity theft', severity: 65 },
+    { term: 'insider trading', severity: 70 },
+  ],
+  exclusions: ['anti-fraud', 'anti fraud', ...inComplianceContext('fraud')],
+};
+
+export const taxEvasionRule: AdverseMediaCategoryRule = {
+  category: 'tax_evasion',
+  label: 'Tax evasion',
+  weight: 0.75,
+  terms: [
+    { term: 'tax evasion', severity: 75 },
+    { term: 'evading tax*', severity: 75 },
+    { term: 'evaded tax*', severity: 75 },
+    { term: 'tax fraud', severity: 80 },
+    { term: 'undeclared income', severity: 60 },
+    { term: 'offshore account*', severity: 40 },
+    { term: 'unpaid tax*', severity: 45 },
+    { term: 'tax avoidance', severity: 35 },
+  ],
+};
+
+export const laborViolationsRule: AdverseMediaCategoryRule = {
+  category: 'labor_violations',
+  label: 'Labor violations',
+  weight: 0.7,
+  terms: [
+    { term: 'forced labo*', severity: 90 },
+    { term: 'child labo*', severity: 90 },
+    { term: 'human trafficking', severity: 90 },
+    { term: 'wage theft', severity: 65 },
+    { term: 'unpaid wages', severity: 55 },
+    { term: 'misclassif*', severity: 55 },
+    { term: 'labor violation*', severity: 60 },
+    { term: 'labour violation*', severity: 60 },
+    { term: 'worker exploitation', severity: 70 },
+    { term: 'unsafe working conditions', severity: 50 },
+  ],
+};
+
+export const regulatoryRule: AdverseMediaCategoryRule = {
+  category: 'regulatory',
+  label: 'Regulatory enforcement',
+  weight: 0.6,
+  terms: [
+    { term: 'sanction*', severity: 60 },
+    { term: 'penalt*', severity: 45 },
+    { term: 'fined', severity: 45 },
+    { term: 'fines', severity: 40 },
+    { term: 'violation*', severity: 40 },
+    { term: 'breach*', severity: 40 },
+    { term: 'investigat*', severity: 40 },
+    { term: 'enforcement action', severity: 50 },
+    { term: 'license revoked', severity: 55 },
+    { term: 'misconduct', severity: 45 },
+  ],
+  exclusions: inComplianceContext('sanction*'),
+};
+
+export const litigationRule: AdverseMediaCategoryRule = {
+  category: 'litigation',
+  label: 'Litigation and criminal proceedings',
+  weight: 0.5,
+  terms: [
+    { term: 'lawsuit*', severity: 35 },
+    { term: 'sued', severity: 35 },
+    { term: 'indict*', severity: 70 },
+    { term: 'convict*', severity: 75 },
+    { term: 'arrest*', severity: 65 },
+    { term: 'criminal', severity: 55 },
+    { term: 'illegal*', severity: 45 },
+    { term: 'charged with', severity: 60 },
+  ],
+};
+
+/**
+ * Keyword rules per risk category. An article can fall into several
+ * categories; its score comes from the one with the highest weighted severity.
+ */
+export class AdverseMediaClassifier {
+  private rules = new Map<AdverseMediaCategory, AdverseMediaCategoryRule & { compiled: CompiledTerm[]; excluded: RegExp[] }>();
+
+  // Registering a category again replaces its rule
+  register(rule: AdverseMediaCategoryRule): void {
+    this.rules.set(rule.category, {
+      ...rule,
+      compiled: rule.terms.map(compileTerm),
+      excluded: (rule.exclusions || []).map(exclusion => compilePattern(exclusion, 'g')),
+    });
+  }
+
+  categories(): Array<Pick<AdverseMediaCategoryRule, 'category' | 'label' | 'weight'>> {
+    return Array.from(this.rules.values()).map(({ category, label, weight }) => ({ category, label, weight }));
+  }
+
+  label(category: AdverseMediaCategory): string {
+    return this.rules.get(category)?.label ?? category.replace(/_/g, ' ');
+  }
+
+  weight(category: AdverseMediaCategory): number {
+    return this.rules.get(category)?.weight ?? 0;
+  }
+
+  classify(article: { title: string; description: string | null }, contractorName: string): ArticleClassification {
+    const title = (article.title || '').toLowerCase();
+    const content = `${title} ${(article.description || '').toLowerCase()}`;
+
+    const categories: ArticleCategoryMatch[] = [];
+    for (const rule of Array.from(this.rules.values())) {
+      const text = rule.excluded.reduce((remaining, pattern) => remaining.replace(pattern, ' '), content);
+      const matched = rule.compiled.filter(term => term.pattern.test(text));
+      if (matched.length === 0) continue;
+
+      const topSeverity = Math.max(...matched.map(term => term.severity));
+      categories.push({
+        category: rule.category,
+        severity: Math.min(100, topSeverity + (matched.length - 1) * EXTRA_TERM_SEVERITY),
+        terms: matched.map(term => term.term),
+      });
+    }
+    categories.sort((a, b) => b.severity * this.weight(b.category) - a.severity * this.weight(a.category));
+
+    const relevance = this.relevance(title, content, contractorName);
+    const top = categories[0];
+    return {
+      categories,
+      severity: top ? Math.max(...categories.map(match => match.severity)) : 0,
+      relevance,
+      score: top ? Math.round(top.severity * this.weight(top.category) * relevance / 100) : 0,
+    };
+  }
+
+  // Named in the headline counts most; an article that never names the contractor counts least
+  private relevance(title: string, content: string, contractorName: string): number {
+    const name = contractorName.trim().toLowerCase();
+    if (!name) return 50;
+    if (title.includes(name)) return 100;
+    if (content.includes(name)) return 75;
+    return 40;
+  }
+}
+
+export const adverseMediaClassifier = new AdverseMediaClassifier();
+[
+  terrorismFinancingRule, moneyLaunderingRule, corruptionRule, fraudRule,
+  taxEvasionRule, laborViolationsRule, regulatoryRule, litigationRule,
+].forEach(rule => adverseMediaClassifier.register(rule));
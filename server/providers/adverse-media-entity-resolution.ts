@@ -0,0 +1,184 @@
+import type { AdverseMediaResolution } from "@shared/schema";
+import { normalizeName, stripLegalForms, tokenize } from "./sanctions/nameMatching";
+
+/**
+ * Entity resolution for adverse media: a name search returns every article
+ * that mentions a namesake, so each article is checked for context from the
+ * risk check (country, company, role, email domain, registration ID) before
+ * it is allowed to move the score.
+ */
+
+export interface MediaSubject {
+  name: string;
+  countryIso: string;
+  nationality?: string;
+  companyName?: string;
+  role?: string;
+  email?: string;
+  registrationId?: string;
+}
+
+// Everything beyond the name and country the providers are already called with
+export type MediaSubjectContext = Omit<MediaSubject, 'name' | 'countryIso'>;
+
+export type ArticleResolution = AdverseMediaResolution;
+export type ArticleDecision = ArticleResolution['decision'];
+
+// Confidence points per piece of evidence; the total is clamped to 0-100
+const NAME_IN_TITLE = 45;
+const NAME_IN_TEXT = 35;
+const NAME_ABSENT = 15;
+const SINGLE_WORD_NAME = -10;
+const COUNTRY_MENTIONED = 20;
+const OTHER_COUNTRY_OF_SUBJECT = -20;
+const COMPANY_MENTIONED = 35;
+const ROLE_MENTIONED = 15;
+const EMAIL_DOMAIN_MENTIONED = 20;
+const REGISTRATION_ID_MENTIONED = 40;
+
+const MIN_REGISTRATION_ID_LENGTH = 6;
+
+const CONFIRMED_AT = 60;
+const POSSIBLE_AT = 35; // also the floor for an article that names the contractor in full
+
+// A down-weighted article counts for this share of its score
+const POSSIBLE_WEIGHT = 0.5;
+
+// Mailbox providers say nothing about who the contractor works for
+const FREE_MAIL_DOMAINS = new Set([
+  'gmail', 'googlemail', 'yahoo', 'outlook', 'hotmail', 'live', 'msn', 'icloud', 'me', 'aol',
+  'proton', 'protonmail', 'gmx', 'mail', 'yandex', 'qq', '163', 'zoho', 'fastmail',
+]);
+
+let countryNames: Map<string, string> | null = null;
+
+// English country names by ISO code, from the runtime's ICU data
+function getCountryNames(): Map<string, string> {
+  if (countryNames) return countryNames;
+
+  const display = new Intl.DisplayNames(['en'], { type: 'region' });
+  const letters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+  countryNames = new Map();
+  for (const first of letters) {
+    for (const second of letters) {
+      const iso = first + second;
+      const name = display.of(iso);
+      if (name && name !== iso && !name.startsWith('Unknown')) {
+        countryNames.set(iso, normalizeName(name));
+      }
+    }
+  }
+  return countryNames;
+}
+
+const mentions = (text: string, phrase: string) => !!phrase && text.includes(` ${phrase} `);
+
+// Wording that ties a country to a person rather than to where something happened
+const SUBJECT_COUNTRY_BEFORE = ['citizen of', 'national of', 'resident of', 'native of', 'based in', 'living in', 'residing in', 'born in'];
+const SUBJECT_COUNTRY_AFTER = ['citizen', 'national', 'resident', 'born', 'based'];
+
+// "<name> of/from <country>" or a nationality / residence phrase; "convicted in Cyprus" is not one
+function describesSubject(text: string, country: string, namePhrases: string[]): boolean {
+  return SUBJECT_COUNTRY_BEFORE.some(phrase => mentions(text, `${phrase} ${country}`))
+    || SUBJECT_COUNTRY_AFTER.some(phrase => mentions(text, `${country} ${phrase}`))
+    || namePhrases.some(name => mentions(text, `${name} of ${country}`) || mentions(text, `${name} from ${country}`));
+}
+
+/**
+ * Scores how likely an article is about the subject rather than a namesake.
+ * Confirmed articles count in full, possible ones are down-weighted and
+ * rejected ones are dropped; the reasons are kept for the stored evidence.
+ */
+export class ArticleEntityResolver {
+  resolve(article: { title: string; description: string | null; content?: string | null }, subject: MediaSubject): ArticleResolution {
+    const title = ` ${normalizeName(article.title || '')} `;
+    const text = ` ${normalizeName(`${article.title || ''} ${article.description || ''} ${article.content || ''}`)} `;
+    const reasons: string[] = [];
+    let confidence = 0;
+
+    // The full name, in either order
+    const nameTokens = tokenize(subject.name);
+    const namePhrases = [nameTokens.join(' '), [...nameTokens].reverse().join(' ')];
+    const fullNameFound = namePhrases.some(phrase => mentions(text, phrase));
+    if (namePhrases.some(phrase => mentions(title, phrase))) {
+      confidence += NAME_IN_TITLE;
+      reasons.push('name in headline');
+    } else if (fullNameFound) {
+      confidence += NAME_IN_TEXT;
+      reasons.push('name in article text');
+    } else {
+      confidence += NAME_ABSENT;
+      reasons.push('full name not found in article');
+    }
+    if (nameTokens.length === 1) {
+      confidence += SINGLE_WORD_NAME;
+      reasons.push('single-word name is ambiguous');
+    }
+
+    // Country of residence or nationality. Another country only counts against the article
+    // when it is said to be the person's; crimes abroad are still adverse media.
+    const names = getCountryNames();
+    const subjectCountries = Array.from(new Set([subject.countryIso, subject.nationality]
+      .filter((iso): iso is string => !!iso)
+      .map(iso => iso.toUpperCase())));
+    const subjectCountry = subjectCountries.find(iso => mentions(text, names.get(iso) || ''));
+    if (subjectCountry) {
+      confidence += COUNTRY_MENTIONED;
+      reasons.push(`country ${names.get(subjectCountry)} mentioned`);
+    } else {
+      const nameText = ` ${nameTokens.join(' ')} `;
+      const otherCountry = Array.from(names.entries()).find(([iso, name]) =>
+        !subjectCountries.includes(iso) && !mentions(nameText, name) && describesSubject(text, name, namePhrases)
+      );
+      if (otherCountry) {
+        confidence += OTHER_COUNTRY_OF_SUBJECT;
+        reasons.push(`describes the person as from ${otherCountry[1]}, not the contractor's country`);
+      }
+    }
+
+    if (subject.companyName) {
+      const company = stripLegalForms(subject.companyName);
+      if (mentions(text, company)) {
+        confidence += COMPANY_MENTIONED;
+        reasons.push(`company ${company} mentioned`);
+      }
+    }
+
+    if (subject.role) {
+      const role = normalizeName(subject.role);
+      if (mentions(text, role)) {
+        confidence += ROLE_MENTIONED;
+        reasons.push(`role ${role} mentioned`);
+      }
+    }
+
+    const domain = subject.email?.split('@')[1]?.toLowerCase();
+    const domainLabel = domain?.split('.')[0];
+    if (domain && domainLabel && !FREE_MAIL_DOMAINS.has(domainLabel)
+      && (mentions(text, normalizeName(domain)) || mentions(text, normalizeName(domainLabel)))) {
+      confidence += EMAIL_DOMAIN_MENTIONED;
+      reasons.push(`email domain ${domain} mentioned`);
+    }
+
+    // Compared without separators, and only when long enough not to match by chance
+    const registrationId = normalizeName(subject.registrationId || '').replace(/ /g, '');
+    if (registrationId.length >= MIN_REGISTRATION_ID_LENGTH && text.replace(/ /g, '').includes(registrationId)) {
+      confidence += REGISTRATION_ID_MENTIONED;
+      reasons.push('registration ID mentioned');
+    }
+
+    confidence = Math.max(fullNameFound ? POSSIBLE_AT : 0, Math.min(100, confidence));
+    return {
+      decision: confidence >= CONFIRMED_AT ? 'confirmed' : confidence >= POSSIBLE_AT ? 'possible' : 'rejected',
+      confidence,
+      reasons,
+    };
+  }
+
+  // Multiplier applied to an article's score for the decision
+  weight(decision: ArticleDecision): number {
+    return decision === 'confirmed' ? 1 : decision === 'possible' ? POSSIBLE_WEIGHT : 0;
+  }
+}
+
+export const articleEntityResolver = new ArticleEntityResolver();
@@ -0,0 +1,154 @@
+import { adverseMediaClassifier, type AdverseMediaCategory } from "./adverse-media-classifier";
+import { articleEntityResolver, type ArticleResolution, type MediaSubject } from "./adverse-media-entity-resolution";
+
+/**
+ * Scoring shared by the adverse media providers, so an article scores the same
+ * whether it came from NewsAPI or from the local feed store. Each article is
+ * classified by risk category (see ./adverse-media-classifier) and checked to
+ * be about the subject rather than a namesake (see ./adverse-media-entity-resolution);
+ * the score follows the worst category-weighted, relevance-scaled article.
+ */
+
+export interface AdverseMediaArticle {
+  title: string;
+  description: string;
+  url: string;
+  publishedAt: string;
+  sentiment: 'negative' | 'neutral' | 'positive';
+  categories: AdverseMediaCategory[]; // most severe first
+  severity: number; // 0-100
+  relevance: number; // 0-100
+  resolution: ArticleResolution;
+}
+
+// An article dropped as most likely about someone else, kept for the evidence
+export interface ExcludedMediaArticle {
+  title: string;
+  url: string;
+  publishedAt: string;
+  resolution: ArticleResolution;
+}
+
+// One entry per category found across the articles, highest score first
+export interface AdverseMediaCategorySummary {
+  category: AdverseMediaCategory;
+  label: string;
+  articles: number;
+  severity: number; // highest article severity in the category
+  score: number; // highest category-weighted article score
+}
+
+export interface AdverseMediaResult {
+  hasAdverseMedia: boolean;
+  riskScore: number; // 0-100
+  confidence: number;
+  sources: string[];
+  articles: AdverseMediaArticle[];
+  categories: AdverseMediaCategorySummary[];
+  excludedArticles: ExcludedMediaArticle[];
+}
+
+export interface MediaArticleInput {
+  title: string;
+  description: string | null;
+  url: string;
+  publishedAt: string;
+  content?: string | null; // body excerpt, where the provider returns one
+}
+
+// Articles in the returned result, most relevant first
+const MAX_ARTICLES = 5;
+
+// Each adverse article beyond the worst one still adds a little
+const PER_ARTICLE_SCORE = 5;
+
+export function scoreAdverseMedia(articles: MediaArticleInput[], subject: MediaSubject, source: string): AdverseMediaResult {
+  if (articles.length === 0) {
+    return {
+      hasAdverseMedia: false,
+      riskScore: 0,
+      confidence: 100,
+      sources: [source],
+      articles: [],
+      categories: [],
+      excludedArticles: []
+    };
+  }
+
+  let riskScore = 0;
+  let adverseCount = 0;
+  const categories = new Map<AdverseMediaCategory, AdverseMediaCategorySummary>();
+  const scoredArticles: Array<AdverseMediaArticle & { score: number }> = [];
+  const excludedArticles: ExcludedMediaArticle[] = [];
+
+  for (const article of articles) {
+    const resolution = articleEntityResolver.resolve(article, subject);
+    if (resolution.decision === 'rejected') {
+      excludedArticles.push({ title: article.title, url: article.url, publishedAt: article.publishedAt, resolution });
+      continue;
+    }
+
+    const classification = adverseMediaClassifier.classify(article, subject.name);
+    const adverse = classification.categories.length > 0;
+    // Possible matches are down-weighted rather than dropped
+    const resolutionWeight = articleEntityResolver.weight(resolution.decision);
+    const articleScore = Math.round(classification.score * resolutionWeight);
+
+    if (adverse) {
+      adverseCount++;
+      riskScore = Math.max(riskScore, articleScore);
+    }
+
+    for (const match of classification.categories) {
+      const score = Math.round(match.severity * adverseMediaClassifier.weight(match.category) * classification.relevance / 100 * resolutionWeight);
+      const summary = categories.get(match.category);
+      if (summary) {
+        summary.articles++;
+        summary.severity = Math.max(summary.severity, match.severity);
+        summary.score = Math.max(summary.score, score);
+      } else {
+        categories.set(match.category, {
+          category: match.category,
+          label: adverseMediaClassifier.label(match.category),
+          articles: 1,
+          severity: match.severity,
+          score
+        });
+      }
+    }
+
+    scoredArticles.push({
+      title: article.title,
+      description: article.description || '',
+      url: article.url,
+      publishedAt: article.publishedAt,
+      sentiment: adverse ? 'negative' : 'neutral',
+      categories: classification.categories.map(match => match.category),
+      severity: classification.severity,
+      relevance: classification.relevance,
+      resolution,
+      score: articleScore
+    });
+  }
+
+  const hasAdverseMedia = adverseCount > 0;
+  if (hasAdverseMedia) {
+    riskScore = Math.min(100, riskScore + (adverseCount - 1) * PER_ARTICLE_SCORE);
+  }
+
+  // Calculate confidence based on article relevance and recency
+  const confidence = Math.min(100, 60 + (articles.length * 5));
+
+  return {
+    hasAdverseMedia,
+    riskScore: Math.round(riskScore),
+    confidence,
+    sources: [source],
+    articles: scoredArticles
+      .sort((a, b) => b.score - a.score || b.relevance - a.relevance)
+      .slice(0, MAX_ARTICLES)
+      .map(({ score, ...article }) => article),
+    categories: Array.from(categories.values()).sort((a, b) => b.score - a.score),
+    excludedArticles
+  };
+}
@@ -1,35 +1,28 @@
 import { createChildLogger } from "../lib/logger";
+import { providerRecorder } from "../lib/provider-recorder";
+import { providerResilience, ProviderHttpError, type ProviderResilience } from "../lib/provider-resilience";
+import { scoreAdverseMedia, type AdverseMediaResult, type MediaArticleInput } from "./adverse-media-scoring";
+import type { MediaSubjectContext } from "./adverse-media-entity-resolution";
 
 const logger = createChildLogger('news-api');
 
-export interface AdverseMediaResult {
-  hasAdverseMedia: boolean;
-  riskScore: number; // 0-100
-  confidence: number;
-  sources: string[];
-  articles: Array<{
-    title: string;
-    description: string;
-    url: string;
-    publishedAt: string;
-    sentiment: 'negative' | 'neutral' | 'positive';
-  }>;
-}
-
 export class NewsAPIProvider {
   private apiKey: string;
   private baseUrl: string;
   private timeout: number;
+  private resilience: ProviderResilience;
 
   constructor() {
     this.apiKey = process.env.NEWSAPI_API_KEY || '';
-    this.baseUrl = 'https://newsapi.org/v2';
+    this.baseUrl = process.env.NEWSAPI_BASE_URL || 'https://newsapi.org/v2';
     this.timeout = parseInt(process.env.NEWSAPI_TIMEOUT || '8000');
+    this.resilience = providerResilience.register('newsapi', { timeoutMs: this.timeout, maxRetries: 1 });
   }
 
   async checkAdverseMedia(
     contractorName: string,
-    countryCode: string
+    countryCode: string,
+    context: MediaSubjectContext = {} // used to tell the contractor's articles from a namesake's
   ): Promise<AdverseMediaResult> {
     const startTime = Date.now();
     
@@ -40,8 +33,8 @@ export class NewsAPIProvider {
         provider: 'newsapi' 
       }, 'Starting adverse media check');
 
-      // If no API key, use mock data
-      if (!this.apiKey) {
+      // If no API key, use mock data (replay needs no key)
+      if (!this.apiKey && !providerRecorder.isReplaying()) {
         logger.warn('NewsAPI key not configured, using mock data');
         return this.getMockAdverseMediaResult(contractorName, countryCode);
       }
@@ -56,6 +49,12 @@ export class NewsAPIProvider {
         searchQueries.map(query => this.searchNews(query, countryCode))
       );
 
+      // Nothing answered (e.g. the circuit is open): fail so the signal falls back instead of scoring clean
+      const failed = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+      if (failed.length === results.length) {
+        throw failed[0].reason;
+      }
+
       const allArticles: any[] = [];
       for (const result of results) {
         if (result.status === 'fulfilled') {
@@ -69,22 +68,15 @@ export class NewsAPIProvider {
         articlesFound: allArticles.length 
       }, 'NewsAPI check completed');
 
-      return this.parseNewsResults(allArticles, contractorName);
+      return scoreAdverseMedia(allArticles, { name: contractorName, countryIso: countryCode, ...context }, 'newsapi');
 
     } catch (error) {
       const duration = Date.now() - startTime;
       
+      // Rethrown, not scored clean: the signal falls back and records the outage
       if (error instanceof Error && error.name === 'AbortError') {
         logger.warn({ duration, timeout: this.timeout }, 'NewsAPI request timeout');
-        
-        // Return partial result on timeout
-        return {
-          hasAdverseMedia: false,
-          riskScore: 0,
-          confidence: 0,
-          sources: ['newsapi-timeout'],
-          articles: []
-        };
+        throw error;
       }
 
       logger.error({ 
@@ -119,95 +111,26 @@ export class NewsAPIProvider {
 
     logger.debug({ query, params: params.toString() }, 'NewsAPI search parameters');
 
-    const response = await fetch(`${this.baseUrl}/everything?${params}`, {
-      headers: {
-        'X-API-Key': this.apiKey,
-      },
-      signal: AbortSignal.timeout(this.timeout)
-    });
-
-    if (!response.ok) {
-      if (response.status === 429) {
-        logger.warn('NewsAPI rate limit exceeded');
-        return [];
-      }
-      throw new Error(`NewsAPI error: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data.articles || [];
-  }
-
-  private parseNewsResults(articles: any[], contractorName: string): AdverseMediaResult {
-    if (articles.length === 0) {
-      return {
-        hasAdverseMedia: false,
-        riskScore: 0,
-        confidence: 100,
-        sources: ['newsapi'],
-        articles: []
-      };
-    }
-
-    // Analyze articles for adverse content
-    const adverseKeywords = [
-      'fraud', 'lawsuit', 'criminal', 'investigation', 'violation',
-      'penalty', 'fine', 'sanction', 'breach', 'misconduct',
-      'illegal', 'corrupt', 'embezzle', 'bribe'
-    ];
-
-    let riskScore = 0;
-    let adverseCount = 0;
-    const processedArticles: any[] = [];
-
-    for (const article of articles) {
-      const content = `${article.title} ${article.description}`.toLowerCase();
-      const adverseMatches = adverseKeywords.filter(keyword => 
-        content.includes(keyword)
-      );
-
-      let sentiment: 'negative' | 'neutral' | 'positive' = 'neutral';
-      let articleRisk = 0;
-
-      if (adverseMatches.length > 0) {
-        sentiment = 'negative';
-        articleRisk = Math.min(100, adverseMatches.length * 15);
-        adverseCount++;
-      }
+    // this.timeout is passed per call so checkAdverseMediaWithTimeout can lower it
+    return this.resilience.execute(async signal => {
+      const response = await providerRecorder.fetch('newsapi', `${this.baseUrl}/everything?${params}`, {
+        headers: {
+          'X-API-Key': this.apiKey,
+        },
+        signal
+      }, { ignoreParams: ['from'] }); // rolling one-year window
 
-      // Check if contractor name appears prominently
-      const nameInTitle = article.title?.toLowerCase().includes(contractorName.toLowerCase());
-      if (nameInTitle && sentiment === 'negative') {
-        articleRisk *= 1.5; // Increase risk if name in title
+      if (!response.ok) {
+        if (response.status === 429) {
+          logger.warn('NewsAPI rate limit exceeded');
+          return [];
+        }
+        throw new ProviderHttpError(response.status, `NewsAPI error: ${response.status} ${response.statusText}`);
       }
 
-      riskScore = Math.max(riskScore, articleRisk);
-
-      processedArticles.push({
-        title: article.title,
-        description: article.description,
-        url: article.url,
-        publishedAt: article.publishedAt,
-        sentiment
-      });
-    }
-
-    // Calculate final risk score
-    const hasAdverseMedia = adverseCount > 0;
-    if (hasAdverseMedia) {
-      riskScore = Math.min(100, riskScore + (adverseCount * 5));
-    }
-
-    // Calculate confidence based on article relevance and recency
-    const confidence = Math.min(100, 60 + (articles.length * 5));
-
-    return {
-      hasAdverseMedia,
-      riskScore: Math.round(riskScore),
-      confidence,
-      sources: ['newsapi'],
-      articles: processedArticles.slice(0, 5) // Return top 5 most relevant
-    };
+      const data = await response.json();
+      return data.articles || [];
+    }, { timeoutMs: this.timeout });
   }
 
   private getMockAdverseMediaResult(contractorName: string, countryCode: string): AdverseMediaResult {
@@ -219,7 +142,7 @@ export class NewsAPIProvider {
     const hasAdverseMedia = riskModifier < 15;
     
     let riskScore = 0;
-    let articles: any[] = [];
+    let articles: MediaArticleInput[] = [];
     
     if (hasAdverseMedia) {
       riskScore = 20 + (riskModifier % 40); // 20-60 range
@@ -230,25 +153,23 @@ export class NewsAPIProvider {
           title: `${contractorName} faces compliance investigation`,
           description: `Regulatory authorities are investigating ${contractorName} for potential compliance violations...`,
           url: 'https://example-news.com/article1',
-          publishedAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
-          sentiment: 'negative' as const
+          publishedAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString()
         },
         {
           title: `Business dispute involving ${contractorName}`,
           description: `A commercial dispute has emerged involving ${contractorName} and industry practices...`,
           url: 'https://example-news.com/article2',
-          publishedAt: new Date(Date.now() - 60 * 24 * 60 * 60 * 1000).toISOString(),
-          sentiment: 'negative' as const
+          publishedAt: new Date(Date.now() - 60 * 24 * 60 * 60 * 1000).toISOString()
         }
       ];
     }
 
+    // Classified like real articles; the score stays deterministic
     return {
+      ...scoreAdverseMedia(articles, { name: contractorName, countryIso: countryCode }, 'newsapi-mock'),
       hasAdverseMedia,
       riskScore,
-      confidence: 85,
-      sources: ['newsapi-mock'],
-      articles
+      confidence: 85
     };
   }
 
@@ -270,7 +191,9 @@ export class NewsAPIProvider {
         riskScore: 0,
         confidence: 0,
         sources: ['newsapi-timeout'],
-        articles: []
+        articles: [],
+        categories: [],
+        excludedArticles: []
       };
     } finally {
       this.timeout = originalTimeout;
@@ -283,7 +206,8 @@ export class NewsAPIProvider {
       type: 'adverse-media',
       configured: !!this.apiKey,
       baseUrl: this.baseUrl,
-      timeout: this.timeout
+      timeout: this.timeout,
+      resilience: this.resilience.snapshot()
     };
   }
 }
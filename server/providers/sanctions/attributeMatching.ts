@@ -0,0 +1,247 @@
+/**
+ * Date-of-birth and nationality checks that confirm or rule out a name match.
+ *
+ * A common name can return dozens of listings; the screened person's DOB and
+ * nationality separate them. Lists record DOBs at different precision ("1970",
+ * "May 1970", "circa 1965", "1968 to 1970") and nationalities either as ISO
+ * codes or as English country names, so both sides are parsed before comparing.
+ * A listing is only ruled out on a positive disagreement, never on missing data.
+ */
+import type { SanctionsMatchReasons } from '@shared/schema';
+import { normalizeName, type RankedMatch } from './nameMatching';
+
+// What the caller knows about the screened person; both optional
+export interface SubjectAttributes {
+  dateOfBirth?: string; // YYYY, YYYY-MM or YYYY-MM-DD
+  nationality?: string; // ISO 3166-1 alpha-2
+}
+
+// What a provider reported for a candidate, in whatever format it uses
+export interface CandidateAttributes {
+  birthDates: Array<string | number | undefined>;
+  nationalities: Array<string | undefined>;
+}
+
+export type ReasonedMatch<T> = RankedMatch<T> & { matchReasons: SanctionsMatchReasons };
+
+interface ParsedDate {
+  yearFrom: number;
+  yearTo: number;
+  month?: number;
+  day?: number;
+}
+
+type DateStatus = SanctionsMatchReasons['dateOfBirth']['status'];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+// "circa 1965" on a listing is read as one year either side
+const APPROXIMATE_YEARS = 1;
+
+// English country names as lists write them, beyond what Intl.DisplayNames returns
+const COUNTRY_ALIASES: Record<string, string> = {
+  'russian federation': 'RU',
+  'iran islamic republic of': 'IR',
+  'islamic republic of iran': 'IR',
+  'democratic people s republic of korea': 'KP',
+  'korea democratic people s republic of': 'KP',
+  'korea north': 'KP',
+  'dprk': 'KP',
+  'republic of korea': 'KR',
+  'korea republic of': 'KR',
+  'korea south': 'KR',
+  'syrian arab republic': 'SY',
+  'burma': 'MM',
+  'viet nam': 'VN',
+  'lao people s democratic republic': 'LA',
+  'laos': 'LA',
+  'united republic of tanzania': 'TZ',
+  'tanzania united republic of': 'TZ',
+  'republic of moldova': 'MD',
+  'moldova republic of': 'MD',
+  'venezuela bolivarian republic of': 'VE',
+  'bolivia plurinational state of': 'BO',
+  'democratic republic of the congo': 'CD',
+  'congo democratic republic of the': 'CD',
+  'republic of the congo': 'CG',
+  'ivory coast': 'CI',
+  'cote d ivoire': 'CI',
+  'united states of america': 'US',
+  'usa': 'US',
+  'uk': 'GB',
+  'great britain': 'GB',
+  'palestinian territory': 'PS',
+  'state of palestine': 'PS',
+  'libyan arab jamahiriya': 'LY',
+  'turkiye': 'TR',
+  'czech republic': 'CZ',
+  'the former yugoslav republic of macedonia': 'MK',
+};
+
+let countryIndex: Map<string, string> | null = null;
+
+// Deprecated codes map onto their successors ("BU" -> "MM", "UK" -> "GB")
+function canonicalRegion(code: string): string {
+  try {
+    return Intl.getCanonicalLocales(`und-${code}`)[0].slice(4);
+  } catch {
+    return code;
+  }
+}
+
+// Built lazily from the runtime's region names so every ISO code is covered
+function getCountryIndex(): Map<string, string> {
+  if (countryIndex) return countryIndex;
+
+  countryIndex = new Map(Object.entries(COUNTRY_ALIASES));
+  const regionNames = new Intl.DisplayNames(['en'], { type: 'region' });
+  for (let first = 65; first <= 90; first++) {
+    for (let second = 65; second <= 90; second++) {
+      const code = String.fromCharCode(first, second);
+      if (canonicalRegion(code) !== code) continue;
+      const name = regionNames.of(code);
+      if (!name || name === code || name === 'Unknown Region') continue;
+
+      // "Myanmar (Burma)" and "Congo - Kinshasa" are indexed whole and by each part
+      const parts = [name, ...name.split(/[()\-–]/)];
+      for (const part of parts) {
+        const key = normalizeName(part);
+        if (key && !countryIndex.has(key)) countryIndex.set(key, code);
+      }
+    }
+  }
+  return countryIndex;
+}
+
+// ISO alpha-2 code for a code or an English country name; null when unrecognised
+export function toCountryCode(value: string | undefined): string | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^[A-Za-z]{2}$/.test(trimmed)) return canonicalRegion(trimmed.toUpperCase());
+
+  const index = getCountryIndex();
+  const normalized = normalizeName(trimmed);
+  return index.get(normalized) ?? index.get(normalizeName(trimmed.replace(/\(.*\)/g, ''))) ?? null;
+}
+
+export function parseDate(value: string | number | undefined): ParsedDate | null {
+  if (value === undefined || value === null) return null;
+  const text = String(value).trim().toLowerCase();
+  if (!text) return null;
+
+  const iso = text.match(/^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/);
+  if (iso) {
+    const year = Number(iso[1]);
+    return { yearFrom: year, yearTo: year, month: iso[2] ? Number(iso[2]) : undefined, day: iso[3] ? Number(iso[3]) : undefined };
+  }
+
+  const years = (text.match(/\b(19|20)\d{2}\b/g) || []).map(Number);
+  if (years.length === 0) return null;
+
+  // "1968 to 1970", "1968 - 1970"
+  if (years.length > 1) {
+    return { yearFrom: Math.min(...years), yearTo: Math.max(...years) };
+  }
+
+  const [year] = years;
+  if (/\b(circa|approx|approximately|about|ca)\b/.test(text)) {
+    return { yearFrom: year - APPROXIMATE_YEARS, yearTo: year + APPROXIMATE_YEARS };
+  }
+
+  // "12 May 1970", "May 1970"
+  const monthIndex = MONTHS.findIndex(month => new RegExp(`\\b${month}`).test(text));
+  const day = text.match(/^(\d{1,2})\s+[a-z]/);
+  return {
+    yearFrom: year,
+    yearTo: year,
+    month: monthIndex >= 0 ? monthIndex + 1 : undefined,
+    day: monthIndex >= 0 && day ? Number(day[1]) : undefined,
+  };
+}
+
+function compareDate(subject: ParsedDate, candidate: ParsedDate): DateStatus {
+  const year = subject.yearFrom;
+  if (year < candidate.yearFrom || year > candidate.yearTo) return 'mismatch';
+  if (subject.month && candidate.month && subject.month !== candidate.month) return 'mismatch';
+  if (subject.day && candidate.day && subject.day !== candidate.day) return 'mismatch';
+
+  const exact = candidate.yearFrom === candidate.yearTo
+    && !!subject.month && subject.month === candidate.month
+    && !!subject.day && subject.day === candidate.day;
+  return exact ? 'match' : 'partial';
+}
+
+// Listings often carry several DOBs; agreeing with any one of them is enough
+function compareDateOfBirth(subject: string | undefined, candidates: CandidateAttributes['birthDates']): DateStatus {
+  const parsedSubject = parseDate(subject);
+  const parsed = candidates.map(parseDate).filter((date): date is ParsedDate => date !== null);
+  if (!parsedSubject || parsed.length === 0) return 'unknown';
+
+  const statuses = parsed.map(candidate => compareDate(parsedSubject, candidate));
+  if (statuses.includes('match')) return 'match';
+  if (statuses.includes('partial')) return 'partial';
+  return 'mismatch';
+}
+
+/**
+ * Name, DOB and nationality reasons for one candidate. A DOB disagreement rules
+ * the candidate out. Nationality is self-declared and lists often record only
+ * one of several citizenships, so a nationality disagreement leaves the
+ * candidate possible rather than excluded.
+ */
+export function assessCandidate(
+  name: { score: number; matchedName: string },
+  subject: SubjectAttributes | undefined,
+  candidate: CandidateAttributes
+): SanctionsMatchReasons {
+  const dateStatus = compareDateOfBirth(subject?.dateOfBirth, candidate.birthDates);
+
+  const candidateCountries = Array.from(new Set(candidate.nationalities
+    .map(toCountryCode)
+    .filter((code): code is string => code !== null)));
+  const subjectCountry = toCountryCode(subject?.nationality);
+  const nationalityStatus = !subjectCountry || candidateCountries.length === 0
+    ? 'unknown' as const
+    : candidateCountries.includes(subjectCountry) ? 'match' as const : 'mismatch' as const;
+
+  const outcome = dateStatus === 'mismatch'
+    ? 'excluded' as const
+    : dateStatus === 'match' || (dateStatus === 'partial' && nationalityStatus === 'match')
+      ? 'confirmed' as const
+      : 'possible' as const;
+
+  return {
+    name,
+    dateOfBirth: {
+      status: dateStatus,
+      candidate: candidate.birthDates.filter((date): date is string | number => date !== undefined && date !== null).map(String),
+    },
+    nationality: { status: nationalityStatus, candidate: candidateCountries },
+    outcome,
+  };
+}
+
+/**
+ * Attach match reasons to name-ranked candidates and split off the ones the
+ * subject's DOB rules out. Excluded candidates are returned so
+ * the provider can report what was dropped and why.
+ */
+export function applySubjectAttributes<T>(
+  matches: Array<RankedMatch<T>>,
+  subject: SubjectAttributes | undefined,
+  getAttributes: (match: RankedMatch<T>) => CandidateAttributes
+): { matches: Array<ReasonedMatch<T>>; excluded: Array<ReasonedMatch<T>> } {
+  const reasoned = matches.map(match => ({
+    ...match,
+    matchReasons: assessCandidate({ score: match.nameScore, matchedName: match.matchedName }, subject, getAttributes(match)),
+  }));
+
+  return {
+    matches: reasoned.filter(match => match.matchReasons.outcome !== 'excluded'),
+    excluded: reasoned.filter(match => match.matchReasons.outcome === 'excluded'),
+  };
+}
+
+// Compact record of an excluded candidate for adapter metadata
+export function summarizeExcluded(match: ReasonedMatch<any>): { name: string; reasons: SanctionsMatchReasons } {
+  return { name: match.caption || match.name || match.matchedName, reasons: match.matchReasons };
+}
@@ -0,0 +1,233 @@
+import { logger } from '../../lib/logger';
+import { providerRecorder } from '../../lib/provider-recorder';
+import { providerResilience, ProviderHttpError, type ProviderResilience } from '../../lib/provider-resilience';
+import { rankMatches, normalizeName, NAME_MATCH_THRESHOLD, type SubjectType } from './nameMatching';
+import { applySubjectAttributes, parseDate, summarizeExcluded, type ReasonedMatch, type SubjectAttributes } from './attributeMatching';
+import { toScreeningMatch, type ScreeningCategory, type ScreeningMatch } from './screeningMatch';
+
+export interface ComplyAdvantageSearchRequest {
+  search_term: string;
+  filters: {
+    types: string[];
+    birth_year: number | null;
+    countries: string[];
+    entity_type?: 'company';
+  };
+  fuzziness: number;
+}
+
+export interface ComplyAdvantageHit {
+  doc?: {
+    id?: string;
+    name?: string;
+    aka?: Array<{ name: string }>;
+    fields?: Array<{ name?: string; value: string; source?: string }>;
+    sources?: string[];
+    types?: string[];
+  };
+  types?: string[]; // 'sanction', 'pep', 'pep-class-1', 'warning', 'adverse-media', ...
+}
+
+export interface ComplyAdvantageSearchResponse {
+  id?: string | number;
+  hits?: ComplyAdvantageHit[];
+}
+
+export interface ComplyAdvantageScreeningResult {
+  isMatch: boolean;
+  riskScore: number;
+  matches: ScreeningMatch[];
+  metadata: {
+    provider: string;
+    requestId: string;
+    processedAt: string;
+    subjectType: SubjectType;
+    excludedMatches: ReturnType<typeof summarizeExcluded>[]; // ruled out by DOB
+    totalHits: number;
+  };
+}
+
+// Base score per match category, scaled by name similarity
+const CATEGORY_SCORES: Record<ScreeningCategory, number> = { sanction: 85, pep: 60, watchlist: 40 };
+
+export class ComplyAdvantageSanctionsAdapter {
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+  private readonly timeout: number;
+  private readonly resilience: ProviderResilience;
+
+  constructor() {
+    this.apiKey = process.env.COMPLYADVANTAGE_API_KEY || '';
+    this.baseUrl = process.env.COMPLYADVANTAGE_BASE_URL || 'https://api.complyadvantage.com';
+    this.timeout = parseInt(process.env.COMPLYADVANTAGE_TIMEOUT || '5000', 10);
+    this.resilience = providerResilience.register('complyadvantage', { timeoutMs: this.timeout, maxRetries: 1 });
+
+    // Replayed fixtures were recorded with a key, so none is needed to serve them
+    if (!this.apiKey && !providerRecorder.isReplaying()) {
+      throw new Error('COMPLYADVANTAGE_API_KEY environment variable is required');
+    }
+  }
+
+  async screenPerson(name: string, country?: string, attributes?: SubjectAttributes): Promise<ComplyAdvantageScreeningResult> {
+    return this.screen(name, 'person', country, attributes);
+  }
+
+  // Restricted to companies, so a director's profile can't match the company
+  async screenEntity(name: string, country?: string): Promise<ComplyAdvantageScreeningResult> {
+    return this.screen(name, 'entity', country);
+  }
+
+  private async screen(
+    name: string,
+    subjectType: SubjectType,
+    country?: string,
+    attributes?: SubjectAttributes
+  ): Promise<ComplyAdvantageScreeningResult> {
+    const startTime = Date.now();
+
+    try {
+      logger.info({
+        component: 'complyadvantage',
+        action: `screen_${subjectType}`,
+        name: name.substring(0, 3) + '***', // Mask PII in logs
+        country
+      }, 'Starting ComplyAdvantage screening');
+
+      const request: ComplyAdvantageSearchRequest = {
+        search_term: name,
+        filters: {
+          types: ['sanction', 'pep', 'adverse-media'],
+          birth_year: parseDate(attributes?.dateOfBirth)?.yearFrom ?? null,
+          countries: country ? [country] : [],
+          ...(subjectType === 'entity' && { entity_type: 'company' as const })
+        },
+        fuzziness: 0.6
+      };
+
+      const response = await this.search(request);
+      const requestId = response.id !== undefined
+        ? String(response.id)
+        : `ca-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+      // Re-score hits on the shared name matcher rather than ComplyAdvantage's match score
+      const ranked = rankMatches(name, response.hits || [], hit => [
+        hit.doc?.name,
+        ...(hit.doc?.aka || []).map(aka => aka.name)
+      ], NAME_MATCH_THRESHOLD, subjectType);
+
+      // DOB and nationality are reported as labelled profile fields
+      const { matches: rankedHits, excluded } = applySubjectAttributes(ranked, attributes, hit => ({
+        birthDates: this.fieldValues(hit, /date of birth/i),
+        nationalities: this.fieldValues(hit, /nationality|citizenship/i)
+      }));
+
+      const matches = rankedHits.map(hit => this.toScreeningMatch(hit));
+      const riskScore = this.calculateRiskScore(matches);
+      const isMatch = riskScore > 30; // Threshold for positive match
+
+      logger.info({
+        component: 'complyadvantage',
+        action: 'screen_complete',
+        requestId,
+        totalHits: response.hits?.length || 0,
+        rankedHits: rankedHits.length,
+        excludedHits: excluded.length,
+        riskScore,
+        isMatch,
+        duration: Date.now() - startTime
+      }, 'ComplyAdvantage screening complete');
+
+      return {
+        isMatch,
+        riskScore,
+        matches,
+        metadata: {
+          provider: 'complyadvantage',
+          requestId,
+          processedAt: new Date().toISOString(),
+          subjectType,
+          excludedMatches: excluded.map(hit => summarizeExcluded({ ...hit, name: hit.doc?.name })),
+          totalHits: response.hits?.length || 0
+        }
+      };
+
+    } catch (error) {
+      logger.error({
+        component: 'complyadvantage',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        duration: Date.now() - startTime
+      }, 'ComplyAdvantage screening failed');
+
+      throw new Error(`ComplyAdvantage screening failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async search(request: ComplyAdvantageSearchRequest): Promise<ComplyAdvantageSearchResponse> {
+    // Timeouts, retries with backoff and the circuit breaker are handled by the resilience layer
+    return this.resilience.execute(async signal => {
+      const response = await providerRecorder.fetch('complyadvantage', `${this.baseUrl}/searches`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(request),
+        signal
+      });
+
+      if (!response.ok) {
+        throw new ProviderHttpError(response.status, `ComplyAdvantage API error: ${response.status} ${response.statusText}`);
+      }
+
+      return await response.json() as ComplyAdvantageSearchResponse;
+    });
+  }
+
+  private fieldValues(hit: ComplyAdvantageHit, label: RegExp): string[] {
+    return (hit.doc?.fields || []).filter(field => label.test(field.name || '')).map(field => field.value);
+  }
+
+  // Adverse media, warnings and fitness-and-probity hits count as watchlist entries
+  private toScreeningMatch(hit: ReasonedMatch<ComplyAdvantageHit>): ScreeningMatch {
+    const types = hit.types || hit.doc?.types || [];
+    const categories: ScreeningCategory[] = [];
+    if (types.includes('sanction')) categories.push('sanction');
+    if (types.some(type => type.startsWith('pep'))) categories.push('pep');
+    const name = hit.doc?.name || hit.matchedName;
+
+    return toScreeningMatch('complyadvantage', hit, {
+      entityId: hit.doc?.id || normalizeName(name),
+      name,
+      names: (hit.doc?.aka || []).map(aka => aka.name),
+      lists: hit.doc?.sources || [],
+      categories: categories.length > 0 ? categories : ['watchlist'],
+      birthDates: this.fieldValues(hit, /date of birth/i),
+      countries: this.fieldValues(hit, /nationality|citizenship/i)
+    });
+  }
+
+  private calculateRiskScore(matches: ScreeningMatch[]): number {
+    let maxScore = 0;
+    for (const match of matches) {
+      const categoryScore = Math.max(...match.categories.map(category => CATEGORY_SCORES[category]));
+      maxScore = Math.max(maxScore, categoryScore * match.nameScore);
+    }
+    return Math.min(Math.round(maxScore), 100);
+  }
+
+  // Every search is billed, so health comes from the breaker rather than a probe request
+  async healthCheck(): Promise<{
+    status: 'healthy' | 'degraded' | 'unhealthy';
+    responseTime: number;
+    error?: string;
+  }> {
+    const { state, retryAt } = this.resilience.snapshot();
+    return state === 'closed'
+      ? { status: 'healthy', responseTime: 0 }
+      : {
+          status: state === 'open' ? 'unhealthy' : 'degraded',
+          responseTime: 0,
+          error: `ComplyAdvantage circuit is ${state}${retryAt ? ` until ${retryAt}` : ''}`
+        };
+  }
+}
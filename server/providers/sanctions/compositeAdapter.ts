@@ -0,0 +1,262 @@
+import { logger } from '../../lib/logger';
+import { nameSimilarity, normalizeName, type SubjectType } from './nameMatching';
+import type { SanctionsAdapter, SanctionsResult } from './sanctionsFactory';
+import { parseDate, toCountryCode, type SubjectAttributes } from './attributeMatching';
+import type { ScreeningMatch } from './screeningMatch';
+
+export interface ProviderOutcome {
+  provider: string;
+  status: 'ok' | 'timeout' | 'error';
+  responseTime: number;
+  isMatch?: boolean;
+  riskScore?: number;
+  matchCount?: number;
+  requestId?: string;
+  error?: string;
+}
+
+// One listed entity as reported by every provider that returned it
+export interface ConsensusMatch extends ScreeningMatch {
+  providers: string[];
+  agreement: number; // share of responding providers that returned this entity, 0-1
+  providerMatches: Record<string, ScreeningMatch[]>; // every record each provider returned for it
+}
+
+// With every provider agreeing the top score stands; a lone dissenting hit keeps this share of it
+const CONSENSUS_FLOOR = 0.7;
+// Hits from different providers on names at least this similar, with a DOB or country
+// in common, are treated as the same entity
+const ENTITY_MERGE_THRESHOLD = 0.95;
+
+class ProviderTimeoutError extends Error {}
+
+type Attributes = Pick<ScreeningMatch, 'birthDates' | 'countries'>;
+
+// Whether two records' DOBs or countries back up a name match; a DOB disagreement vetoes it
+function corroborates(a: Attributes, b: Attributes): 'agree' | 'conflict' | 'unknown' {
+  const datesA = a.birthDates.map(parseDate).filter(date => date !== null);
+  const datesB = b.birthDates.map(parseDate).filter(date => date !== null);
+  if (datesA.length > 0 && datesB.length > 0) {
+    return datesA.some(x => datesB.some(y => x.yearFrom <= y.yearTo && y.yearFrom <= x.yearTo)) ? 'agree' : 'conflict';
+  }
+
+  const countriesA = a.countries.map(toCountryCode).filter(code => code !== null);
+  const countriesB = b.countries.map(toCountryCode).filter(code => code !== null);
+  if (countriesA.length > 0 && countriesB.length > 0) {
+    return countriesA.some(code => countriesB.includes(code)) ? 'agree' : 'conflict';
+  }
+  return 'unknown';
+}
+
+/**
+ * Fans a screening out to several adapters in parallel and merges the answers.
+ * Providers that fail or time out are reported in the metadata; the screening
+ * only fails outright when more providers failed than answered.
+ */
+export class CompositeSanctionsAdapter implements SanctionsAdapter {
+  private readonly timeout: number;
+
+  constructor(private readonly adapters: Array<{ provider: string; adapter: SanctionsAdapter }>) {
+    if (adapters.length === 0) {
+      throw new Error('Composite sanctions mode needs at least one provider');
+    }
+    this.timeout = parseInt(process.env.SANCTIONS_COMPOSITE_TIMEOUT_MS || '5000', 10);
+  }
+
+  get providers(): string[] {
+    return this.adapters.map(({ provider }) => provider);
+  }
+
+  async screenPerson(name: string, country?: string, attributes?: SubjectAttributes): Promise<SanctionsResult> {
+    return this.screen(name, 'person', country, attributes);
+  }
+
+  async screenEntity(name: string, country?: string): Promise<SanctionsResult> {
+    return this.screen(name, 'entity', country);
+  }
+
+  private async screen(
+    name: string,
+    subjectType: SubjectType,
+    country?: string,
+    attributes?: SubjectAttributes
+  ): Promise<SanctionsResult> {
+    const requestId = `composite-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+    const settled = await Promise.all(this.adapters.map(async ({ provider, adapter }) => {
+      const startTime = Date.now();
+      try {
+        const result = await this.withTimeout(subjectType === 'entity'
+          ? adapter.screenEntity(name, country)
+          : adapter.screenPerson(name, country, attributes));
+        return { provider, result, responseTime: Date.now() - startTime };
+      } catch (error) {
+        return { provider, error, responseTime: Date.now() - startTime };
+      }
+    }));
+
+    const outcomes: ProviderOutcome[] = settled.map(({ provider, result, error, responseTime }) => result
+      ? {
+          provider,
+          status: 'ok',
+          responseTime,
+          isMatch: result.isMatch,
+          riskScore: result.riskScore,
+          matchCount: result.matches.length,
+          requestId: result.metadata.requestId
+        }
+      : {
+          provider,
+          status: error instanceof ProviderTimeoutError ? 'timeout' : 'error',
+          responseTime,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+
+    const responded = settled.filter(s => s.result) as Array<{ provider: string; result: SanctionsResult }>;
+    const failedProviders = outcomes.filter(o => o.status !== 'ok');
+
+    if (responded.length === 0 || failedProviders.length > responded.length) {
+      logger.error({
+        component: 'composite-sanctions',
+        requestId,
+        failedProviders: failedProviders.map(f => ({ provider: f.provider, status: f.status, error: f.error }))
+      }, 'Composite sanctions screening failed: majority of providers unavailable');
+      throw new Error(`Composite sanctions screening failed: ${failedProviders.length}/${outcomes.length} providers unavailable`);
+    }
+
+    const matches = this.mergeMatches(responded);
+    const flagged = responded.filter(({ result }) => result.isMatch).length;
+    const agreement = flagged / responded.length;
+    const topScore = Math.max(...responded.map(({ result }) => result.riskScore));
+    const riskScore = flagged > 0
+      ? Math.round(topScore * (CONSENSUS_FLOOR + (1 - CONSENSUS_FLOOR) * agreement))
+      : topScore;
+
+    logger.info({
+      component: 'composite-sanctions',
+      action: 'screen_complete',
+      requestId,
+      providers: outcomes.map(o => ({ provider: o.provider, status: o.status, riskScore: o.riskScore })),
+      flagged,
+      responded: responded.length,
+      riskScore
+    }, 'Composite sanctions screening complete');
+
+    return {
+      isMatch: flagged > 0,
+      riskScore,
+      matches,
+      metadata: {
+        provider: 'composite',
+        requestId,
+        processedAt: new Date().toISOString(),
+        subjectType,
+        excludedMatches: responded.flatMap(({ provider, result }) =>
+          (result.metadata.excludedMatches || []).map((excluded: any) => ({ provider, ...excluded }))
+        ),
+        providers: outcomes,
+        agreement: {
+          flagged,
+          responded: responded.length,
+          ratio: Math.round(agreement * 100) / 100
+        },
+        failedProviders: failedProviders.map(({ provider, status }) => ({ provider, status }))
+      }
+    };
+  }
+
+  async healthCheck(): Promise<{
+    status: 'healthy' | 'degraded' | 'unhealthy';
+    responseTime: number;
+    error?: string;
+  }> {
+    const startTime = Date.now();
+    const checks = await Promise.all(this.adapters.map(async ({ provider, adapter }) => ({
+      provider,
+      ...(await adapter.healthCheck())
+    })));
+
+    const healthy = checks.filter(check => check.status === 'healthy').length;
+    const problems = checks
+      .filter(check => check.status !== 'healthy')
+      .map(check => `${check.provider}: ${check.error || check.status}`);
+
+    return {
+      status: healthy === checks.length ? 'healthy' : healthy > 0 ? 'degraded' : 'unhealthy',
+      responseTime: Date.now() - startTime,
+      ...(problems.length > 0 && { error: problems.join('; ') })
+    };
+  }
+
+  /**
+   * Group provider hits into listed entities, keeping every provider record for
+   * adjudication. A provider's own entity IDs are never merged with each other:
+   * two listings with the same name stay two entities. Across providers a hit
+   * joins an entity on a near-identical name backed by a common DOB or country,
+   * or on an identical name when neither side has either.
+   */
+  private mergeMatches(responded: Array<{ provider: string; result: SanctionsResult }>): ConsensusMatch[] {
+    const entities: ConsensusMatch[] = [];
+    const union = <T>(a: T[], b: T[]) => Array.from(new Set([...a, ...b]));
+
+    const sameEntity = (entity: ConsensusMatch, provider: string, match: ScreeningMatch) => {
+      const records = entity.providerMatches[provider];
+      if (records) return records.some(record => record.entityId === match.entityId);
+
+      if (nameSimilarity(entity.name, match.name) < ENTITY_MERGE_THRESHOLD) return false;
+      const evidence = corroborates(entity, match);
+      return evidence === 'agree' || (evidence === 'unknown' && normalizeName(entity.name) === normalizeName(match.name));
+    };
+
+    for (const { provider, result } of responded) {
+      for (const match of result.matches) {
+        let entity = entities.find(e => sameEntity(e, provider, match));
+        if (!entity) {
+          entity = {
+            ...match,
+            provider: 'composite',
+            entityId: `${provider}:${match.entityId}`,
+            nameScore: 0,
+            raw: null, // vendor records stay on providerMatches
+            providers: [],
+            agreement: 0,
+            providerMatches: {}
+          };
+          entities.push(entity);
+        }
+
+        if (!entity.providers.includes(provider)) {
+          entity.providers.push(provider);
+        }
+        const records = entity.providerMatches[provider] ||= [];
+        if (!records.some(record => record.entityId === match.entityId)) {
+          records.push(match);
+        }
+        if (match.nameScore > entity.nameScore) {
+          entity.nameScore = match.nameScore;
+          entity.matchedName = match.matchedName;
+        }
+        entity.names = union(entity.names, match.names);
+        entity.lists = union(entity.lists, match.lists);
+        entity.categories = union(entity.categories, match.categories);
+        entity.birthDates = union(entity.birthDates, match.birthDates);
+        entity.countries = union(entity.countries, match.countries);
+      }
+    }
+
+    return entities
+      .map(entity => ({
+        ...entity,
+        agreement: Math.round((entity.providers.length / responded.length) * 100) / 100
+      }))
+      .sort((a, b) => b.agreement - a.agreement || b.nameScore - a.nameScore);
+  }
+
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new ProviderTimeoutError(`Timed out after ${this.timeout}ms`)), this.timeout);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+}
@@ -0,0 +1,483 @@
+/**
+ * Name normalization and fuzzy matching shared by every sanctions adapter.
+ *
+ * Providers each report their own confidence (`score`, `match_strength`, ...) on
+ * different scales and with different fuzziness. Adapters re-score every candidate
+ * here so thresholds and ranking are consistent whichever provider is configured.
+ *
+ * Matching pipeline:
+ *  1. transliterate Cyrillic, Greek, Arabic/Persian, Hebrew, Hangul, kana and common
+ *     Han characters to Latin, then strip diacritics and punctuation
+ *  2. map nickname / spelling variants to a canonical token ("Bill" -> "william")
+ *  3. pair tokens regardless of order, scoring each pair with Jaro-Winkler, initials
+ *     against full tokens, and consonant skeletons for vowel-less abjad transliterations
+ *  4. score the name by its weakest pair, so a shared surname can't lift a different
+ *     given name over the threshold
+ */
+
+// Anything that is not a letter or digit in any script
+const NON_ALPHANUMERIC = new RegExp('[^\\p{L}\\p{N}]+', 'gu');
+
+export const NAME_MATCH_THRESHOLD = parseFloat(process.env.SANCTIONS_NAME_MATCH_THRESHOLD || '0.85');
+
+// Token pairs scoring below this are treated as unrelated
+const TOKEN_MATCH_FLOOR = 0.7;
+const INITIAL_MATCH_SCORE = 0.9;
+const SKELETON_MATCH_DISCOUNT = 0.9;
+const VOWEL_FOLD_DISCOUNT = 0.95;
+// A single shared token ("Ali" vs "Abu Ali") is weak evidence on its own
+const SINGLE_TOKEN_DISCOUNT = 0.8;
+
+const CYRILLIC: Record<string, string> = {
+  'а': 'a', 'б': 'b', 'в': 'v', 'г': 'g', 'д': 'd', 'е': 'e', 'ё': 'e', 'ж': 'zh', 'з': 'z',
+  'и': 'i', 'й': 'y', 'к': 'k', 'л': 'l', 'м': 'm', 'н': 'n', 'о': 'o', 'п': 'p', 'р': 'r',
+  'с': 's', 'т': 't', 'у': 'u', 'ф': 'f', 'х': 'kh', 'ц': 'ts', 'ч': 'ch', 'ш': 'sh', 'щ': 'shch',
+  'ъ': '', 'ы': 'y', 'ь': '', 'э': 'e', 'ю': 'yu', 'я': 'ya',
+  // Ukrainian, Belarusian, Serbian / Macedonian
+  'і': 'i', 'ї': 'yi', 'є': 'ye', 'ґ': 'g', 'ў': 'u', 'ђ': 'dj', 'ј': 'j', 'љ': 'lj', 'њ': 'nj',
+  'ћ': 'c', 'џ': 'dz', 'ѓ': 'gj', 'ќ': 'kj', 'ѕ': 'dz',
+};
+
+const GREEK: Record<string, string> = {
+  'α': 'a', 'β': 'v', 'γ': 'g', 'δ': 'd', 'ε': 'e', 'ζ': 'z', 'η': 'i', 'θ': 'th', 'ι': 'i',
+  'κ': 'k', 'λ': 'l', 'μ': 'm', 'ν': 'n', 'ξ': 'x', 'ο': 'o', 'π': 'p', 'ρ': 'r', 'σ': 's',
+  'ς': 's', 'τ': 't', 'υ': 'y', 'φ': 'f', 'χ': 'ch', 'ψ': 'ps', 'ω': 'o',
+  'ά': 'a', 'έ': 'e', 'ή': 'i', 'ί': 'i', 'ό': 'o', 'ύ': 'y', 'ώ': 'o', 'ϊ': 'i', 'ϋ': 'y',
+};
+
+// Arabic and Persian letters; short vowels are not written, see consonantSkeleton
+const ARABIC: Record<string, string> = {
+  'ا': 'a', 'أ': 'a', 'إ': 'i', 'آ': 'a', 'ٱ': 'a', 'ب': 'b', 'ت': 't', 'ث': 'th', 'ج': 'j',
+  'ح': 'h', 'خ': 'kh', 'د': 'd', 'ذ': 'dh', 'ر': 'r', 'ز': 'z', 'س': 's', 'ش': 'sh', 'ص': 's',
+  'ض': 'd', 'ط': 't', 'ظ': 'z', 'ع': 'a', 'غ': 'gh', 'ف': 'f', 'ق': 'q', 'ك': 'k', 'ل': 'l',
+  'م': 'm', 'ن': 'n', 'ه': 'h', 'و': 'w', 'ي': 'y', 'ى': 'a', 'ة': 'a', 'ء': '', 'ئ': '', 'ؤ': '',
+  'پ': 'p', 'چ': 'ch', 'ژ': 'zh', 'گ': 'g', 'ک': 'k', 'ی': 'y',
+};
+
+const HEBREW: Record<string, string> = {
+  'א': '', 'ב': 'b', 'ג': 'g', 'ד': 'd', 'ה': 'h', 'ו': 'v', 'ז': 'z', 'ח': 'kh', 'ט': 't',
+  'י': 'y', 'כ': 'k', 'ך': 'k', 'ל': 'l', 'מ': 'm', 'ם': 'm', 'נ': 'n', 'ן': 'n', 'ס': 's',
+  'ע': '', 'פ': 'p', 'ף': 'f', 'צ': 'ts', 'ץ': 'ts', 'ק': 'k', 'ר': 'r', 'ש': 'sh', 'ת': 't',
+};
+
+// Common Chinese surnames and given-name characters (pinyin, tones dropped). Han
+// characters outside this table are kept as-is so same-script comparisons still work.
+const HAN: Record<string, string> = {
+  '王': 'wang', '李': 'li', '张': 'zhang', '張': 'zhang', '刘': 'liu', '劉': 'liu', '陈': 'chen',
+  '陳': 'chen', '杨': 'yang', '楊': 'yang', '黄': 'huang', '黃': 'huang', '赵': 'zhao', '趙': 'zhao',
+  '吴': 'wu', '吳': 'wu', '周': 'zhou', '徐': 'xu', '孙': 'sun', '孫': 'sun', '马': 'ma', '馬': 'ma',
+  '朱': 'zhu', '胡': 'hu', '郭': 'guo', '何': 'he', '高': 'gao', '林': 'lin', '罗': 'luo', '羅': 'luo',
+  '郑': 'zheng', '鄭': 'zheng', '梁': 'liang', '谢': 'xie', '謝': 'xie', '宋': 'song', '唐': 'tang',
+  '许': 'xu', '許': 'xu', '韩': 'han', '韓': 'han', '冯': 'feng', '馮': 'feng', '邓': 'deng',
+  '鄧': 'deng', '曹': 'cao', '彭': 'peng', '曾': 'zeng', '肖': 'xiao', '田': 'tian', '董': 'dong',
+  '袁': 'yuan', '潘': 'pan', '于': 'yu', '蒋': 'jiang', '蔣': 'jiang', '蔡': 'cai', '余': 'yu',
+  '杜': 'du', '叶': 'ye', '葉': 'ye', '程': 'cheng', '苏': 'su', '蘇': 'su', '魏': 'wei', '吕': 'lu',
+  '呂': 'lu', '丁': 'ding', '任': 'ren', '沈': 'shen', '姚': 'yao', '卢': 'lu', '盧': 'lu',
+  '姜': 'jiang', '崔': 'cui', '钟': 'zhong', '鍾': 'zhong', '谭': 'tan', '譚': 'tan', '陆': 'lu',
+  '陸': 'lu', '汪': 'wang', '范': 'fan', '金': 'jin', '石': 'shi', '廖': 'liao', '贾': 'jia',
+  '賈': 'jia', '夏': 'xia', '韦': 'wei', '韋': 'wei', '方': 'fang', '白': 'bai', '邹': 'zou',
+  '鄒': 'zou', '孟': 'meng', '熊': 'xiong', '秦': 'qin', '邱': 'qiu', '江': 'jiang', '尹': 'yin',
+  '薛': 'xue', '段': 'duan', '雷': 'lei', '侯': 'hou', '龙': 'long', '龍': 'long', '史': 'shi',
+  '陶': 'tao', '黎': 'li', '贺': 'he', '賀': 'he', '顾': 'gu', '顧': 'gu', '毛': 'mao', '郝': 'hao',
+  '龚': 'gong', '龔': 'gong', '邵': 'shao', '万': 'wan', '萬': 'wan', '钱': 'qian', '錢': 'qian',
+  '严': 'yan', '嚴': 'yan', '武': 'wu', '戴': 'dai', '莫': 'mo', '孔': 'kong', '向': 'xiang',
+  '汤': 'tang', '湯': 'tang', '习': 'xi', '習': 'xi',
+  '伟': 'wei', '偉': 'wei', '芳': 'fang', '娜': 'na', '敏': 'min', '静': 'jing', '靜': 'jing',
+  '丽': 'li', '麗': 'li', '强': 'qiang', '強': 'qiang', '磊': 'lei', '军': 'jun', '軍': 'jun',
+  '洋': 'yang', '勇': 'yong', '艳': 'yan', '艷': 'yan', '杰': 'jie', '傑': 'jie', '娟': 'juan',
+  '涛': 'tao', '濤': 'tao', '明': 'ming', '超': 'chao', '秀': 'xiu', '霞': 'xia', '平': 'ping',
+  '刚': 'gang', '剛': 'gang', '英': 'ying', '华': 'hua', '華': 'hua', '建': 'jian', '国': 'guo',
+  '國': 'guo', '文': 'wen', '红': 'hong', '紅': 'hong', '玉': 'yu', '海': 'hai', '东': 'dong',
+  '東': 'dong', '小': 'xiao', '志': 'zhi', '新': 'xin', '春': 'chun', '晓': 'xiao', '曉': 'xiao',
+  '飞': 'fei', '飛': 'fei', '鹏': 'peng', '鵬': 'peng', '斌': 'bin', '宇': 'yu', '浩': 'hao',
+  '凯': 'kai', '凱': 'kai', '婷': 'ting', '雪': 'xue', '正': 'zheng', '恩': 'en', '日': 'ri',
+  '成': 'cheng', '泽': 'ze', '澤': 'ze', '民': 'min', '近': 'jin',
+};
+
+// Hiragana (katakana is shifted onto this table), modified Hepburn
+const KANA: Record<string, string> = {
+  'あ': 'a', 'い': 'i', 'う': 'u', 'え': 'e', 'お': 'o',
+  'か': 'ka', 'き': 'ki', 'く': 'ku', 'け': 'ke', 'こ': 'ko', 'が': 'ga', 'ぎ': 'gi', 'ぐ': 'gu', 'げ': 'ge', 'ご': 'go',
+  'さ': 'sa', 'し': 'shi', 'す': 'su', 'せ': 'se', 'そ': 'so', 'ざ': 'za', 'じ': 'ji', 'ず': 'zu', 'ぜ': 'ze', 'ぞ': 'zo',
+  'た': 'ta', 'ち': 'chi', 'つ': 'tsu', 'て': 'te', 'と': 'to', 'だ': 'da', 'ぢ': 'ji', 'づ': 'zu', 'で': 'de', 'ど': 'do',
+  'な': 'na', 'に': 'ni', 'ぬ': 'nu', 'ね': 'ne', 'の': 'no',
+  'は': 'ha', 'ひ': 'hi', 'ふ': 'fu', 'へ': 'he', 'ほ': 'ho', 'ば': 'ba', 'び': 'bi', 'ぶ': 'bu', 'べ': 'be', 'ぼ': 'bo',
+  'ぱ': 'pa', 'ぴ': 'pi', 'ぷ': 'pu', 'ぺ': 'pe', 'ぽ': 'po',
+  'ま': 'ma', 'み': 'mi', 'む': 'mu', 'め': 'me', 'も': 'mo', 'や': 'ya', 'ゆ': 'yu', 'よ': 'yo',
+  'ら': 'ra', 'り': 'ri', 'る': 'ru', 'れ': 're', 'ろ': 'ro', 'わ': 'wa', 'を': 'o', 'ん': 'n',
+  'ぁ': 'a', 'ぃ': 'i', 'ぅ': 'u', 'ぇ': 'e', 'ぉ': 'o',
+};
+const SMALL_KANA_Y: Record<string, string> = { 'ゃ': 'a', 'ゅ': 'u', 'ょ': 'o' };
+
+// Korean Revised Romanization, composed algorithmically from the Hangul syllable block
+const HANGUL_INITIALS = ['g', 'kk', 'n', 'd', 'tt', 'r', 'm', 'b', 'pp', 's', 'ss', '', 'j', 'jj', 'ch', 'k', 't', 'p', 'h'];
+const HANGUL_VOWELS = ['a', 'ae', 'ya', 'yae', 'eo', 'e', 'yeo', 'ye', 'o', 'wa', 'wae', 'oe', 'yo', 'u', 'wo', 'we', 'wi', 'yu', 'eu', 'ui', 'i'];
+const HANGUL_FINALS = ['', 'k', 'k', 'k', 'n', 'n', 'n', 't', 'l', 'k', 'm', 'l', 'l', 'l', 'p', 'l', 'm', 'p', 'p', 't', 't', 'ng', 't', 't', 'k', 't', 'p', 't'];
+const HANGUL_BASE = 0xac00;
+const HANGUL_LAST = 0xd7a3;
+
+/**
+ * Nickname and spelling-variant groups; every member maps to the first entry.
+ * Includes common romanization variants of Arabic and Korean names.
+ */
+const NAME_VARIANT_GROUPS: string[][] = [
+  ['william', 'bill', 'billy', 'will', 'willy', 'liam'],
+  ['robert', 'bob', 'bobby', 'rob', 'robbie'],
+  ['richard', 'rick', 'ricky', 'dick', 'rich'],
+  ['james', 'jim', 'jimmy', 'jamie'],
+  ['john', 'jack', 'johnny', 'jon'],
+  ['joseph', 'joe', 'joey'],
+  ['michael', 'mike', 'mikey', 'mick'],
+  ['thomas', 'tom', 'tommy'],
+  ['charles', 'charlie', 'chuck'],
+  ['edward', 'ed', 'eddie', 'ted', 'ned'],
+  ['elizabeth', 'liz', 'lizzy', 'beth', 'betty', 'eliza'],
+  ['margaret', 'maggie', 'meg', 'peggy'],
+  ['katherine', 'catherine', 'kate', 'katie', 'kathy', 'cathy', 'ekaterina', 'yekaterina', 'katya'],
+  ['alexander', 'alex', 'alexandr', 'aleksandr', 'aleksander', 'sasha', 'sandro'],
+  ['nicholas', 'nick', 'nicky', 'nikolai', 'nikolay'],
+  ['daniel', 'dan', 'danny'],
+  ['david', 'dave', 'davy'],
+  ['anthony', 'tony'],
+  ['christopher', 'chris'],
+  ['benjamin', 'ben', 'benny'],
+  ['samuel', 'sam', 'sammy'],
+  ['andrew', 'andy', 'drew', 'andrei', 'andrey'],
+  ['jennifer', 'jen', 'jenny'],
+  ['patricia', 'pat', 'patty', 'trish'],
+  ['susan', 'sue', 'susie'],
+  ['steven', 'stephen', 'steve'],
+  ['matthew', 'matt'],
+  ['peter', 'pete', 'pyotr', 'piotr'],
+  ['dmitry', 'dmitri', 'dmitriy', 'dima'],
+  ['vladimir', 'vova', 'volodya'],
+  ['ivan', 'vanya'],
+  ['mikhail', 'misha'],
+  ['sergey', 'sergei', 'sergiy'],
+  ['yevgeny', 'evgeny', 'evgeniy', 'yevgeniy', 'zhenya'],
+  ['muhammad', 'mohammed', 'mohamed', 'mohammad', 'muhammed', 'mohamad', 'mohd', 'mehmet'],
+  ['ahmed', 'ahmad'],
+  ['abdul', 'abd', 'abdel'],
+  ['yusuf', 'yousef', 'youssef', 'yousuf'],
+  ['hussein', 'husein', 'hussain', 'husayn', 'hosein', 'hossein'],
+  ['osama', 'usama'],
+  ['kim', 'gim'],
+  ['lee', 'yi', 'rhee'],
+  ['park', 'bak', 'pak'],
+  ['choi', 'choe'],
+  ['jung', 'jeong', 'chung', 'jong'],
+];
+
+const CANONICAL_VARIANTS = new Map<string, string>(
+  NAME_VARIANT_GROUPS.flatMap(([canonical, ...variants]) =>
+    [canonical, ...variants].map(variant => [variant, canonical] as [string, string])
+  )
+);
+
+const VARIANT_GROUPS = new Map<string, string[]>(NAME_VARIANT_GROUPS.map(group => [group[0], group]));
+
+/**
+ * Legal-form suffixes (after normalization, so "S.A." is "s a"). Registries and
+ * sanctions lists disagree on whether and how they are written, so company
+ * names are compared without them.
+ */
+const LEGAL_FORMS: string[][] = [
+  ['ltd'], ['limited'], ['llc'], ['llp'], ['lp'], ['inc'], ['incorporated'], ['corp'], ['corporation'],
+  ['co'], ['company'], ['plc'], ['pllc'], ['gmbh'], ['ag'], ['kg'], ['ug'], ['mbh'], ['bv'], ['b', 'v'],
+  ['nv'], ['n', 'v'], ['sa'], ['s', 'a'], ['sas'], ['sarl'], ['srl'], ['s', 'r', 'l'], ['spa'], ['s', 'p', 'a'],
+  ['sl'], ['s', 'l'], ['slu'], ['pty'], ['pte'], ['oy'], ['oyj'], ['ab'], ['as'], ['asa'], ['aps'], ['sp', 'z', 'o', 'o'],
+  ['sro'], ['s', 'r', 'o'], ['kft'], ['zrt'], ['doo'], ['d', 'o', 'o'], ['ooo'], ['oao'], ['zao'], ['pao'], ['jsc'],
+  ['ojsc'], ['cjsc'], ['fze'], ['fzco'], ['fzc'], ['wll'], ['kk'], ['ltda'], ['eireli'], ['sdn', 'bhd'], ['bhd'], ['tbk'],
+  ['pvt'], ['private'],
+];
+
+export type SubjectType = 'person' | 'entity';
+
+export interface NameMatchResult {
+  score: number; // 0-1
+  matchedName: string;
+}
+
+export type RankedMatch<T> = T & { nameScore: number; matchedName: string };
+
+function transliterateKana(chars: string[]): string {
+  let output = '';
+  let doubleNext = false;
+
+  for (const raw of chars) {
+    // Katakana sits 0x60 above the matching hiragana
+    const code = raw.charCodeAt(0);
+    const char = code >= 0x30a1 && code <= 0x30f6 ? String.fromCharCode(code - 0x60) : raw;
+
+    if (char === 'っ') { doubleNext = true; continue; }
+    if (char === 'ー') continue;
+
+    if (SMALL_KANA_Y[char]) {
+      // ki + small ya -> kya, shi + small ya -> sha
+      output = /(sh|ch|j)i$/.test(output)
+        ? output.slice(0, -1) + SMALL_KANA_Y[char]
+        : output.replace(/i$/, '') + 'y' + SMALL_KANA_Y[char];
+      continue;
+    }
+
+    const romaji = KANA[char];
+    if (romaji === undefined) {
+      output += char;
+      continue;
+    }
+    output += doubleNext ? romaji[0] + romaji : romaji;
+    doubleNext = false;
+  }
+
+  return output;
+}
+
+function transliterateHangul(code: number): string {
+  const offset = code - HANGUL_BASE;
+  const initial = Math.floor(offset / (21 * 28));
+  const vowel = Math.floor((offset % (21 * 28)) / 28);
+  const final = offset % 28;
+  return HANGUL_INITIALS[initial] + HANGUL_VOWELS[vowel] + HANGUL_FINALS[final];
+}
+
+const isKana = (code: number) => code >= 0x3041 && code <= 0x30ff;
+
+/**
+ * Best-effort romanization of non-Latin scripts. Latin input passes through unchanged.
+ */
+export function transliterate(text: string): string {
+  const chars = Array.from(text.normalize('NFC').toLowerCase());
+  let output = '';
+  let kanaRun: string[] = [];
+
+  const flushKana = () => {
+    if (kanaRun.length > 0) {
+      output += transliterateKana(kanaRun);
+      kanaRun = [];
+    }
+  };
+
+  for (const char of chars) {
+    const code = char.charCodeAt(0);
+
+    if (isKana(code)) {
+      kanaRun.push(char);
+      continue;
+    }
+    flushKana();
+
+    if (code >= HANGUL_BASE && code <= HANGUL_LAST) {
+      // Korean names are also written unspaced; one token per syllable
+      output += ` ${transliterateHangul(code)} `;
+    } else if (HAN[char] !== undefined) {
+      // Chinese names are written without spaces; each character is its own token
+      output += ` ${HAN[char]} `;
+    } else {
+      output += CYRILLIC[char] ?? GREEK[char] ?? ARABIC[char] ?? HEBREW[char] ?? char;
+    }
+  }
+  flushKana();
+
+  return output;
+}
+
+export function normalizeName(name: string): string {
+  return transliterate(name)
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // strip diacritics
+    .replace(NON_ALPHANUMERIC, ' ')
+    .trim()
+    .replace(/\s+/g, ' ');
+}
+
+export function tokenize(name: string): string[] {
+  const normalized = normalizeName(name);
+  return normalized ? normalized.split(' ') : [];
+}
+
+// Tokens with nickname / spelling variants collapsed onto their canonical form
+export function canonicalTokens(name: string): string[] {
+  return tokenize(name).map(token => CANONICAL_VARIANTS.get(token) ?? token);
+}
+
+// Every spelling in a token's variant group ("bill" -> william, bill, billy, ...)
+export function tokenVariants(token: string): string[] {
+  const canonical = CANONICAL_VARIANTS.get(token);
+  return canonical ? VARIANT_GROUPS.get(canonical) ?? [token] : [token];
+}
+
+/**
+ * Drops trailing legal forms ("Acme Trading Ltd." -> "acme trading"), returning the
+ * normalized name. A name made only of legal-form tokens is returned unchanged.
+ */
+export function stripLegalForms(name: string): string {
+  const tokens = tokenize(name);
+  let end = tokens.length;
+  let stripped = true;
+
+  while (stripped) {
+    stripped = false;
+    for (const form of LEGAL_FORMS) {
+      const start = end - form.length;
+      if (start > 0 && form.every((token, i) => tokens[start + i] === token)) {
+        end = start;
+        stripped = true;
+        break;
+      }
+    }
+  }
+
+  return tokens.slice(0, end).join(' ');
+}
+
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const matchWindow = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatches = new Array<boolean>(a.length).fill(false);
+  const bMatches = new Array<boolean>(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - matchWindow);
+    const end = Math.min(i + matchWindow + 1, b.length);
+    for (let j = start; j < end; j++) {
+      if (bMatches[j] || a[i] !== b[j]) continue;
+      aMatches[i] = true;
+      bMatches[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatches[i]) continue;
+    while (!bMatches[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+// Abjad scripts drop short vowels, so "mhmd" should still line up with "muhammad"
+function consonantSkeleton(token: string): string {
+  return (token[0] + token.slice(1).replace(/[aeiouy]/g, '')).replace(/(.)\1+/g, '$1');
+}
+
+// Revised Romanization writes "eo"/"eu" where McCune-Reischauer and most passports use "o"/"u"
+const foldVowels = (token: string) => token.replace(/eo/g, 'o').replace(/eu/g, 'u');
+
+const hasInnerVowel = (token: string) => /[aeiouy]/.test(token.slice(1));
+
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+
+  if (a.length === 1 || b.length === 1) {
+    return a[0] === b[0] ? INITIAL_MATCH_SCORE : 0;
+  }
+
+  let score = jaroWinkler(a, b);
+  const foldedA = foldVowels(a);
+  const foldedB = foldVowels(b);
+  if (foldedA !== a || foldedB !== b) {
+    score = Math.max(score, jaroWinkler(foldedA, foldedB) * VOWEL_FOLD_DISCOUNT);
+  }
+  if (!hasInnerVowel(a) || !hasInnerVowel(b)) {
+    score = Math.max(score, jaroWinkler(consonantSkeleton(a), consonantSkeleton(b)) * SKELETON_MATCH_DISCOUNT);
+  }
+  return score;
+}
+
+/**
+ * Order-insensitive similarity between two names, 0-1. Tokens are paired greedily
+ * by best score and the name is only as close as its weakest pair, so an exact
+ * surname can't carry a different given name ("Jane Smith" vs "John Smith").
+ * Every token of the shorter name must pair; extra tokens on the longer one (e.g.
+ * a missing middle name) cost a little, and a match resting on a single token is
+ * discounted.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const tokensA = canonicalTokens(a);
+  const tokensB = canonicalTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  if (tokensA.join(' ') === tokensB.join(' ')) return 1;
+
+  const pairs: Array<{ i: number; j: number; score: number }> = [];
+  tokensA.forEach((tokenA, i) => tokensB.forEach((tokenB, j) => {
+    const score = tokenSimilarity(tokenA, tokenB);
+    if (score >= TOKEN_MATCH_FLOOR) pairs.push({ i, j, score });
+  }));
+  pairs.sort((x, y) => y.score - x.score);
+
+  const usedA = new Set<number>();
+  const usedB = new Set<number>();
+  let weakest = 1;
+  for (const pair of pairs) {
+    if (usedA.has(pair.i) || usedB.has(pair.j)) continue;
+    usedA.add(pair.i);
+    usedB.add(pair.j);
+    weakest = Math.min(weakest, pair.score);
+  }
+
+  const shorter = Math.min(tokensA.length, tokensB.length);
+  const longer = Math.max(tokensA.length, tokensB.length);
+  if (usedA.size < shorter) return 0;
+
+  const coverage = 0.85 + 0.15 * (shorter / longer);
+  const score = weakest * coverage;
+
+  return shorter === 1 ? score * SINGLE_TOKEN_DISCOUNT : score;
+}
+
+/**
+ * Best match of the query among a candidate's names. Entities are compared with
+ * legal forms stripped from both sides; `matchedName` is always the name as reported.
+ */
+export function scoreNameMatch(query: string, candidateNames: string[], subjectType: SubjectType = 'person'): NameMatchResult {
+  let best: NameMatchResult = { score: 0, matchedName: candidateNames[0] ?? '' };
+  const comparable = (name: string) => subjectType === 'entity' ? stripLegalForms(name) : name;
+  const queryName = comparable(query);
+
+  for (const candidate of candidateNames) {
+    if (!candidate) continue;
+    const score = nameSimilarity(queryName, comparable(candidate));
+    if (score > best.score) {
+      best = { score, matchedName: candidate };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Re-score provider matches against the screened name, drop those under the
+ * threshold and sort best first. `getNames` returns every name the provider
+ * reported for a match (primary name and aliases).
+ */
+export function rankMatches<T>(
+  query: string,
+  matches: T[],
+  getNames: (match: T) => Array<string | undefined>,
+  threshold: number = NAME_MATCH_THRESHOLD,
+  subjectType: SubjectType = 'person'
+): Array<RankedMatch<T>> {
+  return matches
+    .map(match => {
+      const names = getNames(match).filter((name): name is string => Boolean(name));
+      const { score, matchedName } = scoreNameMatch(query, names, subjectType);
+      return { ...match, nameScore: Math.round(score * 1000) / 1000, matchedName };
+    })
+    .filter(match => match.nameScore >= threshold)
+    .sort((a, b) => b.nameScore - a.nameScore);
+}
@@ -1,9 +1,14 @@
-import fetch from 'node-fetch';
 import { logger } from '../../lib/logger';
+import { providerRecorder } from '../../lib/provider-recorder';
+import { providerResilience, ProviderHttpError } from '../../lib/provider-resilience';
+import { rankMatches, NAME_MATCH_THRESHOLD, type SubjectType } from './nameMatching';
+import { applySubjectAttributes, summarizeExcluded, type ReasonedMatch, type SubjectAttributes } from './attributeMatching';
+import { toScreeningMatch, type ScreeningCategory, type ScreeningMatch } from './screeningMatch';
 
 export interface OpenSanctionsSearchRequest {
   q: string;
   scope?: 'names' | 'entities';
+  schema?: string; // FollowTheMoney schema filter, includes descendants
   limit?: number;
   threshold?: number;
 }
@@ -25,6 +30,7 @@ export interface OpenSanctionsMatch {
     name?: string[];
     alias?: string[];
     nationality?: string[];
+    citizenship?: string[];
     birthDate?: string[];
     topics?: string[];
   };
@@ -37,33 +43,51 @@ export interface OpenSanctionsResponse {
   results: OpenSanctionsMatch[];
 }
 
+export interface OpenSanctionsScreeningResult {
+  isMatch: boolean;
+  riskScore: number;
+  matches: ScreeningMatch[];
+  metadata: {
+    provider: string;
+    requestId: string;
+    processedAt: string;
+    subjectType: SubjectType;
+    queryNormalized: string;
+    excludedMatches: ReturnType<typeof summarizeExcluded>[]; // ruled out by DOB
+    hits_count: number;
+    lists: string[];
+    top_matches: Array<{
+      name: string;
+      score: number;
+      datasets: string[];
+    }>;
+  };
+}
+
 export class OpenSanctionsAdapter {
   private readonly baseUrl: string;
-  private readonly timeout: number = 3000; // 3s timeout as requested
-  private readonly maxRetries: number = 2;
+  private readonly timeout: number = 3000; // 3s ceiling; tightens to recent p95 latency
+  private readonly resilience = providerResilience.register('opensanctions', { timeoutMs: this.timeout, maxRetries: 2 });
   
   constructor() {
     this.baseUrl = process.env.OPEN_SANCTIONS_BASE_URL || 'https://api.opensanctions.org';
   }
 
-  async screenPerson(name: string, country?: string): Promise<{
-    isMatch: boolean;
-    riskScore: number;
-    matches: OpenSanctionsMatch[];
-    metadata: {
-      provider: string;
-      requestId: string;
-      processedAt: string;
-      queryNormalized: string;
-      hits_count: number;
-      lists: string[];
-      top_matches: Array<{
-        name: string;
-        score: number;
-        datasets: string[];
-      }>;
-    };
-  }> {
+  async screenPerson(name: string, country?: string, attributes?: SubjectAttributes): Promise<OpenSanctionsScreeningResult> {
+    return this.screen(name, 'person', country, attributes);
+  }
+
+  // Companies and other organizations only, so a director's name can't match the company
+  async screenEntity(name: string, country?: string): Promise<OpenSanctionsScreeningResult> {
+    return this.screen(name, 'entity', country);
+  }
+
+  private async screen(
+    name: string,
+    subjectType: SubjectType,
+    country?: string,
+    attributes?: SubjectAttributes
+  ): Promise<OpenSanctionsScreeningResult> {
     const startTime = Date.now();
     const requestId = `os-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     
@@ -73,7 +97,7 @@ export class OpenSanctionsAdapter {
     try {
       logger.info({
         component: 'opensanctions',
-        action: 'screen_person',
+        action: `screen_${subjectType}`,
         requestId,
         query: normalizedQuery.substring(0, 3) + '***', // Mask PII in logs
         country
@@ -81,27 +105,41 @@ export class OpenSanctionsAdapter {
 
       const response = await this.searchWithRetry({
         q: normalizedQuery,
-        limit: 25
+        limit: 25,
+        ...(subjectType === 'entity' && { schema: 'Organization' })
       }, requestId);
+
+      // Re-score against every reported name rather than trusting the API's own score
+      const ranked = rankMatches(normalizedQuery, response.results, result => [
+        result.caption,
+        ...(result.properties?.name || []),
+        ...(result.properties?.alias || [])
+      ], NAME_MATCH_THRESHOLD, subjectType);
+
+      // Rule out listings whose DOB disagrees with the subject's
+      const { matches: rankedResults, excluded } = applySubjectAttributes(ranked, attributes, result => ({
+        birthDates: result.properties?.birthDate || [],
+        nationalities: [...(result.properties?.nationality || []), ...(result.properties?.citizenship || [])]
+      }));
       
       // Extract unique datasets/lists
       const allDatasets = new Set<string>();
-      response.results.forEach(result => {
+      rankedResults.forEach(result => {
         result.datasets.forEach(dataset => allDatasets.add(dataset));
       });
       const lists = Array.from(allDatasets);
 
       // Get top 3 matches with scores
-      const top_matches = response.results
+      const top_matches = rankedResults
         .slice(0, 3)
         .map(result => ({
           name: result.caption || result.properties?.name?.[0] || 'Unknown',
-          score: Math.round(result.score * 100),
+          score: Math.round(result.nameScore * 100),
           datasets: result.datasets
         }));
 
       // Calculate risk score based on hits and confidence
-      const riskScore = this.calculateRiskScore(response.results, normalizedQuery);
+      const riskScore = this.calculateRiskScore(rankedResults);
       const isMatch = riskScore > 30; // Threshold for positive match
 
       const duration = Date.now() - startTime;
@@ -111,6 +149,8 @@ export class OpenSanctionsAdapter {
         requestId,
         hits_count: response.total,
         totalResults: response.results.length,
+        rankedResults: rankedResults.length,
+        excludedResults: excluded.length,
         riskScore,
         isMatch,
         duration,
@@ -120,12 +160,14 @@ export class OpenSanctionsAdapter {
       return {
         isMatch,
         riskScore,
-        matches: response.results,
+        matches: rankedResults.map(result => this.toScreeningMatch(result)),
         metadata: {
           provider: 'opensanctions',
           requestId,
           processedAt: new Date().toISOString(),
+          subjectType,
           queryNormalized: normalizedQuery,
+          excludedMatches: excluded.map(summarizeExcluded),
           hits_count: response.total,
           lists,
           top_matches
@@ -147,47 +189,45 @@ export class OpenSanctionsAdapter {
     }
   }
 
-  private async searchWithRetry(params: OpenSanctionsSearchRequest, requestId: string, retryCount = 0): Promise<OpenSanctionsResponse> {
+  private async searchWithRetry(params: OpenSanctionsSearchRequest, requestId: string): Promise<OpenSanctionsResponse> {
     const url = new URL('/search/default', this.baseUrl);
     url.searchParams.set('q', params.q);
     if (params.scope) {
       url.searchParams.set('scope', params.scope);
     }
+    if (params.schema) {
+      url.searchParams.set('schema', params.schema);
+    }
     url.searchParams.set('limit', (params.limit || 25).toString());
-    
-    try {
+
+    const headers: Record<string, string> = {
+      'User-Agent': 'GCRC/1.0',
+      'Accept': 'application/json'
+    };
+
+    // Add API key if provided
+    const apiKey = process.env.OPEN_SANCTIONS_API_KEY;
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    // Timeouts, retries with backoff and the circuit breaker are handled by the resilience layer
+    return this.resilience.execute(async signal => {
       logger.debug({
         component: 'opensanctions',
         requestId,
-        url: url.toString(),
-        retryCount
+        url: url.toString()
       }, 'Making OpenSanctions API request');
 
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
-      const headers: Record<string, string> = {
-        'User-Agent': 'GCRC/1.0',
-        'Accept': 'application/json'
-      };
-
-      // Add API key if provided
-      const apiKey = process.env.OPEN_SANCTIONS_API_KEY;
-      if (apiKey) {
-        headers['Authorization'] = `Bearer ${apiKey}`;
-      }
-
-      const response = await fetch(url.toString(), {
+      const response = await providerRecorder.fetch('opensanctions', url.toString(), {
         method: 'GET',
         headers,
-        signal: controller.signal
+        signal
       });
 
-      clearTimeout(timeoutId);
-
       if (!response.ok) {
         const errorText = await response.text();
-        throw new Error(`HTTP ${response.status}: ${errorText}`);
+        throw new ProviderHttpError(response.status, `HTTP ${response.status}: ${errorText}`);
       }
 
       const result = await response.json() as OpenSanctionsResponse;
@@ -201,34 +241,35 @@ export class OpenSanctionsAdapter {
       }, 'OpenSanctions API response received');
 
       return result;
+    });
+  }
 
-    } catch (error) {
-      if (retryCount < this.maxRetries) {
-        const backoffDelay = Math.pow(2, retryCount) * 1000; // Exponential backoff: 1s, 2s
-        logger.warn({
-          component: 'opensanctions',
-          requestId,
-          retryCount,
-          backoffDelay,
-          error: error instanceof Error ? error.message : 'Unknown error'
-        }, 'Retrying OpenSanctions request');
-        
-        await new Promise(resolve => setTimeout(resolve, backoffDelay));
-        return this.searchWithRetry(params, requestId, retryCount + 1);
-      }
-      
-      throw error;
-    }
+  // Sanctioned entities are flagged by topic or, on sanctions datasets, by the target flag
+  private toScreeningMatch(result: ReasonedMatch<OpenSanctionsMatch>): ScreeningMatch {
+    const topics = (result.properties?.topics || []).map(topic => topic.toLowerCase());
+    const categories: ScreeningCategory[] = [];
+    if (result.target || topics.some(topic => topic.includes('sanction'))) categories.push('sanction');
+    if (topics.some(topic => topic.includes('pep'))) categories.push('pep');
+
+    return toScreeningMatch('opensanctions', result, {
+      entityId: result.id,
+      name: result.caption || result.properties?.name?.[0] || result.matchedName,
+      names: [...(result.properties?.name || []), ...(result.properties?.alias || [])],
+      lists: result.datasets,
+      categories: categories.length > 0 ? categories : ['watchlist'],
+      birthDates: result.properties?.birthDate,
+      countries: [...(result.properties?.nationality || []), ...(result.properties?.citizenship || [])]
+    });
   }
 
-  private calculateRiskScore(results: OpenSanctionsMatch[], query: string): number {
+  private calculateRiskScore(results: ReasonedMatch<OpenSanctionsMatch>[]): number {
     if (!results || results.length === 0) {
       return 0;
     }
 
     let maxScore = 0;
     for (const result of results) {
-      let score = result.score * 100; // Convert to 0-100 scale
+      let score = result.nameScore * 100; // Convert to 0-100 scale
       
       // Boost score for target entities (those specifically sanctioned)
       if (result.target) {
@@ -241,7 +282,7 @@ export class OpenSanctionsAdapter {
       }
       
       // Boost for exact name matches (higher confidence)
-      if (result.match && result.match.score > 0.9) {
+      if (result.nameScore >= 0.95) {
         score *= 1.3;
       }
       
@@ -284,7 +325,7 @@ export class OpenSanctionsAdapter {
         headers['Authorization'] = `Bearer ${apiKey}`;
       }
 
-      const response = await fetch(`${this.baseUrl}/search/default?q=test&limit=1`, {
+      const response = await providerRecorder.fetch('opensanctions', `${this.baseUrl}/search/default?q=test&limit=1`, {
         method: 'GET',
         headers,
         signal: controller.signal
@@ -1,14 +1,22 @@
 import { SeonSanctionsAdapter } from './seonAdapter';
 import { AmlbotSanctionsAdapter } from './amlbotAdapter';
 import { OpenSanctionsAdapter } from './openSanctionsAdapter';
+import { LocalListSanctionsAdapter } from './localListAdapter';
+import { ComplyAdvantageSanctionsAdapter } from './complyAdvantageAdapter';
+import { CompositeSanctionsAdapter } from './compositeAdapter';
 import { logger } from '../../lib/logger';
+import type { SubjectAttributes } from './attributeMatching';
+import type { ScreeningMatch } from './screeningMatch';
 
-export type SanctionsProvider = 'seon' | 'amlbot' | 'opensanctions';
+export type SanctionsProvider = 'seon' | 'amlbot' | 'opensanctions' | 'complyadvantage' | 'local' | 'composite';
+export type SingleSanctionsProvider = Exclude<SanctionsProvider, 'composite'>;
+
+const SINGLE_PROVIDERS: SingleSanctionsProvider[] = ['seon', 'amlbot', 'opensanctions', 'complyadvantage', 'local'];
 
 export interface SanctionsResult {
   isMatch: boolean;
   riskScore: number;
-  matches: any[];
+  matches: ScreeningMatch[]; // every adapter maps its vendor records into the canonical match
   metadata: {
     provider: string;
     requestId: string;
@@ -18,7 +26,10 @@ export interface SanctionsResult {
 }
 
 export interface SanctionsAdapter {
-  screenPerson(name: string, country?: string): Promise<SanctionsResult>;
+  // DOB, when known, rules out candidates that only share the name; nationality firms up or weakens a hit
+  screenPerson(name: string, country?: string, attributes?: SubjectAttributes): Promise<SanctionsResult>;
+  // Companies and other organizations; legal forms are ignored when matching names
+  screenEntity(name: string, country?: string): Promise<SanctionsResult>;
   healthCheck(): Promise<{
     status: 'healthy' | 'degraded' | 'unhealthy';
     responseTime: number;
@@ -29,6 +40,7 @@ export interface SanctionsAdapter {
 export class SanctionsFactory {
   private static instance: SanctionsAdapter | null = null;
   private static currentProvider: SanctionsProvider | null = null;
+  private static localInstance: LocalListSanctionsAdapter | null = null;
 
   static getAdapter(): SanctionsAdapter {
     const provider = this.getProviderFromEnv();
@@ -40,28 +52,74 @@ export class SanctionsFactory {
 
     // Create new adapter instance
     this.currentProvider = provider;
-    
+    this.instance = provider === 'composite'
+      ? this.createCompositeAdapter()
+      : this.createAdapter(provider);
+
+    logger.info({
+      component: 'sanctions-factory',
+      provider,
+      action: 'adapter_created'
+    }, `Initialized ${provider} sanctions adapter`);
+
+    return this.instance;
+  }
+
+  private static createAdapter(provider: SingleSanctionsProvider): SanctionsAdapter {
     switch (provider) {
       case 'seon':
-        this.instance = new SeonSanctionsAdapter();
-        break;
+        return new SeonSanctionsAdapter();
       case 'amlbot':
-        this.instance = new AmlbotSanctionsAdapter();
-        break;
+        return new AmlbotSanctionsAdapter();
       case 'opensanctions':
-        this.instance = new OpenSanctionsAdapter();
-        break;
+        return new OpenSanctionsAdapter();
+      case 'complyadvantage':
+        return new ComplyAdvantageSanctionsAdapter();
+      case 'local':
+        return this.getLocalAdapter();
       default:
         throw new Error(`Unsupported sanctions provider: ${provider}`);
     }
+  }
 
-    logger.info({
-      component: 'sanctions-factory',
-      provider,
-      action: 'adapter_created'
-    }, `Initialized ${provider} sanctions adapter`);
+  // Providers that can't be constructed (e.g. missing API key) are left out of the fan-out
+  private static createCompositeAdapter(): CompositeSanctionsAdapter {
+    const adapters = this.getCompositeProvidersFromEnv().flatMap(provider => {
+      try {
+        return [{ provider, adapter: this.createAdapter(provider) }];
+      } catch (error) {
+        logger.warn({
+          component: 'sanctions-factory',
+          provider,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }, `Skipping ${provider} in composite sanctions mode`);
+        return [];
+      }
+    });
 
-    return this.instance;
+    return new CompositeSanctionsAdapter(adapters);
+  }
+
+  static getCompositeProvidersFromEnv(): SingleSanctionsProvider[] {
+    const providers = (process.env.SANCTIONS_PROVIDERS || 'opensanctions,local')
+      .split(',')
+      .map(p => p.trim().toLowerCase())
+      .filter(Boolean);
+
+    const invalid = providers.filter(p => !SINGLE_PROVIDERS.includes(p as SingleSanctionsProvider));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid SANCTIONS_PROVIDERS: ${invalid.join(', ')}. Must be a comma-separated list of ${SINGLE_PROVIDERS.join(', ')}`);
+    }
+
+    return Array.from(new Set(providers)) as SingleSanctionsProvider[];
+  }
+
+  // Offline adapter over the imported OFAC / EU / UN lists, also used as the fallback when a live provider fails
+  static getLocalAdapter(): LocalListSanctionsAdapter {
+    if (!this.localInstance) {
+      this.localInstance = new LocalListSanctionsAdapter();
+    }
+    return this.localInstance;
   }
 
   static getProviderFromEnv(): SanctionsProvider {
@@ -72,8 +130,8 @@ export class SanctionsFactory {
       return 'opensanctions';
     }
 
-    if (!['seon', 'amlbot', 'opensanctions'].includes(provider)) {
-      throw new Error(`Invalid SANCTIONS_PROVIDER: ${provider}. Must be 'seon', 'amlbot', or 'opensanctions'`);
+    if (![...SINGLE_PROVIDERS, 'composite'].includes(provider)) {
+      throw new Error(`Invalid SANCTIONS_PROVIDER: ${provider}. Must be one of ${[...SINGLE_PROVIDERS, 'composite'].join(', ')}`);
     }
 
     return provider;
@@ -0,0 +1,61 @@
+import type { SanctionsMatchReasons } from '@shared/schema';
+import type { RankedMatch } from './nameMatching';
+
+export type ScreeningCategory = 'sanction' | 'pep' | 'watchlist';
+
+/**
+ * A listed person or organization returned by a screening, in one shape for
+ * every provider. Adapters map their vendor records into it, so nothing past
+ * the adapter reads vendor fields. `raw` keeps the vendor record for evidence.
+ */
+export interface ScreeningMatch {
+  provider: string;
+  entityId: string; // stable within the provider; match decisions are keyed on it
+  name: string; // primary listed name
+  names: string[]; // primary name and aliases
+  matchedName: string; // the name the query matched best
+  nameScore: number; // 0-1 on the shared name matcher
+  lists: string[]; // list / dataset identifiers, e.g. "us_ofac_sdn"
+  categories: ScreeningCategory[];
+  birthDates: string[]; // as listed: YYYY, YYYY-MM-DD or free text
+  countries: string[]; // nationality / citizenship / listed countries
+  matchReasons?: SanctionsMatchReasons; // set when the subject's DOB / nationality were compared
+  raw: unknown;
+}
+
+// Vendor-neutral fields the adapter reads off its own record
+export type ScreeningMatchFields = Pick<ScreeningMatch, 'entityId' | 'name' | 'lists' | 'categories'> &
+  Partial<Pick<ScreeningMatch, 'names' | 'birthDates' | 'countries'>>;
+
+const present = <T>(values: Array<T | null | undefined>): T[] =>
+  Array.from(new Set(values.filter((value): value is T => value !== null && value !== undefined && value !== '')));
+
+/**
+ * Build the canonical match from a name-ranked (and optionally DOB-checked)
+ * vendor record. The ranking fields are lifted out and the rest is kept as `raw`.
+ */
+export function toScreeningMatch<T>(
+  provider: string,
+  match: RankedMatch<T> & { matchReasons?: SanctionsMatchReasons },
+  fields: ScreeningMatchFields
+): ScreeningMatch {
+  const { nameScore, matchedName, matchReasons, ...raw } = match;
+  return {
+    provider,
+    entityId: fields.entityId,
+    name: fields.name,
+    names: present([fields.name, ...(fields.names || [])]),
+    matchedName,
+    nameScore,
+    lists: present(fields.lists),
+    categories: present(fields.categories),
+    birthDates: present(fields.birthDates || []),
+    countries: present(fields.countries || []),
+    ...(matchReasons && { matchReasons }),
+    raw,
+  };
+}
+
+export function hasCategory(match: Pick<ScreeningMatch, 'categories'>, category: ScreeningCategory): boolean {
+  return match.categories.includes(category);
+}
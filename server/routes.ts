@@ -5,14 +5,26 @@ import { z } from "zod";
 import rateLimit from "express-rate-limit";
 
 import { db } from "./lib/database";
-import { countries, contractors, riskScores, complianceRules, auditLogs, pdfReports } from "@shared/schema";
+import { countries, contractors, riskScores, complianceRules, rulesetVersions, auditLogs, pdfReports, scoringProfileInputSchema, matchDecisionInputSchema, paymentMethodSchema, paymentMethodPolicyInputSchema, scoreSimulationInputSchema, entityScreeningInputSchema, dateOfBirthSchema } from "@shared/schema";
 import { eq, desc, ilike, or, and, sql, count, gte } from "drizzle-orm";
-import { enhancedRiskEngine } from "./services/risk-engine-enhanced";
+import { riskEngine } from "./services/risk-engine";
+import { scoringProfileService } from "./services/scoring-profile-service";
+import { sanctionsListIngestionService } from "./services/sanctions-list-ingestion";
+import { mediaFeedIngestionService } from "./services/media-feed-ingestion";
+import { matchAdjudicationService } from "./services/match-adjudication-service";
+import { rescreeningService } from "./services/rescreening-service";
+import { paymentMethodRiskService } from "./services/payment-method-risk-service";
+import { scoreExplanationService } from "./services/score-explanation-service";
+import { scoreSimulationService } from "./services/score-simulation-service";
+import { evidenceStoreService } from "./services/evidence-store-service";
 import { pdfService } from "./services/pdf-service";
 import { analyticsService } from "./services/analytics-service";
 import { metricsMiddleware } from "./middleware/metrics";
 import { healthCheck, metricsEndpoint, readinessCheck, livenessCheck } from "./middleware/health";
 import { createChildLogger } from "./lib/logger";
+import { BadRequestError, NotFoundError } from "./middleware/error-handler";
+import { authenticateToken, requireAdmin, type AuthenticatedRequest } from "./middleware/auth";
+import { normalizeName } from "./providers/sanctions/nameMatching";
 
 const logger = createChildLogger('routes');
 
@@ -348,6 +360,15 @@ export function registerRoutes(app: Express) {
     contractorEmail: z.string().email().optional(),
     countryIso: z.string().length(2, "Country ISO must be 2 characters"),
     contractorType: z.enum(['independent', 'eor', 'freelancer']),
+    paymentMethod: paymentMethodSchema.default('wire'),
+    registrationId: z.string().trim().max(64).optional(),
+    // Used to rule out sanctions candidates that only share the contractor's name
+    dateOfBirth: dateOfBirthSchema.optional(),
+    nationality: z.string().length(2, "Nationality must be an ISO country code").transform(iso => iso.toUpperCase()).optional(),
+    // Used to confirm adverse media articles are about this contractor rather than a namesake
+    role: z.string().trim().max(100).optional(),
+    entity: entityScreeningInputSchema.optional(), // screen the contractor's company and its owners too
+    bypassCache: z.boolean().optional(), // forced rescreen: call the providers even if a cached answer exists
   });
 
   app.post("/api/risk-check", async (req, res) => {
@@ -373,20 +394,30 @@ export function registerRoutes(app: Express) {
       // Create or get contractor
       const [contractor] = await db.insert(contractors).values({
         name: validatedData.contractorName,
+        normalizedName: normalizeName(validatedData.contractorName),
         countryId: country.id,
         type: validatedData.contractorType,
-        paymentMethod: 'wire' // Default payment method
+        paymentMethod: validatedData.paymentMethod,
+        registrationId: validatedData.registrationId || null,
+        dateOfBirth: validatedData.dateOfBirth || null,
+        nationality: validatedData.nationality || null,
+        role: validatedData.role || null,
+        entity: validatedData.entity || null
       }).returning();
 
-      // Use enhanced risk engine for real risk assessment
-      const { EnhancedRiskEngine } = await import('./services/risk-engine-enhanced');
-      const riskEngine = new EnhancedRiskEngine();
-      
+      // Score the contractor from the registered risk signals
       const result = await riskEngine.assessRisk({
         contractorName: validatedData.contractorName,
         contractorEmail: validatedData.contractorEmail,
         countryIso: validatedData.countryIso,
-        contractorType: validatedData.contractorType
+        contractorType: validatedData.contractorType,
+        paymentMethod: validatedData.paymentMethod,
+        registrationId: validatedData.registrationId || undefined,
+        dateOfBirth: validatedData.dateOfBirth,
+        nationality: validatedData.nationality,
+        role: validatedData.role || undefined,
+        entity: validatedData.entity,
+        bypassCache: validatedData.bypassCache
       });
 
       // Extract key fields for database storage
@@ -403,14 +434,21 @@ export function registerRoutes(app: Express) {
         topRisks: topRisks,
         recommendations: recommendations,
         penaltyRange: `$5,000 - $50,000`,
-        rulesetVersion: 1,
-        breakdown: {
-          compliance: overallScore,
-          tax: Math.max(overallScore - 10, 20),
-          employment: Math.max(overallScore - 5, 25)
-        }
+        rulesetVersion: result.rulesetVersion,
+        breakdown: result.breakdown,
+        firedRules: result.firedRules,
+        scoringProfileVersion: result.scoringProfileVersion,
+        sanctionsHits: result.sanctionsHits,
+        evidence: result.evidence,
+        expiresAt: new Date(result.expiresAt)
       }).returning();
 
+      await evidenceStoreService.persist(riskScore.id, result.providerCalls, {
+        name: validatedData.contractorName,
+        email: validatedData.contractorEmail,
+        relatedNames: validatedData.entity?.beneficialOwners.map(owner => owner.name)
+      });
+
       // Track successful risk check
       await analyticsService.trackEvent({
         event: 'risk_check_success',
@@ -423,8 +461,9 @@ export function registerRoutes(app: Express) {
       });
 
       // Add provider information to the response and include the risk score ID for PDF generation
+      const { providerCalls, ...assessment } = result;
       const responseResult = {
-        ...result,
+        ...assessment,
         id: riskScore.id, // Use risk score ID for PDF generation
         contractorId: contractor.id,
         providerInfo: result.providerInfo || {
@@ -463,6 +502,50 @@ export function registerRoutes(app: Express) {
     }
   });
 
+  app.get("/api/risk-scores/:id/explanation", async (req, res) => {
+    try {
+      const explanation = await scoreExplanationService.explain(req.params.id);
+      if (!explanation) {
+        return res.status(404).json({ error: "Risk score not found" });
+      }
+
+      res.json({ explanation });
+    } catch (error) {
+      logger.error({ error }, "Error explaining risk score");
+      res.status(500).json({ error: "Failed to explain risk score" });
+    }
+  });
+
+  // Raw provider evidence for a risk score; PII fields stay encrypted
+  app.get("/api/risk-scores/:id/evidence", async (req, res) => {
+    try {
+      const evidence = await evidenceStoreService.getEvidence(req.params.id);
+      if (!evidence) {
+        return res.status(404).json({ error: "Risk score not found" });
+      }
+
+      res.json({ evidence, total: evidence.length });
+    } catch (error) {
+      logger.error({ error }, "Error fetching provider evidence");
+      res.status(500).json({ error: "Failed to fetch provider evidence" });
+    }
+  });
+
+  // Decrypted evidence for audits and disputes; admin only and audit-logged
+  app.get("/api/admin/risk-scores/:id/evidence", authenticateToken, requireAdmin, async (req: AuthenticatedRequest, res) => {
+    try {
+      const evidence = await evidenceStoreService.revealEvidence(req.params.id, req.user!.username);
+      if (!evidence) {
+        return res.status(404).json({ error: "Risk score not found" });
+      }
+
+      res.json({ evidence, total: evidence.length });
+    } catch (error) {
+      logger.error({ error }, "Error decrypting provider evidence");
+      res.status(500).json({ error: "Failed to decrypt provider evidence" });
+    }
+  });
+
   // PDF generation endpoints - standardized to /api/pdf-report
   app.post("/api/pdf-report", async (req, res) => {
     try {
@@ -752,6 +835,7 @@ export function registerRoutes(app: Express) {
   app.post("/api/admin/rules/:id/publish", async (req, res) => {
     try {
       const { id } = req.params;
+      const publishedBy = (req.body?.publishedBy as string) || 'admin';
 
       const [publishedRule] = await db.update(complianceRules)
         .set({
@@ -765,7 +849,26 @@ export function registerRoutes(app: Express) {
         return res.status(404).json({ error: "Rule not found" });
       }
 
-      res.json({ rule: publishedRule, message: "Rule published successfully" });
+      // Every publish bumps the country's ruleset version so risk scores can be traced to it
+      const [currentVersion] = await db
+        .select({ version: rulesetVersions.version })
+        .from(rulesetVersions)
+        .where(eq(rulesetVersions.countryId, publishedRule.countryId))
+        .orderBy(desc(rulesetVersions.version))
+        .limit(1);
+
+      const [rulesetVersion] = await db.insert(rulesetVersions).values({
+        countryId: publishedRule.countryId,
+        version: (currentVersion?.version ?? 0) + 1,
+        publishedBy,
+        notes: `Published rule: ${publishedRule.ruleType}`,
+      }).returning();
+
+      res.json({
+        rule: publishedRule,
+        rulesetVersion: rulesetVersion.version,
+        message: "Rule published successfully"
+      });
     } catch (error) {
       logger.error({ error }, "Error publishing rule");
       res.status(500).json({ error: "Failed to publish rule" });
@@ -819,6 +922,243 @@ export function registerRoutes(app: Express) {
     }
   });
 
+  // Scoring profiles: versioned weights and tier thresholds
+  app.get("/api/admin/scoring-profiles", async (req, res) => {
+    try {
+      const profiles = await scoringProfileService.getProfiles();
+      res.json({ profiles, total: profiles.length });
+    } catch (error) {
+      logger.error({ error }, "Error fetching scoring profiles");
+      res.status(500).json({ error: "Failed to fetch scoring profiles" });
+    }
+  });
+
+  app.get("/api/admin/scoring-profiles/active", async (req, res) => {
+    try {
+      const profile = await scoringProfileService.getActiveProfile();
+      res.json({ profile });
+    } catch (error) {
+      logger.error({ error }, "Error fetching active scoring profile");
+      res.status(500).json({ error: "Failed to fetch active scoring profile" });
+    }
+  });
+
+  app.post("/api/admin/scoring-profiles/validate", async (req, res) => {
+    try {
+      res.json(scoringProfileService.validateProfile(req.body));
+    } catch (error) {
+      logger.error({ error }, "Error validating scoring profile");
+      res.status(500).json({ error: "Failed to validate scoring profile" });
+    }
+  });
+
+  app.post("/api/admin/scoring-profiles", async (req, res) => {
+    try {
+      const validatedData = scoringProfileInputSchema.parse(req.body);
+      const profile = await scoringProfileService.createProfile(validatedData);
+
+      res.status(201).json({ profile });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      logger.error({ error }, "Error creating scoring profile");
+      res.status(500).json({ error: "Failed to create scoring profile" });
+    }
+  });
+
+  app.post("/api/admin/scoring-profiles/:id/activate", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const activatedBy = (req.body?.activatedBy as string) || 'admin';
+
+      const existing = await scoringProfileService.getProfile(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Scoring profile not found" });
+      }
+
+      const validation = scoringProfileService.validateProfile({
+        name: existing.name,
+        weights: existing.weights,
+        tierThresholds: existing.tierThresholds,
+      });
+      if (!validation.valid) {
+        return res.status(400).json({ error: "Validation failed", details: validation.errors });
+      }
+
+      const profile = await scoringProfileService.activateProfile(id, activatedBy);
+
+      res.json({
+        profile,
+        message: `Scoring profile v${profile?.version} activated`
+      });
+    } catch (error) {
+      logger.error({ error }, "Error activating scoring profile");
+      res.status(500).json({ error: "Failed to activate scoring profile" });
+    }
+  });
+
+  // What-if replay of stored scores against candidate weights / draft rules (read-only)
+  app.post("/api/admin/simulations/score", async (req, res) => {
+    try {
+      const input = scoreSimulationInputSchema.parse(req.body);
+      const simulation = await scoreSimulationService.simulate(input);
+
+      res.json({ simulation });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      logger.error({ error }, "Error running score simulation");
+      res.status(500).json({ error: "Failed to run score simulation" });
+    }
+  });
+
+  // Offline sanctions lists imported by `npm run sanctions:ingest`
+  app.get("/api/admin/sanctions-lists", async (req, res) => {
+    try {
+      const lists = await sanctionsListIngestionService.getListStatus();
+      res.json({ lists });
+    } catch (error) {
+      logger.error({ error }, "Error fetching sanctions list status");
+      res.status(500).json({ error: "Failed to fetch sanctions list status" });
+    }
+  });
+
+  // Local adverse media store (FEATURE_MEDIA_PROVIDER=local)
+  app.get("/api/admin/media-feeds", async (req, res) => {
+    try {
+      const feeds = await mediaFeedIngestionService.getFeedStatus();
+      res.json({ ...mediaFeedIngestionService.getStatus(), feeds });
+    } catch (error) {
+      logger.error({ error }, "Error fetching media feed status");
+      res.status(500).json({ error: "Failed to fetch media feed status" });
+    }
+  });
+
+  app.post("/api/admin/media-feeds/run", async (req, res) => {
+    try {
+      const feedNames = typeof req.query.feeds === 'string' ? req.query.feeds.split(',').filter(Boolean) : undefined;
+      const summary = await mediaFeedIngestionService.runOnce(feedNames);
+      if (!summary) {
+        return res.status(409).json({ error: "A media feed ingestion run is already in progress" });
+      }
+
+      res.json({ summary });
+    } catch (error) {
+      if (error instanceof BadRequestError) {
+        return res.status(400).json({ error: error.message });
+      }
+      logger.error({ error }, "Error running media feed ingestion");
+      res.status(500).json({ error: "Failed to run media feed ingestion" });
+    }
+  });
+
+  // Sanctions match adjudication endpoints
+  app.get("/api/adjudication/hits", async (req, res) => {
+    try {
+      const days = Math.max(1, parseInt(req.query.days as string) || 30);
+      const hits = await matchAdjudicationService.getOpenHits(days);
+
+      res.json({ hits, total: hits.length });
+    } catch (error) {
+      logger.error({ error }, "Error fetching open sanctions hits");
+      res.status(500).json({ error: "Failed to fetch open sanctions hits" });
+    }
+  });
+
+  app.post("/api/adjudication/decisions", async (req, res) => {
+    try {
+      const input = matchDecisionInputSchema.parse(req.body);
+      const decision = await matchAdjudicationService.recordDecision(input);
+
+      res.status(201).json({ decision });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      if (error instanceof NotFoundError) {
+        return res.status(404).json({ error: error.message });
+      }
+      logger.error({ error }, "Error recording sanctions match decision");
+      res.status(500).json({ error: "Failed to record sanctions match decision" });
+    }
+  });
+
+  app.get("/api/adjudication/decisions", async (req, res) => {
+    try {
+      const contractorId = req.query.contractorId as string | undefined;
+      const decisions = await matchAdjudicationService.getDecisions(contractorId);
+
+      res.json({ decisions, total: decisions.length });
+    } catch (error) {
+      logger.error({ error }, "Error fetching sanctions match decisions");
+      res.status(500).json({ error: "Failed to fetch sanctions match decisions" });
+    }
+  });
+
+  // Payment method policy endpoints
+  app.get("/api/admin/payment-policies", async (req, res) => {
+    try {
+      const policies = await paymentMethodRiskService.getPolicies();
+      res.json({ policies, total: policies.length });
+    } catch (error) {
+      logger.error({ error }, "Error fetching payment method policies");
+      res.status(500).json({ error: "Failed to fetch payment method policies" });
+    }
+  });
+
+  app.put("/api/admin/payment-policies/:iso", async (req, res) => {
+    try {
+      const input = paymentMethodPolicyInputSchema.parse(req.body);
+      const policy = await paymentMethodRiskService.upsertPolicy(req.params.iso, input);
+      if (!policy) {
+        return res.status(404).json({ error: "Country not found" });
+      }
+
+      res.json({ policy });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      logger.error({ error }, "Error updating payment method policy");
+      res.status(500).json({ error: "Failed to update payment method policy" });
+    }
+  });
+
+  // Continuous re-screening endpoints
+  app.get("/api/admin/rescreening", async (req, res) => {
+    try {
+      const [due, dueContractors] = await Promise.all([
+        rescreeningService.countDueContractors(),
+        rescreeningService.findDueContractors(new Date(), 50)
+      ]);
+
+      res.json({
+        ...rescreeningService.getStatus(),
+        due,
+        dueContractors
+      });
+    } catch (error) {
+      logger.error({ error }, "Error fetching re-screening status");
+      res.status(500).json({ error: "Failed to fetch re-screening status" });
+    }
+  });
+
+  app.post("/api/admin/rescreening/run", async (req, res) => {
+    try {
+      const summary = await rescreeningService.runOnce({ bypassCache: req.query.bypassCache === 'true' });
+      if (!summary) {
+        return res.status(409).json({ error: "A re-screening run is already in progress" });
+      }
+
+      res.json({ summary });
+    } catch (error) {
+      logger.error({ error }, "Error running re-screening");
+      res.status(500).json({ error: "Failed to run re-screening" });
+    }
+  });
+
   const httpServer = createServer(app);
   // Admin compliance rules endpoints
   app.get("/api/admin/compliance-rules", async (req, res) => {
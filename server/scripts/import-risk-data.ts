@@ -0,0 +1,48 @@
+import {
+  riskDataFileImportService,
+  RISK_DATASETS,
+  RiskDataset,
+} from "../services/risk-data-file-import";
+import { createChildLogger } from "../lib/logger";
+
+const logger = createChildLogger('import-risk-data');
+
+const USAGE = `Usage: tsx server/scripts/import-risk-data.ts <dataset> <file> [--force]
+  dataset: ${RISK_DATASETS.join(' | ')}
+  file:    World Bank WGI CSV (DataBank export or long dataset), TI CPI results CSV,
+           or a FATF list snapshot (.json or .csv)`;
+
+async function importRiskData(args: string[]) {
+  const [dataset, filePath] = args.filter(arg => !arg.startsWith('--'));
+
+  if (!dataset || !filePath || !RISK_DATASETS.includes(dataset as RiskDataset)) {
+    throw new Error(USAGE);
+  }
+
+  const result = await riskDataFileImportService.importFile(dataset as RiskDataset, filePath, {
+    force: args.includes('--force'),
+  });
+
+  logger.info(result, result.skipped ? 'Risk data file unchanged' : 'Risk data file imported');
+  return result;
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  importRiskData(process.argv.slice(2))
+    .then((result) => {
+      console.log(result.skipped
+        ? `✅ ${result.fileName} unchanged (${result.recordsImported} ${result.dataset} records)`
+        : `✅ Imported ${result.recordsImported} ${result.dataset} records from ${result.fileName}`);
+      if (result.unmatched.length > 0) {
+        console.log(`⚠️  Skipped unknown countries: ${result.unmatched.join(', ')}`);
+      }
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("❌ Risk data import failed:", error instanceof Error ? error.message : error);
+      process.exit(1);
+    });
+}
+
+export { importRiskData };
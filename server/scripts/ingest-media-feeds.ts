@@ -0,0 +1,43 @@
+import { mediaFeedIngestionService } from "../services/media-feed-ingestion";
+import { createChildLogger } from "../lib/logger";
+
+const logger = createChildLogger('ingest-media-feeds');
+
+const USAGE = `Usage: tsx server/scripts/ingest-media-feeds.ts [<feed name>...]
+  Fetches the RSS / Atom feeds configured in MEDIA_FEEDS (name=url,name=url,...), or only those named`;
+
+async function ingestMediaFeeds(args: string[]) {
+  if (args.includes('--help')) {
+    throw new Error(USAGE);
+  }
+  if (mediaFeedIngestionService.getConfiguredFeeds().length === 0) {
+    throw new Error(`MEDIA_FEEDS is not set\n${USAGE}`);
+  }
+
+  const summary = await mediaFeedIngestionService.runOnce(args.filter(arg => !arg.startsWith('--')));
+  if (!summary) {
+    throw new Error('A media feed ingestion run is already in progress');
+  }
+
+  logger.info({ articlesAdded: summary.articlesAdded, articlesPruned: summary.articlesPruned }, 'Media feeds ingested');
+  return summary;
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  ingestMediaFeeds(process.argv.slice(2))
+    .then((summary) => {
+      for (const feed of summary.feeds) {
+        console.log(feed.status === 'failed'
+          ? `❌ ${feed.feed}: ${feed.error}`
+          : `✅ ${feed.feed}: ${feed.status === 'not_modified' ? 'unchanged' : `${feed.articlesAdded} new of ${feed.articlesParsed} articles`}`);
+      }
+      process.exit(summary.feeds.some(feed => feed.status === 'failed') ? 1 : 0);
+    })
+    .catch((error) => {
+      console.error("❌ Media feed ingestion failed:", error instanceof Error ? error.message : error);
+      process.exit(1);
+    });
+}
+
+export { ingestMediaFeeds };
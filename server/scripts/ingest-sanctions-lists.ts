@@ -0,0 +1,47 @@
+import {
+  sanctionsListIngestionService,
+  SANCTIONS_LIST_SOURCES,
+  SanctionsListSource,
+} from "../services/sanctions-list-ingestion";
+import { createChildLogger } from "../lib/logger";
+
+const logger = createChildLogger('ingest-sanctions-lists');
+
+const USAGE = `Usage: tsx server/scripts/ingest-sanctions-lists.ts <source> <file> [--alt <alt.csv>] [--force]
+  source: ${SANCTIONS_LIST_SOURCES.join(' | ')}
+  file:   OFAC sdn.xml / sdn.csv, EU consolidated XML or UN consolidated XML`;
+
+async function ingestSanctionsLists(args: string[]) {
+  const [source, filePath] = args.filter((arg, i) => !arg.startsWith('--') && args[i - 1] !== '--alt');
+  const altIndex = args.indexOf('--alt');
+  const aliasFilePath = altIndex !== -1 ? args[altIndex + 1] : undefined;
+
+  if (!source || !filePath || !SANCTIONS_LIST_SOURCES.includes(source as SanctionsListSource)) {
+    throw new Error(USAGE);
+  }
+
+  const result = await sanctionsListIngestionService.ingestFile(source as SanctionsListSource, filePath, {
+    aliasFilePath,
+    force: args.includes('--force'),
+  });
+
+  logger.info(result, result.skipped ? 'Sanctions list unchanged' : 'Sanctions list ingested');
+  return result;
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  ingestSanctionsLists(process.argv.slice(2))
+    .then((result) => {
+      console.log(result.skipped
+        ? `✅ ${result.source} unchanged (${result.entriesImported} entries)`
+        : `✅ Imported ${result.entriesImported} ${result.source} entries`);
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("❌ Sanctions list ingestion failed:", error instanceof Error ? error.message : error);
+      process.exit(1);
+    });
+}
+
+export { ingestSanctionsLists };
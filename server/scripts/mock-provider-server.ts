@@ -0,0 +1,264 @@
+import express, { type Request, type Response, type NextFunction } from "express";
+import { readFileSync } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { z } from "zod";
+import { scoreNameMatch, NAME_MATCH_THRESHOLD } from "../providers/sanctions/nameMatching";
+import { createChildLogger } from "../lib/logger";
+
+const logger = createChildLogger('mock-provider-server');
+
+/**
+ * Stand-in for the OpenSanctions, SEON, AMLBot, ComplyAdvantage and NewsAPI
+ * HTTP APIs, answering from a list of named personas. Point the adapters at it
+ * through their base URL variables (printed on start) to drive every branch of
+ * the risk signals without network access: sanctioned, PEP, adverse media,
+ * slow and failing providers.
+ */
+
+const PROVIDERS = ['opensanctions', 'seon', 'amlbot', 'complyadvantage', 'newsapi'] as const;
+type Provider = typeof PROVIDERS[number];
+
+const personaSchema = z.object({
+  name: z.string().min(1),
+  aliases: z.array(z.string()).default([]),
+  entity: z.boolean().default(false),
+  countries: z.array(z.string().length(2)).default([]),
+  birthDate: z.string().optional(), // YYYY, YYYY-MM or YYYY-MM-DD
+  sanctioned: z.boolean().default(false),
+  pep: z.boolean().default(false),
+  lists: z.array(z.string()).default([]),
+  adverseMedia: z.array(z.object({ title: z.string(), description: z.string() })).default([]),
+  latencyMs: z.number().int().min(0).default(0),
+  error: z.object({
+    status: z.number().int().min(400).max(599),
+    providers: z.array(z.enum(PROVIDERS)).optional(), // all providers when omitted
+  }).optional(),
+  description: z.string().optional(),
+});
+
+export type Persona = z.infer<typeof personaSchema>;
+
+const DEFAULT_PERSONAS_FILE = path.join(path.dirname(fileURLToPath(import.meta.url)), 'mock-provider-personas.json');
+
+const USAGE = `Usage: tsx server/scripts/mock-provider-server.ts [--port <port>] [--personas <file.json>]
+  Personas can also be listed and replaced at runtime: GET / PUT / POST /__personas`;
+
+export function loadPersonas(filePath: string = DEFAULT_PERSONAS_FILE): Persona[] {
+  return z.array(personaSchema).parse(JSON.parse(readFileSync(filePath, 'utf8')));
+}
+
+const slug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+const birthYear = (persona: Persona) => persona.birthDate ? Number(persona.birthDate.slice(0, 4)) : undefined;
+const requestId = () => `mock-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+
+export function createMockProviderServer(initialPersonas: Persona[]) {
+  let personas = initialPersonas;
+  const app = express();
+  app.use(express.json());
+
+  // Personas whose name or alias matches the query under the adapters' own matcher
+  const find = (query: string, subjectType?: 'person' | 'entity') => personas.filter(persona =>
+    (!subjectType || persona.entity === (subjectType === 'entity')) &&
+    scoreNameMatch(query, [persona.name, ...persona.aliases], persona.entity ? 'entity' : 'person').score >= NAME_MATCH_THRESHOLD
+  );
+
+  // Applies latency and scripted errors of the matched personas before answering
+  async function respond(provider: Provider, matched: Persona[], res: Response, body: () => unknown) {
+    const delay = Math.max(0, ...matched.map(persona => persona.latencyMs));
+    if (delay > 0) await new Promise(resolve => setTimeout(resolve, delay));
+    if (res.writableEnded || res.req.destroyed) return;
+
+    const failing = matched.find(persona => persona.error && (!persona.error.providers || persona.error.providers.includes(provider)));
+    if (failing?.error) {
+      logger.info({ provider, persona: failing.name, status: failing.error.status }, 'Returning scripted error');
+      return res.status(failing.error.status).json({ status: 'error', error: { code: 'mock_error', message: `Scripted ${failing.error.status} for ${failing.name}` } });
+    }
+    res.json(body());
+  }
+
+  // OpenSanctions: GET /search/default?q=&schema=&limit=
+  app.get('/search/default', (req, res) => {
+    const query = String(req.query.q || '');
+    const subjectType = req.query.schema === 'Organization' ? 'entity' : undefined;
+    const matched = find(query, subjectType);
+    const limit = parseInt(String(req.query.limit || '25'), 10);
+
+    return respond('opensanctions', matched, res, () => ({
+      total: matched.length,
+      page: 1,
+      limit,
+      results: matched.slice(0, limit).map((persona, i) => ({
+        id: `mock-os-${slug(persona.name)}-${i}`,
+        caption: persona.name,
+        schema: persona.entity ? 'Organization' : 'Person',
+        datasets: persona.lists,
+        first_seen: '2020-01-01T00:00:00',
+        last_seen: new Date().toISOString(),
+        target: persona.sanctioned,
+        score: 1,
+        properties: {
+          name: [persona.name],
+          alias: persona.aliases,
+          nationality: persona.countries,
+          ...(persona.birthDate && { birthDate: [persona.birthDate] }),
+          topics: [...(persona.sanctioned ? ['sanction'] : []), ...(persona.pep ? ['role.pep'] : [])],
+        },
+      })),
+    }));
+  });
+
+  // SEON: POST /v1/sanctions/screen { query, type }
+  app.post('/v1/sanctions/screen', (req, res) => {
+    const matched = find(String(req.body?.query || ''), req.body?.type);
+    return respond('seon', matched, res, () => ({
+      request_id: requestId(),
+      status: 'success',
+      data: {
+        matches: matched.flatMap((persona, i) => [
+          ...(persona.sanctioned ? ['sanctions'] : []),
+          ...(persona.pep ? ['pep'] : []),
+        ].map(watchlist => ({
+          id: `mock-seon-${slug(persona.name)}-${i}-${watchlist}`,
+          name: persona.name,
+          match_strength: 1,
+          watchlist,
+          categories: persona.lists,
+          countries: persona.countries,
+          birth_date: persona.birthDate,
+          aliases: persona.aliases,
+        }))),
+        total_matches: matched.length,
+        query_processed: String(req.body?.query || ''),
+      },
+    }));
+  });
+
+  app.post('/v1/health', (req, res) => res.json({ request_id: requestId(), status: 'success', data: { matches: [], total_matches: 0, query_processed: '' } }));
+
+  // AMLBot: POST /api/v2/screen { name, birth_year }
+  app.post('/api/v2/screen', (req, res) => {
+    const matched = find(String(req.body?.name || ''));
+    return respond('amlbot', matched, res, () => ({
+      status: 'success',
+      request_id: requestId(),
+      results: {
+        matches: matched.flatMap((persona, i) => [
+          ...(persona.sanctioned ? ['sanction' as const] : []),
+          ...(persona.pep ? ['pep' as const] : []),
+          ...(persona.adverseMedia.length > 0 ? ['adverse_media' as const] : []),
+        ].map(type => ({
+          id: `mock-amlbot-${slug(persona.name)}-${i}-${type}`,
+          name: persona.name,
+          score: 1,
+          type,
+          lists: persona.lists,
+          countries: persona.countries,
+          birth_year: birthYear(persona),
+        }))),
+        total: matched.length,
+        query: String(req.body?.name || ''),
+        processing_time_ms: Math.max(0, ...matched.map(persona => persona.latencyMs)),
+      },
+    }));
+  });
+
+  app.get('/api/v2/status', (req, res) => res.json({ status: 'ok' }));
+
+  // ComplyAdvantage: POST /searches { search_term, filters }
+  app.post('/searches', (req, res) => {
+    const subjectType = req.body?.filters?.entity_type === 'company' ? 'entity' : undefined;
+    const matched = find(String(req.body?.search_term || ''), subjectType);
+    return respond('complyadvantage', matched, res, () => ({
+      hits: matched.map((persona, i) => ({
+        doc: {
+          id: `mock-ca-${slug(persona.name)}-${i}`,
+          name: persona.name,
+          sources: persona.lists,
+          aka: persona.aliases.map(name => ({ name })),
+          fields: [
+            ...(persona.birthDate ? [{ name: 'Date of Birth', value: persona.birthDate }] : []),
+            ...persona.countries.map(value => ({ name: 'Nationality', value })),
+          ],
+        },
+        types: [
+          ...(persona.sanctioned ? ['sanction'] : []),
+          ...(persona.pep ? ['pep'] : []),
+          ...(persona.adverseMedia.length > 0 ? ['adverse-media'] : []),
+        ],
+      })),
+    }));
+  });
+
+  // NewsAPI: GET /v2/everything?q="<name>" AND (...)
+  app.get('/v2/everything', (req, res) => {
+    const quoted = String(req.query.q || '').match(/"([^"]+)"/);
+    const matched = find(quoted ? quoted[1] : String(req.query.q || ''));
+    const articles = matched.flatMap(persona => persona.adverseMedia.map((article, i) => ({
+      source: { id: null, name: 'Mock News' },
+      title: article.title,
+      description: article.description,
+      url: `https://news.example.com/${slug(persona.name)}/${i}`,
+      publishedAt: new Date(Date.now() - (i + 1) * 30 * 24 * 60 * 60 * 1000).toISOString(),
+    })));
+    return respond('newsapi', matched, res, () => ({ status: 'ok', totalResults: articles.length, articles }));
+  });
+
+  // Scripting: inspect, replace or extend the personas while the server runs
+  app.get('/__personas', (req, res) => res.json(personas));
+  app.put('/__personas', (req, res, next) => {
+    try {
+      personas = z.array(personaSchema).parse(req.body);
+      res.json({ personas: personas.length });
+    } catch (error) {
+      next(error);
+    }
+  });
+  app.post('/__personas', (req, res, next) => {
+    try {
+      personas = [...personas, personaSchema.parse(req.body)];
+      res.status(201).json({ personas: personas.length });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.use((error: unknown, req: Request, res: Response, _next: NextFunction) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation failed", details: error.errors });
+    }
+    logger.error({ error }, "Mock provider request failed");
+    res.status(500).json({ error: "Mock provider request failed" });
+  });
+
+  return app;
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const args = process.argv.slice(2);
+  const option = (flag: string) => {
+    const index = args.indexOf(flag);
+    return index !== -1 ? args[index + 1] : undefined;
+  };
+
+  if (args.includes('--help')) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+
+  const port = parseInt(option('--port') || process.env.MOCK_PROVIDERS_PORT || '4010', 10);
+  const personas = loadPersonas(option('--personas') || process.env.MOCK_PROVIDERS_PERSONAS || DEFAULT_PERSONAS_FILE);
+
+  createMockProviderServer(personas).listen(port, () => {
+    const base = `http://localhost:${port}`;
+    console.log(`✅ Mock providers listening on ${base} with ${personas.length} personas`);
+    console.log([
+      `OPEN_SANCTIONS_BASE_URL=${base}`,
+      `SEON_API_URL=${base} SEON_API_KEY=mock`,
+      `AMLBOT_API_URL=${base} AMLBOT_API_KEY=mock`,
+      `COMPLYADVANTAGE_BASE_URL=${base} COMPLYADVANTAGE_API_KEY=mock`,
+      `NEWSAPI_BASE_URL=${base}/v2 NEWSAPI_API_KEY=mock FEATURE_MEDIA_PROVIDER=newsapi`,
+    ].join('\n'));
+  });
+}
@@ -0,0 +1,144 @@
+import { and, eq, like, or } from "drizzle-orm";
+import { db } from "../lib/database";
+import { riskDataCache } from "@shared/schema";
+import { createChildLogger } from "../lib/logger";
+
+const logger = createChildLogger('country-baseline-service');
+
+// Worldwide Governance Indicators cached by ExternalDataService, as `${indicator}_${year}` rows
+export const DEFAULT_BASELINE_WEIGHTS: Record<string, number> = {
+  'CC.EST': 0.25, // Control of Corruption
+  'RL.EST': 0.25, // Rule of Law
+  'PV.EST': 0.2, // Political Stability and Absence of Violence
+  'GE.EST': 0.1, // Government Effectiveness
+  'RQ.EST': 0.1, // Regulatory Quality
+  'VA.EST': 0.1, // Voice and Accountability
+};
+
+// WGI estimates are published with a lag, so the last two years count as current
+const CURRENT_YEARS = 2;
+const FRESHNESS_DECAY_PER_YEAR = 0.2;
+const MIN_FRESHNESS = 0.2;
+// Rows past their cache expiry are still used, at a discount, until the next sync replaces them
+const EXPIRED_DISCOUNT = 0.5;
+
+export interface BaselineIndicator {
+  indicator: string;
+  year: number;
+  score: number; // 0-100 risk
+  weight: number; // configured share of the composite
+  confidence: number; // 0-100, from the cached row
+  freshness: number; // 0-1
+  stale: boolean; // cache entry past its expiry
+}
+
+export interface CountryBaseline {
+  score: number; // 0-100
+  confidence: number; // 0-100: coverage of the configured weights, discounted for age and source confidence
+  coverage: number; // 0-1 share of the configured weight with data
+  stale: boolean;
+  indicators: BaselineIndicator[];
+}
+
+// "CC.EST=0.3,RL.EST=0.3,PV.EST=0.4"; entries that don't parse are ignored
+export function parseBaselineWeights(value: string | undefined): Record<string, number> {
+  if (!value?.trim()) return DEFAULT_BASELINE_WEIGHTS;
+
+  const weights: Record<string, number> = {};
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [indicator, rawWeight] = entry.split('=').map(part => part.trim());
+    const weight = Number(rawWeight);
+    if (!indicator || !Number.isFinite(weight) || weight <= 0) {
+      logger.warn({ entry }, 'Ignoring invalid COUNTRY_BASELINE_WEIGHTS entry');
+      continue;
+    }
+    weights[indicator] = weight;
+  }
+  return Object.keys(weights).length > 0 ? weights : DEFAULT_BASELINE_WEIGHTS;
+}
+
+/**
+ * Country baseline risk as a weighted composite of the governance indicators
+ * in the external data cache. Each indicator's weight is discounted by the age
+ * of its data and the confidence of its source; too little coverage means no
+ * baseline, and the caller falls back to its static table.
+ */
+export class CountryBaselineService {
+  private readonly weights: Record<string, number>;
+  private readonly minCoverage: number;
+
+  constructor() {
+    this.weights = parseBaselineWeights(process.env.COUNTRY_BASELINE_WEIGHTS);
+    this.minCoverage = parseFloat(process.env.COUNTRY_BASELINE_MIN_COVERAGE || '0.5');
+  }
+
+  getWeights(): Record<string, number> {
+    return this.weights;
+  }
+
+  async getBaseline(countryIso: string, now: Date = new Date()): Promise<CountryBaseline | null> {
+    const country = countryIso.toUpperCase();
+    const indicators = Object.keys(this.weights);
+
+    const rows = await db
+      .select({
+        dataKey: riskDataCache.dataKey,
+        score: riskDataCache.score,
+        confidence: riskDataCache.confidence,
+        expiresAt: riskDataCache.expiresAt,
+      })
+      .from(riskDataCache)
+      .where(and(
+        eq(riskDataCache.country, country),
+        or(...indicators.map(indicator => like(riskDataCache.dataKey, `${indicator}_%`)))
+      ));
+
+    // Latest year per indicator; older years stay in the cache until they are replaced
+    const latest = new Map<string, BaselineIndicator>();
+    for (const row of rows) {
+      const separator = row.dataKey.lastIndexOf('_');
+      const indicator = row.dataKey.slice(0, separator);
+      const year = parseInt(row.dataKey.slice(separator + 1), 10);
+      if (!(indicator in this.weights) || !Number.isFinite(year) || row.score === null) continue;
+      if ((latest.get(indicator)?.year ?? -Infinity) >= year) continue;
+
+      const stale = row.expiresAt <= now;
+      const age = Math.max(0, now.getUTCFullYear() - year - CURRENT_YEARS);
+      const freshness = Math.max(MIN_FRESHNESS, 1 - age * FRESHNESS_DECAY_PER_YEAR) * (stale ? EXPIRED_DISCOUNT : 1);
+      latest.set(indicator, {
+        indicator,
+        year,
+        score: row.score,
+        weight: this.weights[indicator],
+        confidence: row.confidence ?? 100,
+        freshness: Math.round(freshness * 100) / 100,
+        stale,
+      });
+    }
+
+    const found = Array.from(latest.values());
+    const totalWeight = Object.values(this.weights).reduce((sum, weight) => sum + weight, 0);
+    const coverage = found.reduce((sum, item) => sum + item.weight, 0) / totalWeight;
+
+    if (found.length === 0 || coverage < this.minCoverage) {
+      logger.info({ countryIso: country, indicatorsFound: found.length, coverage }, 'Not enough cached indicators for a country baseline');
+      return null;
+    }
+
+    const effectiveWeight = (item: BaselineIndicator) => item.weight * item.freshness * item.confidence / 100;
+    const effectiveTotal = found.reduce((sum, item) => sum + effectiveWeight(item), 0);
+    if (effectiveTotal === 0) return null;
+
+    const score = found.reduce((sum, item) => sum + item.score * effectiveWeight(item), 0) / effectiveTotal;
+
+    return {
+      score: Math.round(score),
+      confidence: Math.round(100 * effectiveTotal / totalWeight),
+      coverage: Math.round(coverage * 100) / 100,
+      stale: found.some(item => item.stale),
+      indicators: found,
+    };
+  }
+}
+
+export const countryBaselineService = new CountryBaselineService();
@@ -0,0 +1,255 @@
+import { createHash } from "crypto";
+import { eq, asc } from "drizzle-orm";
+import { db } from "../lib/database";
+import { createChildLogger } from "../lib/logger";
+import { fieldEncryption, FieldEncryption } from "../lib/field-encryption";
+import { normalizeName } from "../providers/sanctions/nameMatching";
+import type { CachedResponse } from "./provider-cache-service";
+import { providerEvidence, riskScores, auditLogs, ProviderEvidence } from "@shared/schema";
+
+const logger = createChildLogger('evidence-store-service');
+
+export type ProviderCategory = 'sanctions' | 'adverse_media';
+
+// One provider call made while assessing a contractor, before it is persisted
+export interface ProviderCallRecord {
+  category: ProviderCategory;
+  role: 'primary' | 'fallback';
+  provider: string;
+  providerVersion: string | null;
+  requestId: string | null;
+  status: 'success' | 'error';
+  latencyMs: number;
+  cached: boolean; // served from the provider response cache
+  fetchedAt: Date | null; // when the provider produced the response; null when the call failed
+  response: unknown;
+  error: string | null;
+  requestedAt: Date;
+}
+
+export type StoredEvidence = ProviderEvidence & {
+  integrity?: 'verified' | 'mismatch' | 'unverifiable';
+};
+
+// API versions the adapters are written against, taken from the endpoints they call
+const PROVIDER_VERSIONS: Record<string, string> = {
+  seon: 'v1',
+  amlbot: 'v2',
+  newsapi: 'v2',
+};
+
+// Keys whose values identify a person, compared lowercase without separators
+const PII_KEYS = new Set([
+  'name', 'names', 'caption', 'alias', 'aliases', 'firstname', 'middlename', 'lastname', 'fullname',
+  'searchterm', 'query', 'querynormalized', 'birthdate', 'dateofbirth', 'dob', 'birthplace', 'placeofbirth',
+  'nationality', 'address', 'addresses', 'email', 'phone', 'idnumber', 'passportnumber', 'taxnumber',
+]);
+
+const isPiiKey = (key: string) => PII_KEYS.has(key.toLowerCase().replace(/[_\-\s]/g, ''));
+
+/**
+ * Keeps the raw response of every provider call behind a risk score so the
+ * assessment can be reconstructed after the provider's data has changed.
+ * Values under PII keys, and any other string that mentions a screened
+ * person, are encrypted field by field; the rest stays queryable as JSON.
+ */
+export class EvidenceStoreService {
+  constructor(private readonly encryption: FieldEncryption = fieldEncryption) {}
+
+  // Times a provider call and appends its outcome to `calls`; errors are recorded and rethrown
+  async capture<T>(
+    calls: ProviderCallRecord[],
+    call: { category: ProviderCategory; provider: string; role?: 'primary' | 'fallback' },
+    run: () => Promise<T>
+  ): Promise<T> {
+    return this.captureCached(calls, call, async () => ({
+      value: await run(),
+      cached: false,
+      fetchedAt: new Date().toISOString(),
+    }));
+  }
+
+  // Same, for a call made through the provider cache: a hit is recorded as cached, with the original fetch time
+  async captureCached<T>(
+    calls: ProviderCallRecord[],
+    call: { category: ProviderCategory; provider: string; role?: 'primary' | 'fallback' },
+    run: () => Promise<CachedResponse<T>>
+  ): Promise<T> {
+    const requestedAt = new Date();
+    const startTime = Date.now();
+    const base = { category: call.category, role: call.role || 'primary', requestedAt };
+
+    try {
+      const { value: response, cached, fetchedAt } = await run();
+      const metadata = (response as any)?.metadata;
+      const provider = metadata?.provider || call.provider;
+      calls.push({
+        ...base,
+        provider,
+        providerVersion: metadata?.apiVersion || PROVIDER_VERSIONS[provider] || null,
+        requestId: metadata?.requestId || (response as any)?.details?.requestId || null,
+        status: 'success',
+        latencyMs: Date.now() - startTime,
+        cached,
+        fetchedAt: new Date(fetchedAt),
+        response,
+        error: null,
+      });
+      return response;
+    } catch (error) {
+      calls.push({
+        ...base,
+        provider: call.provider,
+        providerVersion: PROVIDER_VERSIONS[call.provider] || null,
+        requestId: null,
+        status: 'error',
+        latencyMs: Date.now() - startTime,
+        cached: false,
+        fetchedAt: null,
+        response: null,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  async persist(
+    riskScoreId: string,
+    calls: ProviderCallRecord[],
+    subject: { name: string; email?: string; relatedNames?: string[] } // relatedNames: e.g. beneficial owners
+  ): Promise<number> {
+    if (calls.length === 0) return 0;
+
+    const terms = [subject.name, subject.email, ...(subject.relatedNames || [])]
+      .filter((term): term is string => !!term)
+      .map(term => normalizeName(term))
+      .filter(term => term.length >= 3);
+
+    const rows = calls.map(call => {
+      const hasResponse = call.response !== null && call.response !== undefined;
+      return {
+        riskScoreId,
+        category: call.category,
+        role: call.role,
+        provider: call.provider,
+        providerVersion: call.providerVersion,
+        requestId: call.requestId,
+        status: call.status,
+        latencyMs: call.latencyMs,
+        cached: call.cached,
+        fetchedAt: call.fetchedAt,
+        response: hasResponse ? this.protect(call.response, terms) : null,
+        responseHash: hasResponse ? this.hash(call.response) : null,
+        error: call.error,
+        encryption: this.encryption.enabled ? 'aes-256-gcm' : 'redacted',
+        encryptionKeyId: this.encryption.keyId,
+        requestedAt: call.requestedAt,
+      };
+    });
+
+    // A storage failure is logged but never fails the assessment it belongs to
+    try {
+      await db.insert(providerEvidence).values(rows);
+    } catch (error) {
+      logger.error({ error, riskScoreId, records: rows.length }, 'Failed to store provider evidence');
+      return 0;
+    }
+
+    logger.info({ riskScoreId, records: rows.length }, 'Provider evidence stored');
+    return rows.length;
+  }
+
+  // Returns undefined when the risk score does not exist; PII stays encrypted
+  async getEvidence(riskScoreId: string): Promise<StoredEvidence[] | undefined> {
+    if (!(await this.riskScoreExists(riskScoreId))) return undefined;
+
+    return db
+      .select()
+      .from(providerEvidence)
+      .where(eq(providerEvidence.riskScoreId, riskScoreId))
+      .orderBy(asc(providerEvidence.requestedAt));
+  }
+
+  // Decrypted evidence for an audit or dispute; every reveal is audit-logged
+  async revealEvidence(riskScoreId: string, actor: string): Promise<StoredEvidence[] | undefined> {
+    const records = await this.getEvidence(riskScoreId);
+    if (!records) return undefined;
+
+    const revealed = records.map(record => {
+      if (record.response === null) return record;
+      const response = this.reveal(record.response);
+      return {
+        ...record,
+        response,
+        integrity: record.encryption === 'redacted' || !record.responseHash
+          ? 'unverifiable' as const
+          : this.hash(response) === record.responseHash ? 'verified' as const : 'mismatch' as const,
+      };
+    });
+
+    await db.insert(auditLogs).values({
+      actor,
+      action: 'evidence_decrypted',
+      entity: 'risk_score',
+      entityId: riskScoreId,
+      diff: { records: records.map(record => record.id) },
+    });
+
+    logger.info({ riskScoreId, actor, records: records.length }, 'Provider evidence decrypted');
+    return revealed;
+  }
+
+  private protect(value: unknown, terms: string[], piiContext = false): unknown {
+    if (piiContext) return this.encryption.encrypt(JSON.stringify(value));
+
+    if (typeof value === 'string') {
+      const normalized = normalizeName(value);
+      return terms.some(term => normalized.includes(term))
+        ? this.encryption.encrypt(JSON.stringify(value))
+        : value;
+    }
+    if (Array.isArray(value)) return value.map(item => this.protect(item, terms));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+        key,
+        item === null || item === undefined ? item : this.protect(item, terms, isPiiKey(key)),
+      ]));
+    }
+    return value;
+  }
+
+  private reveal(value: unknown): unknown {
+    if (FieldEncryption.isEncrypted(value)) return JSON.parse(this.encryption.decrypt(value));
+    if (Array.isArray(value)) return value.map(item => this.reveal(item));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.reveal(item)]));
+    }
+    return value;
+  }
+
+  // Round-trips through JSON first so the hash matches what is read back from jsonb
+  private hash(value: unknown): string {
+    return createHash('sha256').update(this.canonicalize(JSON.parse(JSON.stringify(value)))).digest('hex');
+  }
+
+  // jsonb does not preserve key order, so keys are sorted before hashing
+  private canonicalize(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(item => this.canonicalize(item)).join(',')}]`;
+    if (value && typeof value === 'object') {
+      const entries = Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+      return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${this.canonicalize(item)}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+  }
+
+  private async riskScoreExists(riskScoreId: string): Promise<boolean> {
+    const [row] = await db
+      .select({ id: riskScores.id })
+      .from(riskScores)
+      .where(eq(riskScores.id, riskScoreId))
+      .limit(1);
+    return !!row;
+  }
+}
+
+export const evidenceStoreService = new EvidenceStoreService();
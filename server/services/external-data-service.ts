@@ -1,4 +1,4 @@
-import { eq, desc, asc, like, and, or, sql } from "drizzle-orm";
+import { eq, desc, asc, like, and, or, sql, isNull } from "drizzle-orm";
 import { db } from "../lib/database";
 import {
   externalDataSources,
@@ -10,6 +10,7 @@ import {
   InsertRiskDataCache,
 } from "@shared/schema";
 import { createChildLogger } from "../lib/logger";
+import { riskDataFileImportService, wgiEstimateToRisk, RISK_DATASETS, LocalDataSourceConfig } from "./risk-data-file-import";
 import fetch from 'node-fetch';
 
 const logger = createChildLogger('external-data-service');
@@ -378,11 +379,22 @@ export class ExternalDataService {
     return recordsUpdated;
   }
 
+  // Re-imports the downloaded files listed in the source's apiConfig (see risk-data-file-import)
   private async syncLocalRegulatoryData(source: ExternalDataSource): Promise<number> {
-    // This would integrate with local regulatory APIs
-    // Implementation would depend on specific country's regulatory data APIs
-    logger.info({ sourceId: source.id }, 'Local regulatory data sync not implemented');
-    return 0;
+    const config = source.apiConfig as Partial<LocalDataSourceConfig>;
+    if (!config.files || config.files.length === 0) {
+      logger.warn({ sourceId: source.id }, 'Local regulatory data source has no files configured');
+      return 0;
+    }
+
+    let recordsUpdated = 0;
+    for (const file of config.files) {
+      const result = await riskDataFileImportService.importFile(file.dataset, file.path, { dataSourceId: source.id });
+      if (!result.skipped) {
+        recordsUpdated += result.recordsImported;
+      }
+    }
+    return recordsUpdated;
   }
 
   private async makeRateLimitedRequest(
@@ -440,13 +452,14 @@ export class ExternalDataService {
   }
 
   private async cacheRiskData(data: InsertRiskDataCache): Promise<void> {
-    // Remove existing cache entry for the same data key
+    // Remove existing cache entry for the same data key and country
     await db
       .delete(riskDataCache)
       .where(
         and(
           eq(riskDataCache.dataSourceId, data.dataSourceId),
-          eq(riskDataCache.dataKey, data.dataKey)
+          eq(riskDataCache.dataKey, data.dataKey),
+          data.country ? eq(riskDataCache.country, data.country) : isNull(riskDataCache.country)
         )
       );
 
@@ -466,7 +479,7 @@ export class ExternalDataService {
       case 'RQ.EST': // Regulatory Quality
       case 'VA.EST': // Voice and Accountability
         // Convert -2.5 to 2.5 scale to 100 to 0 risk scale (higher governance = lower risk)
-        return Math.max(0, Math.min(100, (2.5 - value) * 20));
+        return wgiEstimateToRisk(value);
       
       case 'NY.GDP.PCAP.CD': // GDP per capita (higher GDP = lower risk)
         // Normalize GDP to risk scale (simplified)
@@ -491,6 +504,16 @@ export class ExternalDataService {
   }
 
   private async validateDataSourceConfig(sourceData: InsertExternalDataSource): Promise<void> {
+    // File-backed sources have nothing to reach over the network
+    if (sourceData.provider === 'local_regulatory') {
+      const files = (sourceData.apiConfig as Partial<LocalDataSourceConfig>).files;
+      const invalid = (files || []).filter(file => !RISK_DATASETS.includes(file.dataset) || !file.path);
+      if (!files || files.length === 0 || invalid.length > 0) {
+        throw new Error(`Local regulatory sources need files: [{ dataset: ${RISK_DATASETS.join(' | ')}, path }]`);
+      }
+      return;
+    }
+
     const config = sourceData.apiConfig as DataSourceConfig;
     
     if (!config.baseUrl) {
@@ -0,0 +1,128 @@
+import { storage, type ContractorHistoryEntry } from "../storage";
+import { createChildLogger } from "../lib/logger";
+import { matchAdjudicationService } from "./match-adjudication-service";
+
+const logger = createChildLogger('internal-history-service');
+
+export interface InternalHistorySignals {
+  priorAssessments: number;
+  priorHighTier: number;
+  priorMediumTier: number;
+  confirmedHits: number;
+  escalatedHits: number;
+  clearedHits: number;
+  reEngagements: number; // separate onboardings in the last year, excluding the first
+  lastAssessedDaysAgo: number | null;
+  tierComponent: number;
+  adjudicationComponent: number;
+  reEngagementComponent: number;
+}
+
+export interface InternalHistoryResult {
+  score: number; // 0-100
+  signals: InternalHistorySignals;
+}
+
+// Neutral score for a contractor we have never assessed before
+const NO_HISTORY_SCORE = 10;
+// Older events count for half as much every HALF_LIFE_DAYS
+const HALF_LIFE_DAYS = 180;
+const HISTORY_LIMIT = 100;
+const TIER_POINTS: Record<string, number> = { low: 10, medium: 50, high: 90 };
+const DECISION_POINTS: Record<string, number> = { confirmed: 60, escalated: 25, false_positive: 0 };
+const RE_ENGAGEMENT_POINTS = 5;
+const RE_ENGAGEMENT_CAP = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Scores a contractor from our own records: earlier assessments of the same
+ * person (country + normalized name) or registration ID, reviewer decisions on
+ * their sanctions hits, and how often they have been onboarded again.
+ */
+export class InternalHistoryService {
+  async score(
+    contractorName: string,
+    countryIso: string,
+    registrationId?: string,
+    now: Date = new Date()
+  ): Promise<InternalHistoryResult> {
+    const history = await this.getHistory(contractorName, countryIso, registrationId);
+
+    if (history.length === 0) {
+      return { score: NO_HISTORY_SCORE, signals: this.emptySignals() };
+    }
+
+    const decay = (date: Date) => Math.pow(0.5, Math.max(0, now.getTime() - date.getTime()) / DAY_MS / HALF_LIFE_DAYS);
+
+    // Recency-weighted average of the tiers we previously assigned
+    const weights = history.map(entry => decay(entry.createdAt));
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    const tierComponent = totalWeight > 0
+      ? history.reduce((sum, entry, i) => sum + (TIER_POINTS[entry.tier] ?? 0) * weights[i], 0) / totalWeight
+      : 0;
+
+    // Reviewer decisions on this person's sanctions hits, across every name they were screened under
+    const keys = Array.from(new Set(history
+      .filter(entry => entry.contractorName)
+      .map(entry => matchAdjudicationService.contractorKey(entry.contractorName!, countryIso))));
+    const decisionsByContractor = await matchAdjudicationService.getLatestDecisionsFor(keys);
+    const decisions = Array.from(decisionsByContractor.values()).flatMap(latest => Array.from(latest.values()));
+    const adjudicationComponent = Math.min(100, decisions.reduce(
+      (sum, decision) => sum + (DECISION_POINTS[decision.decision] ?? 0) * decay(decision.createdAt), 0
+    ));
+
+    // Every manual check is a fresh onboarding; re-screens reuse the contractor
+    const yearAgo = now.getTime() - 365 * DAY_MS;
+    const engagements = new Set(history
+      .filter(entry => entry.trigger === 'manual' && entry.createdAt.getTime() >= yearAgo)
+      .map(entry => entry.contractorId));
+    const reEngagements = Math.max(0, engagements.size - 1);
+    const reEngagementComponent = Math.min(RE_ENGAGEMENT_CAP, reEngagements * RE_ENGAGEMENT_POINTS);
+
+    const score = Math.min(100, Math.round(tierComponent * 0.7 + adjudicationComponent + reEngagementComponent));
+
+    const signals: InternalHistorySignals = {
+      priorAssessments: history.length,
+      priorHighTier: history.filter(entry => entry.tier === 'high').length,
+      priorMediumTier: history.filter(entry => entry.tier === 'medium').length,
+      confirmedHits: decisions.filter(d => d.decision === 'confirmed').length,
+      escalatedHits: decisions.filter(d => d.decision === 'escalated').length,
+      clearedHits: decisions.filter(d => d.decision === 'false_positive').length,
+      reEngagements,
+      lastAssessedDaysAgo: Math.floor((now.getTime() - history[0].createdAt.getTime()) / DAY_MS),
+      tierComponent: Math.round(tierComponent),
+      adjudicationComponent: Math.round(adjudicationComponent),
+      reEngagementComponent,
+    };
+
+    logger.debug({ countryIso, score, ...signals }, 'Internal history scored');
+
+    return { score, signals };
+  }
+
+  emptySignals(): InternalHistorySignals {
+    return {
+      priorAssessments: 0,
+      priorHighTier: 0,
+      priorMediumTier: 0,
+      confirmedHits: 0,
+      escalatedHits: 0,
+      clearedHits: 0,
+      reEngagements: 0,
+      lastAssessedDaysAgo: null,
+      tierComponent: 0,
+      adjudicationComponent: 0,
+      reEngagementComponent: 0,
+    };
+  }
+
+  // Same normalized name or registration ID, matched in SQL before the limit
+  private async getHistory(contractorName: string, countryIso: string, registrationId?: string): Promise<ContractorHistoryEntry[]> {
+    return storage.getContractorHistory(contractorName, countryIso, {
+      registrationId,
+      limit: HISTORY_LIMIT,
+    });
+  }
+}
+
+export const internalHistoryService = new InternalHistoryService();
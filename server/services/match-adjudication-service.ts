@@ -0,0 +1,290 @@
+import { eq, desc, gte, inArray } from "drizzle-orm";
+import { db } from "../lib/database";
+import {
+  matchDecisions,
+  riskScores,
+  contractors,
+  countries,
+  auditLogs,
+  MatchDecision,
+  MatchDecisionInput,
+  SanctionsHit,
+} from "@shared/schema";
+import { createChildLogger } from "../lib/logger";
+import { NotFoundError } from "../middleware/error-handler";
+import { normalizeName } from "../providers/sanctions/nameMatching";
+import type { SanctionsResult } from "../providers/sanctions/sanctionsFactory";
+import type { ConsensusMatch } from "../providers/sanctions/compositeAdapter";
+import type { ScreeningMatch } from "../providers/sanctions/screeningMatch";
+import type { SanctionsCheckResult } from "./risk-signals/types";
+
+const logger = createChildLogger('match-adjudication-service');
+
+export interface OpenHit {
+  riskScoreId: string;
+  contractorId: string;
+  contractorName: string | null;
+  countryIso: string;
+  assessedAt: Date;
+  hit: SanctionsHit;
+  latestDecision: MatchDecision | null; // set only for escalated hits
+}
+
+export interface SuppressedHit extends SanctionsHit {
+  decisionId: string;
+  reviewer: string;
+  decidedAt: Date;
+  notes: string | null;
+}
+
+const hitKey = (provider: string, entityId: string) => `${provider}:${entityId}`;
+
+export class MatchAdjudicationService {
+  // Contractor rows are created per check, so the same person is recognised by country + normalized name
+  contractorKey(contractorName: string, countryIso: string): string {
+    return `${countryIso.toUpperCase()}:${normalizeName(contractorName)}`;
+  }
+
+  // Hits on a contractor's company or its owners are decided for that party, not the contractor
+  subjectKey(hit: SanctionsHit, contractorName: string, countryIso: string): string {
+    return hit.party
+      ? this.contractorKey(hit.party.name, hit.party.countryIso)
+      : this.contractorKey(contractorName, countryIso);
+  }
+
+  /**
+   * Flatten an adapter result into one hit per provider entity. Composite
+   * results are expanded into the underlying providers' own matches.
+   */
+  extractHits(result: SanctionsResult): SanctionsHit[] {
+    const toHit = (match: ScreeningMatch): SanctionsHit => ({
+      provider: match.provider,
+      entityId: match.entityId,
+      name: match.name,
+      nameScore: match.nameScore,
+      // Stored hits keep their original 'sanctions' | 'pep' vocabulary; watchlist-only matches carry neither
+      categories: match.categories.flatMap(category =>
+        category === 'sanction' ? ['sanctions'] : category === 'pep' ? ['pep'] : []
+      ),
+      ...(match.matchReasons && { reasons: match.matchReasons }),
+    });
+
+    if (result.metadata.provider === 'composite') {
+      return (result.matches as ConsensusMatch[]).flatMap(entity => Object.values(entity.providerMatches).flat().map(toHit));
+    }
+
+    return result.matches.map(toHit);
+  }
+
+  // Latest decision per provider entity for one contractor
+  async getLatestDecisions(contractorKey: string): Promise<Map<string, MatchDecision>> {
+    const byContractor = await this.getLatestDecisionsFor([contractorKey]);
+    return byContractor.get(contractorKey) || new Map();
+  }
+
+  /**
+   * Drop hits a reviewer has cleared as false positives for this contractor and
+   * rescale the sanctions score to what is left. Suppressed hits are kept on the
+   * result (flagged) so the assessment shows what was cleared and by whom.
+   */
+  async applyDecisions(contractorKey: string, result: SanctionsCheckResult): Promise<SanctionsCheckResult> {
+    const hits: SanctionsHit[] = result.details?.hits || [];
+    if (hits.length === 0) return result;
+
+    const decisions = await this.getLatestDecisions(contractorKey);
+    const suppressedHits: SuppressedHit[] = [];
+    const annotatedHits = hits.map(hit => {
+      const decision = decisions.get(hitKey(hit.provider, hit.entityId));
+      if (decision?.decision !== 'false_positive') return hit;
+
+      suppressedHits.push({
+        ...hit,
+        suppressed: true,
+        decisionId: decision.id,
+        reviewer: decision.reviewer,
+        decidedAt: decision.createdAt,
+        notes: decision.notes,
+      });
+      return { ...hit, suppressed: true };
+    });
+
+    if (suppressedHits.length === 0) return result;
+
+    const remaining = annotatedHits.filter(hit => !hit.suppressed);
+    const bestScore = (list: SanctionsHit[]) => Math.max(0, ...list.map(hit => hit.nameScore ?? 1));
+    // Scale the provider's score by how much of the strongest name match survives
+    const riskScore = remaining.length === 0
+      ? 0
+      : Math.round(result.riskScore * Math.min(1, bestScore(remaining) / (bestScore(hits) || 1)));
+
+    logger.info({
+      contractorKey,
+      suppressed: suppressedHits.length,
+      remaining: remaining.length,
+      originalScore: result.riskScore,
+      riskScore
+    }, 'Suppressed previously cleared sanctions hits');
+
+    return {
+      ...result,
+      isSanctioned: remaining.some(hit => hit.categories.includes('sanctions')),
+      isPEP: remaining.some(hit => hit.categories.includes('pep')),
+      riskScore,
+      confidence: riskScore,
+      details: {
+        ...result.details,
+        hits: annotatedHits,
+        suppressedHits,
+        originalRiskScore: result.riskScore,
+      },
+    };
+  }
+
+  /**
+   * Hits from recent assessments with no final decision yet. Escalated hits stay
+   * open; the same hit seen on several assessments is listed once (latest).
+   */
+  async getOpenHits(sinceDays: number = 30): Promise<OpenHit[]> {
+    const since = new Date(Date.now() - sinceDays * 24 * 60 * 60 * 1000);
+
+    const assessments = await db
+      .select({
+        riskScoreId: riskScores.id,
+        contractorId: contractors.id,
+        contractorName: contractors.name,
+        countryIso: countries.iso,
+        assessedAt: riskScores.createdAt,
+        sanctionsHits: riskScores.sanctionsHits,
+      })
+      .from(riskScores)
+      .innerJoin(contractors, eq(riskScores.contractorId, contractors.id))
+      .innerJoin(countries, eq(contractors.countryId, countries.id))
+      .where(gte(riskScores.createdAt, since))
+      .orderBy(desc(riskScores.createdAt));
+
+    const withHits = assessments.filter(a => ((a.sanctionsHits as SanctionsHit[]) || []).length > 0);
+    const keys = Array.from(new Set(withHits.flatMap(a => (a.sanctionsHits as SanctionsHit[]).map(hit =>
+      this.subjectKey(hit, a.contractorName || '', a.countryIso)
+    ))));
+    const decisionsByContractor = await this.getLatestDecisionsFor(keys);
+
+    const seen = new Set<string>();
+    const openHits: OpenHit[] = [];
+
+    for (const assessment of withHits) {
+      for (const hit of assessment.sanctionsHits as SanctionsHit[]) {
+        const subjectKey = this.subjectKey(hit, assessment.contractorName || '', assessment.countryIso);
+        const key = `${subjectKey}|${hitKey(hit.provider, hit.entityId)}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const decision = decisionsByContractor.get(subjectKey)?.get(hitKey(hit.provider, hit.entityId)) || null;
+        if (decision && decision.decision !== 'escalated') continue;
+
+        openHits.push({
+          riskScoreId: assessment.riskScoreId,
+          contractorId: assessment.contractorId,
+          contractorName: assessment.contractorName,
+          countryIso: assessment.countryIso,
+          assessedAt: assessment.assessedAt,
+          hit,
+          latestDecision: decision,
+        });
+      }
+    }
+
+    return openHits;
+  }
+
+  async recordDecision(input: MatchDecisionInput): Promise<MatchDecision> {
+    const [assessment] = await db
+      .select({
+        riskScoreId: riskScores.id,
+        contractorId: contractors.id,
+        contractorName: contractors.name,
+        countryIso: countries.iso,
+        sanctionsHits: riskScores.sanctionsHits,
+      })
+      .from(riskScores)
+      .innerJoin(contractors, eq(riskScores.contractorId, contractors.id))
+      .innerJoin(countries, eq(contractors.countryId, countries.id))
+      .where(eq(riskScores.id, input.riskScoreId))
+      .limit(1);
+
+    if (!assessment) {
+      throw new NotFoundError('Risk score not found');
+    }
+
+    const hit = (assessment.sanctionsHits as SanctionsHit[]).find(
+      h => h.provider === input.provider && h.entityId === input.providerEntityId
+    );
+    if (!hit) {
+      throw new NotFoundError('Sanctions hit not found on this risk score');
+    }
+
+    const [decision] = await db
+      .insert(matchDecisions)
+      .values({
+        contractorId: assessment.contractorId,
+        contractorKey: this.subjectKey(hit, assessment.contractorName || '', assessment.countryIso),
+        riskScoreId: assessment.riskScoreId,
+        provider: input.provider,
+        providerEntityId: input.providerEntityId,
+        matchedName: hit.name,
+        decision: input.decision,
+        notes: input.notes,
+        reviewer: input.reviewer,
+      })
+      .returning();
+
+    await db.insert(auditLogs).values({
+      actor: input.reviewer,
+      action: 'sanctions_match_decision',
+      entity: 'match_decision',
+      entityId: decision.id,
+      diff: {
+        riskScoreId: input.riskScoreId,
+        provider: input.provider,
+        providerEntityId: input.providerEntityId,
+        decision: input.decision,
+      },
+    });
+
+    logger.info({
+      decisionId: decision.id,
+      riskScoreId: input.riskScoreId,
+      provider: input.provider,
+      decision: input.decision
+    }, 'Sanctions match decision recorded');
+
+    return decision;
+  }
+
+  async getDecisions(contractorId?: string): Promise<MatchDecision[]> {
+    const query = db.select().from(matchDecisions);
+    const filtered = contractorId ? query.where(eq(matchDecisions.contractorId, contractorId)) : query;
+    return filtered.orderBy(desc(matchDecisions.createdAt));
+  }
+
+  // Latest decision per provider entity, grouped by contractor key
+  async getLatestDecisionsFor(contractorKeys: string[]): Promise<Map<string, Map<string, MatchDecision>>> {
+    const byContractor = new Map<string, Map<string, MatchDecision>>();
+    if (contractorKeys.length === 0) return byContractor;
+
+    const decisions = await db
+      .select()
+      .from(matchDecisions)
+      .where(inArray(matchDecisions.contractorKey, contractorKeys))
+      .orderBy(desc(matchDecisions.createdAt));
+
+    for (const decision of decisions) {
+      const latest = byContractor.get(decision.contractorKey) || new Map<string, MatchDecision>();
+      const key = hitKey(decision.provider, decision.providerEntityId);
+      if (!latest.has(key)) latest.set(key, decision);
+      byContractor.set(decision.contractorKey, latest);
+    }
+    return byContractor;
+  }
+}
+
+export const matchAdjudicationService = new MatchAdjudicationService();
@@ -0,0 +1,399 @@
+import { readFile } from "fs/promises";
+import { fileURLToPath } from "url";
+import { eq, lt, count, sql } from "drizzle-orm";
+import { XMLParser } from "fast-xml-parser";
+import { db } from "../lib/database";
+import { mediaFeeds, mediaArticles, MediaFeed, InsertMediaArticle } from "@shared/schema";
+import { createChildLogger } from "../lib/logger";
+import { BadRequestError } from "../middleware/error-handler";
+import { normalizeName } from "../providers/sanctions/nameMatching";
+
+const logger = createChildLogger('media-feed-ingestion');
+
+export interface MediaFeedConfig {
+  name: string;
+  url: string; // http(s) feed URL, or a file: URL for a downloaded feed
+}
+
+export interface ParsedFeedArticle {
+  url: string;
+  title: string;
+  summary: string | null;
+  publishedAt: Date | null;
+}
+
+export interface FeedIngestResult {
+  feed: string;
+  status: 'ok' | 'not_modified' | 'failed';
+  articlesParsed: number;
+  articlesAdded: number;
+  error?: string;
+}
+
+export interface MediaFeedRunSummary {
+  startedAt: string;
+  completedAt: string;
+  feeds: FeedIngestResult[];
+  articlesAdded: number;
+  articlesPruned: number;
+}
+
+export interface MediaFeedStatus extends MediaFeedConfig {
+  articles: number;
+  feed: MediaFeed | null; // null until the feed has been fetched once
+}
+
+const INSERT_BATCH_SIZE = 200;
+
+// RSS items, RDF items, Atom entries and links may appear once or many times
+const REPEATED_ELEMENTS = new Set(['item', 'entry', 'link']);
+
+const asArray = <T>(value: T | T[] | undefined | null): T[] =>
+  value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+
+// Elements with attributes (e.g. Atom `<title type="html">`) parse to objects holding the text
+const asText = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object') return asText((value as Record<string, unknown>)['#text']);
+  return String(value).trim();
+};
+
+// Feed summaries are usually HTML; only the words are searched and shown
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+const stripHtml = (html: string): string => html
+  .replace(/<[^>]*>/g, ' ')
+  .replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith('#')) {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  })
+  .replace(/\s+/g, ' ')
+  .trim();
+
+const toDate = (value: string): Date | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const hostOf = (url: string): string => {
+  try {
+    return new URL(url).hostname || url;
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * MEDIA_FEEDS is a comma-separated list of `name=url` pairs; a bare URL is
+ * named after its host.
+ */
+export function parseFeedConfig(value: string | undefined): MediaFeedConfig[] {
+  return (value || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.indexOf('=');
+      const named = separator > 0 && !entry.slice(0, separator).includes('://');
+      const url = named ? entry.slice(separator + 1).trim() : entry;
+      return { name: named ? entry.slice(0, separator).trim() : hostOf(url), url };
+    });
+}
+
+/**
+ * Pulls the configured RSS / Atom feeds into the local article store that
+ * LocalMediaProvider searches. Runs on a schedule; conditional requests keep
+ * unchanged feeds cheap, and articles are stored once per URL.
+ */
+export class MediaFeedIngestionService {
+  private readonly feeds: MediaFeedConfig[];
+  private readonly intervalMs: number;
+  private readonly timeoutMs: number;
+  private readonly retentionDays: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private lastRun: MediaFeedRunSummary | null = null;
+
+  private readonly xmlParser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    removeNSPrefix: true,
+    parseTagValue: false,
+    parseAttributeValue: false,
+    trimValues: true,
+    isArray: (name) => REPEATED_ELEMENTS.has(name),
+  });
+
+  constructor() {
+    this.feeds = parseFeedConfig(process.env.MEDIA_FEEDS);
+    this.intervalMs = parseInt(process.env.MEDIA_FEED_INTERVAL_MINUTES || '60', 10) * 60 * 1000;
+    this.timeoutMs = parseInt(process.env.MEDIA_FEED_TIMEOUT_MS || '15000', 10);
+    this.retentionDays = parseInt(process.env.MEDIA_ARTICLE_RETENTION_DAYS || '365', 10);
+  }
+
+  getConfiguredFeeds(): MediaFeedConfig[] {
+    return this.feeds;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    if (this.feeds.length === 0 || this.intervalMs <= 0) {
+      logger.info({ feeds: this.feeds.length }, 'Media feed scheduler disabled (no MEDIA_FEEDS or MEDIA_FEED_INTERVAL_MINUTES=0)');
+      return;
+    }
+
+    const run = () => this.runOnce().catch(error => logger.error({ error }, 'Scheduled media feed ingestion failed'));
+    this.timer = setInterval(run, this.intervalMs);
+    this.timer.unref();
+    // The store is empty on a fresh install, so don't wait a full interval for the first pull
+    run();
+
+    logger.info({
+      feeds: this.feeds.map(feed => feed.name),
+      intervalMinutes: this.intervalMs / 60000
+    }, 'Media feed scheduler started');
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getStatus() {
+    return {
+      scheduled: this.timer !== null,
+      running: this.running,
+      intervalMinutes: this.intervalMs / 60000,
+      retentionDays: this.retentionDays,
+      lastRun: this.lastRun,
+    };
+  }
+
+  /**
+   * Fetch every configured feed (or only those named) and prune articles past
+   * retention. Returns null when a run is already in progress.
+   */
+  async runOnce(feedNames?: string[]): Promise<MediaFeedRunSummary | null> {
+    if (this.running) return null;
+    this.running = true;
+    const startedAt = new Date().toISOString();
+
+    try {
+      const selected = feedNames?.length ? this.feeds.filter(feed => feedNames.includes(feed.name)) : this.feeds;
+      const unknown = (feedNames || []).filter(name => !this.feeds.some(feed => feed.name === name));
+      if (unknown.length > 0) {
+        throw new BadRequestError(`Unknown media feeds: ${unknown.join(', ')}. Configured: ${this.feeds.map(feed => feed.name).join(', ') || 'none'}`);
+      }
+
+      // One feed at a time; feeds are few and a slow one shouldn't hold many connections open
+      const feeds: FeedIngestResult[] = [];
+      for (const feed of selected) {
+        feeds.push(await this.ingestFeed(feed));
+      }
+      const articlesPruned = await this.pruneArticles();
+
+      const summary: MediaFeedRunSummary = {
+        startedAt,
+        completedAt: new Date().toISOString(),
+        feeds,
+        articlesAdded: feeds.reduce((sum, feed) => sum + feed.articlesAdded, 0),
+        articlesPruned,
+      };
+      this.lastRun = summary;
+      logger.info({
+        feeds: feeds.map(({ feed, status, articlesAdded }) => ({ feed, status, articlesAdded })),
+        articlesPruned
+      }, 'Media feed ingestion complete');
+      return summary;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  async ingestFeed(config: MediaFeedConfig): Promise<FeedIngestResult> {
+    const feed = await this.upsertFeed(config);
+
+    try {
+      const fetched = await this.fetchFeed(config.url, feed);
+      if (!fetched) {
+        await db
+          .update(mediaFeeds)
+          .set({ lastStatus: 'not_modified', lastError: null, lastFetchedAt: new Date() })
+          .where(eq(mediaFeeds.id, feed.id));
+        return { feed: config.name, status: 'not_modified', articlesParsed: 0, articlesAdded: 0 };
+      }
+
+      const articles = this.parseFeed(fetched.content);
+      let articlesAdded = 0;
+      for (let i = 0; i < articles.length; i += INSERT_BATCH_SIZE) {
+        const batch = articles
+          .slice(i, i + INSERT_BATCH_SIZE)
+          .map(article => this.toInsertArticle(feed.id, article));
+        const inserted = await db
+          .insert(mediaArticles)
+          .values(batch)
+          .onConflictDoNothing({ target: mediaArticles.url })
+          .returning({ id: mediaArticles.id });
+        articlesAdded += inserted.length;
+      }
+
+      await db
+        .update(mediaFeeds)
+        .set({
+          etag: fetched.etag,
+          lastModified: fetched.lastModified,
+          lastStatus: 'ok',
+          lastError: null,
+          lastFetchedAt: new Date(),
+          articlesIngested: sql`${mediaFeeds.articlesIngested} + ${articlesAdded}`,
+        })
+        .where(eq(mediaFeeds.id, feed.id));
+
+      logger.info({ feed: config.name, articlesParsed: articles.length, articlesAdded }, 'Media feed ingested');
+      return { feed: config.name, status: 'ok', articlesParsed: articles.length, articlesAdded };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await db
+        .update(mediaFeeds)
+        .set({ lastStatus: 'failed', lastError: message, lastFetchedAt: new Date() })
+        .where(eq(mediaFeeds.id, feed.id));
+
+      // One broken feed must not stop the others
+      logger.warn({ feed: config.name, error: message }, 'Media feed ingestion failed');
+      return { feed: config.name, status: 'failed', articlesParsed: 0, articlesAdded: 0, error: message };
+    }
+  }
+
+  async getFeedStatus(): Promise<MediaFeedStatus[]> {
+    const [rows, counts] = await Promise.all([
+      db.select().from(mediaFeeds),
+      db
+        .select({ feedId: mediaArticles.feedId, articles: count() })
+        .from(mediaArticles)
+        .groupBy(mediaArticles.feedId),
+    ]);
+
+    return this.feeds.map(config => {
+      const feed = rows.find(row => row.name === config.name) ?? null;
+      return {
+        ...config,
+        articles: feed ? counts.find(c => c.feedId === feed.id)?.articles ?? 0 : 0,
+        feed,
+      };
+    });
+  }
+
+  /**
+   * RSS 2.0, RSS 1.0 (RDF) or Atom. Entries without a link can't be cited as
+   * evidence and are skipped.
+   */
+  parseFeed(content: string): ParsedFeedArticle[] {
+    const document = this.xmlParser.parse(content);
+
+    let entries: ParsedFeedArticle[];
+    if (document.rss) {
+      entries = asArray(document.rss.channel?.item).map((item: any) => ({
+        url: asText(item.link?.[0]) || (item.guid?.['@_isPermaLink'] !== 'false' ? asText(item.guid) : ''),
+        title: stripHtml(asText(item.title)),
+        summary: stripHtml(asText(item.description)) || null,
+        publishedAt: toDate(asText(item.pubDate) || asText(item.date)),
+      }));
+    } else if (document.RDF) {
+      entries = asArray(document.RDF.item).map((item: any) => ({
+        url: asText(item.link?.[0]) || asText(item['@_about']),
+        title: stripHtml(asText(item.title)),
+        summary: stripHtml(asText(item.description)) || null,
+        publishedAt: toDate(asText(item.date)),
+      }));
+    } else if (document.feed) {
+      entries = asArray(document.feed.entry).map((entry: any) => {
+        const links = asArray(entry.link);
+        const link = links.find((l: any) => !l['@_rel'] || l['@_rel'] === 'alternate') ?? links[0];
+        return {
+          url: asText(link?.['@_href']),
+          title: stripHtml(asText(entry.title)),
+          summary: stripHtml(asText(entry.summary) || asText(entry.content)) || null,
+          publishedAt: toDate(asText(entry.published) || asText(entry.updated)),
+        };
+      });
+    } else {
+      throw new Error('Not an RSS or Atom feed');
+    }
+
+    return entries.filter(entry => entry.url && entry.title);
+  }
+
+  // A feed whose URL changed in MEDIA_FEEDS starts over without the old URL's validators
+  private async upsertFeed(config: MediaFeedConfig): Promise<MediaFeed> {
+    const [existing] = await db.select().from(mediaFeeds).where(eq(mediaFeeds.name, config.name));
+    if (!existing) {
+      const [created] = await db.insert(mediaFeeds).values({ name: config.name, url: config.url }).returning();
+      return created;
+    }
+    if (existing.url === config.url) return existing;
+
+    const [updated] = await db
+      .update(mediaFeeds)
+      .set({ url: config.url, etag: null, lastModified: null })
+      .where(eq(mediaFeeds.id, existing.id))
+      .returning();
+    return updated;
+  }
+
+  private async fetchFeed(
+    url: string,
+    previous: Pick<MediaFeed, 'etag' | 'lastModified'> | null
+  ): Promise<{ content: string; etag: string | null; lastModified: string | null } | null> {
+    if (url.startsWith('file:')) {
+      return { content: await readFile(fileURLToPath(url), 'utf8'), etag: null, lastModified: null };
+    }
+
+    const headers: Record<string, string> = {
+      'User-Agent': 'GCRC/1.0',
+      'Accept': 'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.8',
+    };
+    if (previous?.etag) headers['If-None-Match'] = previous.etag;
+    if (previous?.lastModified) headers['If-Modified-Since'] = previous.lastModified;
+
+    const response = await fetch(url, { headers, signal: AbortSignal.timeout(this.timeoutMs) });
+    if (response.status === 304) return null;
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+
+    return {
+      content: await response.text(),
+      etag: response.headers.get('etag'),
+      lastModified: response.headers.get('last-modified'),
+    };
+  }
+
+  private async pruneArticles(): Promise<number> {
+    if (this.retentionDays <= 0) return 0;
+    const cutoff = new Date(Date.now() - this.retentionDays * 24 * 60 * 60 * 1000);
+    const pruned = await db
+      .delete(mediaArticles)
+      .where(lt(mediaArticles.publishedAt, cutoff))
+      .returning({ id: mediaArticles.id });
+    return pruned.length;
+  }
+
+  private toInsertArticle(feedId: string, article: ParsedFeedArticle): InsertMediaArticle {
+    return {
+      feedId,
+      url: article.url,
+      title: article.title,
+      summary: article.summary,
+      searchText: normalizeName(`${article.title} ${article.summary || ''}`),
+      // Undated entries are treated as published when first seen
+      publishedAt: article.publishedAt ?? new Date(),
+    };
+  }
+}
+
+export const mediaFeedIngestionService = new MediaFeedIngestionService();
@@ -0,0 +1,126 @@
+import { eq } from "drizzle-orm";
+import { db } from "../lib/database";
+import {
+  paymentMethodPolicies,
+  countries,
+  auditLogs,
+  PaymentMethod,
+  PaymentMethodPolicy,
+  PaymentMethodPolicyInput,
+} from "@shared/schema";
+import { createChildLogger } from "../lib/logger";
+
+const logger = createChildLogger('payment-method-risk-service');
+
+export interface PaymentMethodRisk {
+  method: PaymentMethod;
+  score: number; // 0-100
+  baseScore: number;
+  crossBorder: boolean;
+  cryptoRestricted: boolean;
+  policySource: 'default' | 'country';
+}
+
+// Traceability of the payout channel, before any country policy is applied
+export const DEFAULT_METHOD_SCORES: Record<PaymentMethod, number> = {
+  ach: 5,
+  wire: 15,
+  paypal: 30,
+  crypto: 70,
+};
+
+const DEFAULT_POLICY = {
+  methodScores: {} as Partial<Record<PaymentMethod, number>>,
+  cryptoRestricted: false,
+  crossBorderMethods: [] as PaymentMethod[],
+  crossBorderSurcharge: 0,
+};
+
+export class PaymentMethodRiskService {
+  async assess(method: PaymentMethod, countryIso: string): Promise<PaymentMethodRisk> {
+    const policy = await this.getPolicy(countryIso);
+    const settings = policy ?? DEFAULT_POLICY;
+    const methodScores = settings.methodScores as Partial<Record<PaymentMethod, number>>;
+
+    const baseScore = methodScores[method] ?? DEFAULT_METHOD_SCORES[method];
+    const crossBorder = (settings.crossBorderMethods as PaymentMethod[]).includes(method);
+    const cryptoRestricted = method === 'crypto' && settings.cryptoRestricted;
+
+    // Paying out in crypto where it is restricted is the worst case regardless of the table
+    const score = cryptoRestricted
+      ? 100
+      : Math.min(100, baseScore + (crossBorder ? settings.crossBorderSurcharge : 0));
+
+    return {
+      method,
+      score,
+      baseScore,
+      crossBorder,
+      cryptoRestricted,
+      policySource: policy ? 'country' : 'default',
+    };
+  }
+
+  async getPolicy(countryIso: string): Promise<PaymentMethodPolicy | undefined> {
+    const [row] = await db
+      .select({ policy: paymentMethodPolicies })
+      .from(paymentMethodPolicies)
+      .innerJoin(countries, eq(paymentMethodPolicies.countryId, countries.id))
+      .where(eq(countries.iso, countryIso.toUpperCase()))
+      .limit(1);
+
+    return row?.policy;
+  }
+
+  async getPolicies(): Promise<Array<PaymentMethodPolicy & { countryIso: string }>> {
+    const rows = await db
+      .select({ policy: paymentMethodPolicies, countryIso: countries.iso })
+      .from(paymentMethodPolicies)
+      .innerJoin(countries, eq(paymentMethodPolicies.countryId, countries.id))
+      .orderBy(countries.iso);
+
+    return rows.map(({ policy, countryIso }) => ({ ...policy, countryIso }));
+  }
+
+  // Returns undefined when the country does not exist
+  async upsertPolicy(countryIso: string, input: PaymentMethodPolicyInput): Promise<PaymentMethodPolicy | undefined> {
+    const [country] = await db
+      .select({ id: countries.id })
+      .from(countries)
+      .where(eq(countries.iso, countryIso.toUpperCase()))
+      .limit(1);
+
+    if (!country) return undefined;
+
+    const values = {
+      methodScores: input.methodScores,
+      cryptoRestricted: input.cryptoRestricted,
+      crossBorderMethods: input.crossBorderMethods,
+      crossBorderSurcharge: input.crossBorderSurcharge,
+      notes: input.notes,
+      updatedBy: input.updatedBy,
+    };
+
+    const [policy] = await db
+      .insert(paymentMethodPolicies)
+      .values({ countryId: country.id, ...values })
+      .onConflictDoUpdate({
+        target: paymentMethodPolicies.countryId,
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+
+    await db.insert(auditLogs).values({
+      actor: input.updatedBy,
+      action: 'payment_policy_update',
+      entity: 'payment_method_policy',
+      entityId: policy.id,
+      diff: { countryIso: countryIso.toUpperCase(), ...values },
+    });
+
+    logger.info({ countryIso, policyId: policy.id }, 'Payment method policy updated');
+    return policy;
+  }
+}
+
+export const paymentMethodRiskService = new PaymentMethodRiskService();
@@ -495,7 +495,9 @@ class PdfGenerator {
       <div class="info-card">
         <h3>Risk Score Breakdown</h3>
         <div class="breakdown-chart">
-          ${Object.entries(riskScore.breakdown).map(([key, value]: [string, any]) => `
+          ${Object.entries(riskScore.breakdown)
+            .filter(([, value]) => typeof value === 'number') // skip nested signal details
+            .map(([key, value]: [string, any]) => `
           <div class="breakdown-item">
             <span class="breakdown-label">${this.formatBreakdownLabel(key)}</span>
             <div class="breakdown-bar">
@@ -0,0 +1,222 @@
+import { createHash } from "crypto";
+import { redis } from "../lib/redis";
+import { createChildLogger } from "../lib/logger";
+import { fieldEncryption, FieldEncryption } from "../lib/field-encryption";
+import { normalizeName } from "../providers/sanctions/nameMatching";
+
+const logger = createChildLogger('provider-cache-service');
+
+/**
+ * Caches sanctions and adverse media provider responses so repeat checks on the
+ * same name don't call the provider again. Keys are hashed; responses still name
+ * the screened person and their matches, so entries only go to Redis encrypted
+ * with the evidence key. Without EVIDENCE_ENCRYPTION_KEY, or without Redis, they
+ * stay in a bounded in-process LRU.
+ */
+
+export interface ProviderCacheKey {
+  provider: string;
+  name: string;
+  countryIso: string;
+  subjectType?: string;
+  attributes?: Record<string, string | undefined>; // e.g. DOB / nationality, which change the result
+}
+
+// A provider response and whether it was served from the cache
+export interface CachedResponse<T> {
+  value: T;
+  cached: boolean;
+  fetchedAt: string; // ISO time the provider produced the response
+}
+
+export interface ProviderCacheStats {
+  provider: string;
+  ttlSeconds: number;
+  hits: number;
+  misses: number;
+  bypassed: number;
+}
+
+// Sanctions lists change daily at most; media results go stale more slowly
+const DEFAULT_TTL_SECONDS: Record<string, number> = {
+  opensanctions: 6 * 60 * 60,
+  seon: 6 * 60 * 60,
+  amlbot: 6 * 60 * 60,
+  complyadvantage: 6 * 60 * 60,
+  composite: 6 * 60 * 60,
+  newsapi: 12 * 60 * 60,
+  local: 0, // already a local database query
+};
+
+// Bumped whenever the cached result shape changes, so entries written by older code are never read
+const KEY_PREFIX = 'provider-cache:v5';
+const LRU_MAX_ENTRIES = parseInt(process.env.PROVIDER_CACHE_MAX_ENTRIES || '1000', 10);
+
+// Map iteration order is insertion order, so re-inserting on read keeps the oldest entry first
+class LruCache {
+  private entries = new Map<string, { value: string; expiresAt: number }>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  get(key: string): string | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return null;
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: string, ttlSeconds: number) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+export class ProviderCacheService {
+  private lru = new LruCache(LRU_MAX_ENTRIES);
+  private stats = new Map<string, { hits: number; misses: number; bypassed: number }>();
+  private warnedUnencrypted = false;
+
+  constructor(private readonly encryption: FieldEncryption = fieldEncryption) {}
+
+  // PROVIDER_CACHE_TTL_<PROVIDER> in seconds; 0 disables caching for that provider
+  ttlFor(provider: string): number {
+    const override = process.env[`PROVIDER_CACHE_TTL_${provider.toUpperCase()}`];
+    if (override !== undefined && override !== '') return parseInt(override, 10);
+    return DEFAULT_TTL_SECONDS[provider] ?? parseInt(process.env.PROVIDER_CACHE_TTL_DEFAULT || '3600', 10);
+  }
+
+  /**
+   * Return the cached response for `key`, or call `load` and cache what it
+   * returns. Failures are never cached, nor are degraded answers that
+   * `shouldCache` rejects. `bypass` skips the read but still stores the fresh
+   * response, so a forced rescreen refreshes the entry. The result says whether
+   * it was a hit and when the provider answered, for the evidence trail.
+   */
+  async wrap<T>(
+    key: ProviderCacheKey,
+    load: () => Promise<T>,
+    options: { bypass?: boolean; shouldCache?: (value: T) => boolean } = {}
+  ): Promise<CachedResponse<T>> {
+    const ttl = this.ttlFor(key.provider);
+    if (ttl <= 0) return { value: await load(), cached: false, fetchedAt: new Date().toISOString() };
+
+    const cacheKey = this.buildKey(key);
+    const counters = this.counters(key.provider);
+
+    if (options.bypass) {
+      counters.bypassed++;
+    } else {
+      const cached = await this.read(cacheKey);
+      if (cached !== null) {
+        counters.hits++;
+        logger.debug({ provider: key.provider }, 'Provider cache hit');
+        const entry = JSON.parse(cached) as { value: T; fetchedAt: string };
+        return { value: entry.value, cached: true, fetchedAt: entry.fetchedAt };
+      }
+      counters.misses++;
+    }
+
+    const value = await load();
+    const fetchedAt = new Date().toISOString();
+    if (!options.shouldCache || options.shouldCache(value)) {
+      await this.write(cacheKey, JSON.stringify({ value, fetchedAt }), ttl);
+    }
+    return { value, cached: false, fetchedAt };
+  }
+
+  getStats(): { backend: 'redis' | 'memory'; memoryEntries: number; providers: ProviderCacheStats[] } {
+    return {
+      backend: this.useRedis() ? 'redis' : 'memory',
+      memoryEntries: this.lru.size,
+      providers: Array.from(this.stats.entries()).map(([provider, counters]) => ({
+        provider,
+        ttlSeconds: this.ttlFor(provider),
+        ...counters,
+      })),
+    };
+  }
+
+  getPrometheusMetrics(): string {
+    const { providers } = this.getStats();
+    if (providers.length === 0) return '';
+
+    const counter = (name: string, help: string, value: (s: ProviderCacheStats) => number) => {
+      let output = `# HELP ${name} ${help}\n# TYPE ${name} counter\n`;
+      for (const s of providers) {
+        output += `${name}{provider="${s.provider}"} ${value(s)}\n`;
+      }
+      return output;
+    };
+
+    return [
+      counter('provider_cache_hits_total', 'Provider responses served from cache', s => s.hits),
+      counter('provider_cache_misses_total', 'Provider calls made after a cache miss', s => s.misses),
+      counter('provider_cache_bypassed_total', 'Provider calls that skipped the cache on request', s => s.bypassed),
+    ].join('');
+  }
+
+  private buildKey(key: ProviderCacheKey): string {
+    const attributes = Object.entries(key.attributes || {})
+      .filter(([, value]) => value)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([field, value]) => `${field}=${value}`);
+    const identity = [
+      normalizeName(key.name),
+      key.countryIso.toUpperCase(),
+      key.subjectType || 'person',
+      ...attributes,
+    ].join('|');
+    return `${KEY_PREFIX}:${key.provider}:${createHash('sha256').update(identity).digest('hex')}`;
+  }
+
+  private counters(provider: string) {
+    let counters = this.stats.get(provider);
+    if (!counters) {
+      counters = { hits: 0, misses: 0, bypassed: 0 };
+      this.stats.set(provider, counters);
+    }
+    return counters;
+  }
+
+  private useRedis(): boolean {
+    if (!redis.isAvailable()) return false;
+    if (!this.encryption.enabled && !this.warnedUnencrypted) {
+      this.warnedUnencrypted = true;
+      logger.warn('EVIDENCE_ENCRYPTION_KEY not configured, provider responses are cached in memory instead of Redis');
+    }
+    return this.encryption.enabled;
+  }
+
+  private async read(cacheKey: string): Promise<string | null> {
+    if (!this.useRedis()) return this.lru.get(cacheKey);
+
+    const stored = await redis.get(cacheKey);
+    if (stored === null) return null;
+    try {
+      return this.encryption.decrypt(stored);
+    } catch (error) {
+      // Written under a key that has since been rotated; treated as a miss and overwritten
+      logger.debug({ error: error instanceof Error ? error.message : error }, 'Unreadable provider cache entry');
+      return null;
+    }
+  }
+
+  private async write(cacheKey: string, value: string, ttlSeconds: number): Promise<void> {
+    if (this.useRedis()) {
+      await redis.setex(cacheKey, ttlSeconds, this.encryption.encrypt(value));
+    } else {
+      this.lru.set(cacheKey, value, ttlSeconds);
+    }
+  }
+}
+
+export const providerCacheService = new ProviderCacheService();
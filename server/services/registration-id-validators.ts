@@ -0,0 +1,235 @@
+import { createChildLogger } from "../lib/logger";
+
+const logger = createChildLogger('registration-id-validators');
+
+export interface RegistrationIdValidator {
+  type: string; // e.g. 'VAT', 'GSTIN'
+  countries: string[]; // ISO alpha-2 codes this validator covers
+  validate(id: string, countryIso: string): RegistrationIdValidation;
+}
+
+export interface RegistrationIdValidation {
+  valid: boolean;
+  failedOn?: 'format' | 'checksum';
+  reason?: string;
+}
+
+export interface RegistrationIdCheck {
+  checked: boolean; // false when no validator covers the country
+  valid: boolean | null;
+  type: string | null;
+  normalized: string;
+  reason?: string;
+}
+
+const digitsOf = (value: string) => value.split('').map(Number);
+
+function luhnValid(digits: string): boolean {
+  let sum = 0;
+  digitsOf(digits).reverse().forEach((digit, i) => {
+    const doubled = i % 2 === 1 ? digit * 2 : digit;
+    sum += doubled > 9 ? doubled - 9 : doubled;
+  });
+  return sum % 10 === 0;
+}
+
+// VAT number bodies (country prefix removed); Greece uses the EL prefix
+const VAT_FORMATS: Record<string, RegExp> = {
+  AT: /^U\d{8}$/,
+  BE: /^[01]\d{9}$/,
+  BG: /^\d{9,10}$/,
+  CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/,
+  DK: /^\d{8}$/,
+  EE: /^\d{9}$/,
+  GR: /^\d{9}$/,
+  ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+  FI: /^\d{8}$/,
+  FR: /^[A-HJ-NP-Z0-9]{2}\d{9}$/,
+  GB: /^(\d{9}|\d{12}|GD\d{3}|HA\d{3})$/,
+  HR: /^\d{11}$/,
+  HU: /^\d{8}$/,
+  IE: /^(\d{7}[A-W][A-I]?|\d[A-Z+*]\d{5}[A-W])$/,
+  IT: /^\d{11}$/,
+  LT: /^(\d{9}|\d{12})$/,
+  LU: /^\d{8}$/,
+  LV: /^\d{11}$/,
+  MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/,
+  PL: /^\d{10}$/,
+  PT: /^\d{9}$/,
+  RO: /^\d{2,10}$/,
+  SE: /^\d{10}01$/,
+  SI: /^\d{8}$/,
+  SK: /^\d{10}$/,
+};
+
+// Check digits for the member states where the algorithm is public and stable
+const VAT_CHECKSUMS: Record<string, (body: string) => boolean> = {
+  DE: body => {
+    // ISO 7064 MOD 11,10
+    let product = 10;
+    for (const digit of digitsOf(body.slice(0, 8))) {
+      let sum = (digit + product) % 10;
+      if (sum === 0) sum = 10;
+      product = (2 * sum) % 11;
+    }
+    const check = (11 - product) % 10;
+    return check === Number(body[8]);
+  },
+  IT: body => luhnValid(body),
+  FR: body => {
+    // Alphanumeric keys are issued under a different scheme without a public checksum
+    if (!/^\d{2}/.test(body)) return true;
+    const siren = Number(body.slice(2));
+    return Number(body.slice(0, 2)) === (12 + 3 * (siren % 97)) % 97;
+  },
+  BE: body => 97 - (Number(body.slice(0, 8)) % 97) === Number(body.slice(8)),
+};
+
+export const vatValidator: RegistrationIdValidator = {
+  type: 'VAT',
+  countries: Object.keys(VAT_FORMATS),
+  validate(id, countryIso) {
+    const prefix = countryIso === 'GR' ? 'EL' : countryIso;
+    const body = id.startsWith(prefix) ? id.slice(prefix.length) : id;
+
+    if (!VAT_FORMATS[countryIso].test(body)) {
+      return { valid: false, failedOn: 'format', reason: `Does not match the ${countryIso} VAT number format` };
+    }
+    const checksum = VAT_CHECKSUMS[countryIso];
+    if (checksum && !checksum(body)) {
+      return { valid: false, failedOn: 'checksum', reason: 'VAT check digits do not match' };
+    }
+    return { valid: true };
+  },
+};
+
+const GSTIN_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+export const gstinValidator: RegistrationIdValidator = {
+  type: 'GSTIN',
+  countries: ['IN'],
+  validate(id) {
+    // State code, PAN, entity number, 'Z', check character
+    if (!/^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/.test(id)) {
+      return { valid: false, failedOn: 'format', reason: 'Does not match the GSTIN format' };
+    }
+
+    let sum = 0;
+    for (let i = 0; i < 14; i++) {
+      const product = GSTIN_CHARSET.indexOf(id[i]) * (i % 2 === 0 ? 1 : 2);
+      sum += Math.floor(product / 36) + (product % 36);
+    }
+    const check = GSTIN_CHARSET[(36 - (sum % 36)) % 36];
+    return check === id[14] ? { valid: true } : { valid: false, failedOn: 'checksum', reason: 'GSTIN check character does not match' };
+  },
+};
+
+// Brazilian mod-11 check digit over the given weights
+const mod11Digit = (digits: number[], weights: number[]) => {
+  const remainder = digits.reduce((sum, digit, i) => sum + digit * weights[i], 0) % 11;
+  return remainder < 2 ? 0 : 11 - remainder;
+};
+
+export const cpfValidator: RegistrationIdValidator = {
+  type: 'CPF',
+  countries: ['BR'],
+  validate(id) {
+    if (!/^\d{11}$/.test(id) || /^(\d)\1{10}$/.test(id)) {
+      return { valid: false, failedOn: 'format', reason: 'Does not match the CPF format' };
+    }
+    const digits = digitsOf(id);
+    const first = mod11Digit(digits.slice(0, 9), [10, 9, 8, 7, 6, 5, 4, 3, 2]);
+    const second = mod11Digit(digits.slice(0, 10), [11, 10, 9, 8, 7, 6, 5, 4, 3, 2]);
+    return first === digits[9] && second === digits[10]
+      ? { valid: true }
+      : { valid: false, failedOn: 'checksum', reason: 'CPF check digits do not match' };
+  },
+};
+
+export const cnpjValidator: RegistrationIdValidator = {
+  type: 'CNPJ',
+  countries: ['BR'],
+  validate(id) {
+    if (!/^\d{14}$/.test(id) || /^(\d)\1{13}$/.test(id)) {
+      return { valid: false, failedOn: 'format', reason: 'Does not match the CNPJ format' };
+    }
+    const digits = digitsOf(id);
+    const first = mod11Digit(digits.slice(0, 12), [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+    const second = mod11Digit(digits.slice(0, 13), [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+    return first === digits[12] && second === digits[13]
+      ? { valid: true }
+      : { valid: false, failedOn: 'checksum', reason: 'CNPJ check digits do not match' };
+  },
+};
+
+export const abnValidator: RegistrationIdValidator = {
+  type: 'ABN',
+  countries: ['AU'],
+  validate(id) {
+    if (!/^\d{11}$/.test(id)) {
+      return { valid: false, failedOn: 'format', reason: 'Does not match the ABN format' };
+    }
+    const weights = [10, 1, 3, 5, 7, 9, 11, 13, 15, 17, 19];
+    const digits = digitsOf(id);
+    digits[0] -= 1;
+    const sum = digits.reduce((total, digit, i) => total + digit * weights[i], 0);
+    return sum % 89 === 0 ? { valid: true } : { valid: false, failedOn: 'checksum', reason: 'ABN checksum does not match' };
+  },
+};
+
+/**
+ * Per-country registration ID checks. Several validators may cover one country
+ * (e.g. CPF and CNPJ for Brazil); an ID passes if any of them accepts it.
+ */
+export class RegistrationIdValidatorRegistry {
+  private validators = new Map<string, RegistrationIdValidator[]>();
+
+  register(validator: RegistrationIdValidator): void {
+    for (const country of validator.countries) {
+      const existing = this.validators.get(country) || [];
+      this.validators.set(country, [...existing, validator]);
+    }
+  }
+
+  supportedCountries(): Record<string, string[]> {
+    return Object.fromEntries(
+      Array.from(this.validators.entries()).map(([country, validators]) => [country, validators.map(v => v.type)])
+    );
+  }
+
+  validate(countryIso: string, registrationId: string): RegistrationIdCheck {
+    const country = countryIso.toUpperCase();
+    const normalized = registrationId.toUpperCase().replace(/[\s.\-\/]/g, '');
+    const validators = this.validators.get(country);
+
+    if (!validators || validators.length === 0) {
+      return { checked: false, valid: null, type: null, normalized };
+    }
+
+    const results = validators.map(validator => ({ type: validator.type, ...validator.validate(normalized, country) }));
+    // Prefer the validator whose format the ID fits when reporting why it failed
+    const match = results.find(result => result.valid)
+      || results.find(result => result.failedOn === 'checksum')
+      || results[0];
+
+    if (!match.valid) {
+      logger.info({ countryIso: country, type: match.type, reason: match.reason }, 'Registration ID failed validation');
+    }
+
+    return {
+      checked: true,
+      valid: match.valid,
+      type: match.type,
+      normalized,
+      ...(match.reason && { reason: match.reason }),
+    };
+  }
+}
+
+export const registrationIdValidators = new RegistrationIdValidatorRegistry();
+[vatValidator, gstinValidator, cpfValidator, cnpjValidator, abnValidator].forEach(validator =>
+  registrationIdValidators.register(validator)
+);
@@ -0,0 +1,371 @@
+import { and, asc, count, eq, isNotNull, lte, or, sql } from "drizzle-orm";
+import { db } from "../lib/database";
+import { riskScores, contractors, countries, rulesetVersions, auditLogs, PaymentMethod, EntityScreeningInput } from "@shared/schema";
+import { createChildLogger } from "../lib/logger";
+import { riskEngine } from "./risk-engine";
+import { evidenceStoreService } from "./evidence-store-service";
+
+const logger = createChildLogger('rescreening-service');
+
+export type RescreenReason = 'expired' | 'ruleset_changed';
+
+export interface DueContractor {
+  contractorId: string;
+  contractorName: string;
+  contractorType: 'independent' | 'eor' | 'freelancer';
+  registrationId: string | null;
+  paymentMethod: PaymentMethod;
+  dateOfBirth: string | null;
+  nationality: string | null;
+  role: string | null;
+  entity: EntityScreeningInput | null;
+  countryIso: string;
+  riskScoreId: string;
+  score: number;
+  tier: 'low' | 'medium' | 'high';
+  rulesetVersion: number;
+  currentRulesetVersion: number;
+  expiresAt: Date;
+  reason: RescreenReason;
+}
+
+export interface RiskChangedEvent {
+  contractorId: string;
+  contractorName: string;
+  countryIso: string;
+  previousRiskScoreId: string;
+  riskScoreId: string;
+  previousTier: 'low' | 'medium' | 'high';
+  tier: 'low' | 'medium' | 'high';
+  previousScore: number;
+  score: number;
+  reason: RescreenReason;
+  detectedAt: string;
+}
+
+export interface RescreeningRunSummary {
+  startedAt: string;
+  completedAt: string;
+  due: number;
+  rescreened: number;
+  failed: number;
+  tierIncreases: number;
+  reasons: Record<RescreenReason, number>;
+}
+
+const TIER_RANK: Record<string, number> = { low: 0, medium: 1, high: 2 };
+
+/**
+ * Periodically re-runs risk assessments for contractors whose latest score has
+ * expired or was computed against an older ruleset for their country. Every
+ * re-screen is stored as a new risk score so the screening history is kept.
+ */
+export class RescreeningService {
+  private readonly intervalMs: number;
+  private readonly concurrency: number;
+  private readonly batchSize: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private lastRun: RescreeningRunSummary | null = null;
+  private subscribers = new Set<(event: RiskChangedEvent) => void>();
+
+  constructor() {
+    this.intervalMs = parseInt(process.env.RESCREEN_INTERVAL_MINUTES || '60', 10) * 60 * 1000;
+    this.concurrency = Math.max(1, parseInt(process.env.RESCREEN_CONCURRENCY || '3', 10));
+    this.batchSize = Math.max(1, parseInt(process.env.RESCREEN_BATCH_SIZE || '100', 10));
+  }
+
+  start(): void {
+    if (this.timer) return;
+    if (this.intervalMs <= 0) {
+      logger.info('Re-screening scheduler disabled (RESCREEN_INTERVAL_MINUTES=0)');
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => logger.error({ error }, 'Scheduled re-screening run failed'));
+    }, this.intervalMs);
+    this.timer.unref();
+
+    logger.info({
+      intervalMinutes: this.intervalMs / 60000,
+      concurrency: this.concurrency,
+      batchSize: this.batchSize
+    }, 'Re-screening scheduler started');
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getStatus() {
+    return {
+      scheduled: this.timer !== null,
+      running: this.running,
+      intervalMinutes: this.intervalMs / 60000,
+      concurrency: this.concurrency,
+      batchSize: this.batchSize,
+      lastRun: this.lastRun,
+    };
+  }
+
+  onRiskChanged(callback: (event: RiskChangedEvent) => void): () => void {
+    this.subscribers.add(callback);
+    return () => {
+      this.subscribers.delete(callback);
+    };
+  }
+
+  /**
+   * Latest assessment per contractor that needs re-screening, most urgent first,
+   * at most `limit` of them. Contractor rows are created per check, so only the
+   * most recent row for a person (country + name) is considered. The selection
+   * runs in SQL, so a run costs the same however long the screening history is.
+   */
+  async findDueContractors(now: Date = new Date(), limit: number = this.batchSize): Promise<DueContractor[]> {
+    const due = this.dueAssessments(now);
+    const rows = await db
+      .select()
+      .from(due)
+      // Ruleset changes first, then the longest-expired assessments
+      .orderBy(sql`${due.rulesetChanged} desc`, asc(due.expiresAt))
+      .limit(limit);
+
+    return rows.map(row => ({
+      contractorId: row.contractorId,
+      contractorName: row.contractorName!,
+      contractorType: row.contractorType as DueContractor['contractorType'],
+      registrationId: row.registrationId,
+      paymentMethod: row.paymentMethod as PaymentMethod,
+      dateOfBirth: row.dateOfBirth,
+      nationality: row.nationality,
+      role: row.role,
+      entity: row.entity as EntityScreeningInput | null,
+      countryIso: row.countryIso,
+      riskScoreId: row.riskScoreId,
+      score: row.score,
+      tier: row.tier as DueContractor['tier'],
+      rulesetVersion: row.rulesetVersion,
+      currentRulesetVersion: row.currentRulesetVersion,
+      expiresAt: row.expiresAt,
+      reason: row.rulesetChanged ? 'ruleset_changed' : 'expired',
+    }));
+  }
+
+  async countDueContractors(now: Date = new Date()): Promise<number> {
+    const [result] = await db.select({ total: count() }).from(this.dueAssessments(now));
+    return result?.total ?? 0;
+  }
+
+  /**
+   * Latest assessment per person, kept when it has expired or its country has a
+   * newer ruleset. The person key approximates `contractorKey` in SQL: case and
+   * punctuation are ignored, transliteration is not.
+   */
+  private dueAssessments(now: Date) {
+    const personKey = sql`upper(${countries.iso}), lower(regexp_replace(trim(${contractors.name}), '[^[:alnum:]]+', ' ', 'g'))`;
+    // Rows written before expiresAt was stored were issued with the engine's 24h validity
+    const expiresAt = sql<Date>`coalesce(${riskScores.expiresAt}, ${riskScores.createdAt} + interval '24 hours')`;
+    const currentRulesetVersion = sql<number>`coalesce((select max(${rulesetVersions.version}) from ${rulesetVersions} where ${rulesetVersions.countryId} = ${countries.id}), 0)`;
+
+    const latest = db
+      .select({
+        riskScoreId: sql<string>`${riskScores.id}`.as('risk_score_id'),
+        score: riskScores.score,
+        tier: riskScores.tier,
+        rulesetVersion: riskScores.rulesetVersion,
+        expiresAt: expiresAt.mapWith(riskScores.expiresAt).as('effective_expires_at'),
+        contractorId: sql<string>`${contractors.id}`.as('contractor_id'),
+        contractorName: contractors.name,
+        contractorType: contractors.type,
+        registrationId: contractors.registrationId,
+        paymentMethod: contractors.paymentMethod,
+        dateOfBirth: contractors.dateOfBirth,
+        nationality: contractors.nationality,
+        role: contractors.role,
+        entity: contractors.entity,
+        countryIso: countries.iso,
+        currentRulesetVersion: currentRulesetVersion.mapWith(Number).as('current_ruleset_version'),
+        rank: sql<number>`row_number() over (partition by ${personKey} order by ${riskScores.createdAt} desc)`.as('rank'),
+      })
+      .from(riskScores)
+      .innerJoin(contractors, eq(riskScores.contractorId, contractors.id))
+      .innerJoin(countries, eq(contractors.countryId, countries.id))
+      .where(isNotNull(contractors.name))
+      .as('latest');
+
+    const rulesetChanged = sql<boolean>`${latest.currentRulesetVersion} > ${latest.rulesetVersion}`;
+    return db
+      .select({
+        riskScoreId: latest.riskScoreId,
+        score: latest.score,
+        tier: latest.tier,
+        rulesetVersion: latest.rulesetVersion,
+        expiresAt: latest.expiresAt,
+        contractorId: latest.contractorId,
+        contractorName: latest.contractorName,
+        contractorType: latest.contractorType,
+        registrationId: latest.registrationId,
+        paymentMethod: latest.paymentMethod,
+        dateOfBirth: latest.dateOfBirth,
+        nationality: latest.nationality,
+        role: latest.role,
+        entity: latest.entity,
+        countryIso: latest.countryIso,
+        currentRulesetVersion: latest.currentRulesetVersion,
+        rulesetChanged: rulesetChanged.as('ruleset_changed'),
+      })
+      .from(latest)
+      .where(and(eq(latest.rank, 1), or(rulesetChanged, lte(latest.expiresAt, now))))
+      .as('due');
+  }
+
+  // bypassCache forces fresh provider calls instead of reusing cached responses
+  async runOnce(options: { bypassCache?: boolean } = {}): Promise<RescreeningRunSummary | null> {
+    if (this.running) {
+      logger.warn('Re-screening run already in progress, skipping');
+      return null;
+    }
+
+    this.running = true;
+    const startedAt = new Date();
+
+    try {
+      const due = await this.findDueContractors(startedAt);
+      const summary: RescreeningRunSummary = {
+        startedAt: startedAt.toISOString(),
+        completedAt: '',
+        due: due.length,
+        rescreened: 0,
+        failed: 0,
+        tierIncreases: 0,
+        reasons: { expired: 0, ruleset_changed: 0 },
+      };
+
+      logger.info({ due: due.length, bypassCache: !!options.bypassCache }, 'Starting re-screening run');
+
+      // Bounded worker pool so a large backlog doesn't flood the providers
+      const queue = [...due];
+      const workers = Array.from({ length: Math.min(this.concurrency, queue.length) }, async () => {
+        for (let next = queue.shift(); next; next = queue.shift()) {
+          try {
+            const increased = await this.rescreen(next, options.bypassCache);
+            summary.rescreened++;
+            summary.reasons[next.reason]++;
+            if (increased) summary.tierIncreases++;
+          } catch (error) {
+            summary.failed++;
+            logger.error({
+              error: error instanceof Error ? error.message : 'Unknown error',
+              contractorId: next.contractorId
+            }, 'Failed to re-screen contractor');
+          }
+        }
+      });
+      await Promise.all(workers);
+
+      summary.completedAt = new Date().toISOString();
+      this.lastRun = summary;
+
+      await db.insert(auditLogs).values({
+        actor: 'system',
+        action: 'rescreening_run',
+        entity: 'risk_score',
+        entityId: crypto.randomUUID(),
+        diff: summary,
+      });
+
+      logger.info(summary, 'Re-screening run completed');
+      return summary;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Returns true when the contractor's tier went up
+  private async rescreen(contractor: DueContractor, bypassCache = false): Promise<boolean> {
+    const result = await riskEngine.assessRisk({
+      contractorName: contractor.contractorName,
+      countryIso: contractor.countryIso,
+      contractorType: contractor.contractorType,
+      registrationId: contractor.registrationId || undefined,
+      paymentMethod: contractor.paymentMethod,
+      dateOfBirth: contractor.dateOfBirth || undefined,
+      nationality: contractor.nationality || undefined,
+      role: contractor.role || undefined,
+      entity: contractor.entity || undefined,
+      bypassCache,
+    });
+
+    const [riskScore] = await db.insert(riskScores).values({
+      contractorId: contractor.contractorId,
+      score: result.overallScore,
+      tier: result.riskTier,
+      topRisks: result.topRisks,
+      recommendations: result.recommendations,
+      penaltyRange: result.penaltyRange,
+      partialSources: result.partialSources || [],
+      rulesetVersion: result.rulesetVersion,
+      breakdown: result.breakdown,
+      firedRules: result.firedRules,
+      scoringProfileVersion: result.scoringProfileVersion,
+      sanctionsHits: result.sanctionsHits,
+      evidence: result.evidence,
+      trigger: contractor.reason,
+      expiresAt: new Date(result.expiresAt),
+    }).returning();
+
+    await evidenceStoreService.persist(riskScore.id, result.providerCalls, {
+      name: contractor.contractorName,
+      relatedNames: contractor.entity?.beneficialOwners.map(owner => owner.name)
+    });
+
+    if (TIER_RANK[result.riskTier] <= TIER_RANK[contractor.tier]) {
+      return false;
+    }
+
+    const event: RiskChangedEvent = {
+      contractorId: contractor.contractorId,
+      contractorName: contractor.contractorName,
+      countryIso: contractor.countryIso,
+      previousRiskScoreId: contractor.riskScoreId,
+      riskScoreId: riskScore.id,
+      previousTier: contractor.tier,
+      tier: result.riskTier,
+      previousScore: contractor.score,
+      score: result.overallScore,
+      reason: contractor.reason,
+      detectedAt: new Date().toISOString(),
+    };
+
+    await db.insert(auditLogs).values({
+      actor: 'system',
+      action: 'risk_tier_increased',
+      entity: 'risk_score',
+      entityId: riskScore.id,
+      diff: event,
+    });
+
+    logger.warn({
+      contractorId: event.contractorId,
+      previousTier: event.previousTier,
+      tier: event.tier,
+      reason: event.reason
+    }, 'Contractor risk tier increased on re-screening');
+
+    this.subscribers.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        logger.warn({ error, contractorId: event.contractorId }, 'Failed to notify risk change subscriber');
+      }
+    });
+
+    return true;
+  }
+}
+
+export const rescreeningService = new RescreeningService();
@@ -0,0 +1,468 @@
+import { createHash, randomUUID } from "crypto";
+import { readFile } from "fs/promises";
+import path from "path";
+import { and, eq, inArray, like, sql, count } from "drizzle-orm";
+import * as csv from 'csv-parse/sync';
+import { db } from "../lib/database";
+import {
+  countries,
+  externalDataSources,
+  riskDataCache,
+  InsertRiskDataCache,
+} from "@shared/schema";
+import { createChildLogger } from "../lib/logger";
+import { toAlpha2 } from "../lib/country-codes";
+import { normalizeName } from "../providers/sanctions/nameMatching";
+
+const logger = createChildLogger('risk-data-file-import');
+
+export type RiskDataset = 'wgi' | 'cpi' | 'fatf';
+
+export const RISK_DATASETS: RiskDataset[] = ['wgi', 'cpi', 'fatf'];
+
+// apiConfig of a 'local_regulatory' data source: the files its sync re-imports
+export interface LocalDataSourceConfig {
+  files: Array<{ dataset: RiskDataset; path: string }>;
+}
+
+export interface ParsedRiskRecord {
+  country: string; // as given in the file: alpha-2 / alpha-3 code, or a name
+  countryName?: string;
+  indicator: string; // prefix of the cache key, e.g. 'CC.EST', 'CPI', 'FATF'
+  year: number;
+  value: number | string; // in the publisher's own scale
+  score: number; // 0-100 risk
+  confidence: number; // 0-100
+  details?: Record<string, unknown>;
+}
+
+export interface RiskDataImportOptions {
+  dataSourceId?: string; // defaults to the dataset's own file-import data source
+  force?: boolean; // re-import even if the file checksum matches the last import
+}
+
+export interface RiskDataImportResult {
+  dataset: RiskDataset;
+  dataSourceId: string;
+  fileName: string;
+  recordsImported: number;
+  unmatched: string[]; // countries in the file that aren't in the countries table
+  skipped: boolean;
+}
+
+const DATASETS: Record<RiskDataset, { name: string; dataType: string; validityDays: number }> = {
+  wgi: { name: 'World Bank Worldwide Governance Indicators (file)', dataType: 'governance_indicators', validityDays: 365 },
+  cpi: { name: 'Transparency International CPI (file)', dataType: 'corruption_perceptions', validityDays: 365 },
+  // FATF revises its lists at each plenary, three times a year
+  fatf: { name: 'FATF high-risk jurisdiction lists (file)', dataType: 'aml_lists', validityDays: 120 },
+};
+
+const INSERT_BATCH_SIZE = 500;
+const MAX_UNMATCHED_REPORTED = 50;
+
+const WGI_CONFIDENCE = 85; // same as the World Bank API sync
+const CPI_DEFAULT_CONFIDENCE = 90;
+const FATF_CONFIDENCE = 95;
+
+// WGI long-format indicator codes
+const WGI_INDICATORS: Record<string, string> = {
+  cc: 'CC.EST', ge: 'GE.EST', pv: 'PV.EST', rl: 'RL.EST', rq: 'RQ.EST', va: 'VA.EST',
+};
+
+const FATF_LIST_SCORES = { black: 100, grey: 70 } as const;
+type FatfList = keyof typeof FATF_LIST_SCORES;
+
+// Governance estimates run from about -2.5 (weak) to 2.5 (strong); stronger governance is lower risk
+export function wgiEstimateToRisk(value: number): number {
+  return Math.max(0, Math.min(100, (2.5 - value) * 20));
+}
+
+const readRows = (text: string) => csv.parse(text, {
+  bom: true,
+  relax_column_count: true,
+  relax_quotes: true,
+  skip_empty_lines: true,
+  trim: true,
+}) as string[][];
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const text = String(value ?? '').trim();
+  if (!text || text === '..') return null; // World Bank's missing-value marker
+  const parsed = Number(text.replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const headerIndex = (header: string[], ...names: string[]) =>
+  header.findIndex(cell => names.includes(cell));
+
+function toFatfList(value: string): FatfList | null {
+  const list = value.toLowerCase().replace(/[\s_-]+/g, ' ').trim();
+  if (['black', 'blacklist', 'black list', 'call for action', 'high risk'].includes(list)) return 'black';
+  if (['grey', 'gray', 'greylist', 'graylist', 'grey list', 'gray list', 'increased monitoring'].includes(list)) return 'grey';
+  return null;
+}
+
+/**
+ * Imports country risk datasets downloaded as files (World Bank WGI, TI CPI,
+ * FATF list snapshots) into the risk data cache, so the country baseline can
+ * be refreshed without outbound network access. Every row records which file
+ * it came from.
+ */
+export class RiskDataFileImportService {
+  async importFile(dataset: RiskDataset, filePath: string, options: RiskDataImportOptions = {}): Promise<RiskDataImportResult> {
+    const content = await readFile(filePath, 'utf8');
+    const fileName = path.basename(filePath);
+    const checksum = createHash('sha256').update(content).digest('hex');
+    const dataSourceId = options.dataSourceId ?? await this.ensureDataSource(dataset, filePath);
+
+    if (!options.force) {
+      const [previous] = await db
+        .select({ total: count() })
+        .from(riskDataCache)
+        .where(and(
+          eq(riskDataCache.dataSourceId, dataSourceId),
+          sql`${riskDataCache.data}->'provenance'->>'checksum' = ${checksum}`
+        ));
+      if (previous && previous.total > 0) {
+        logger.info({ dataset, fileName, dataSourceId }, 'Risk data file unchanged since last import, skipping');
+        return { dataset, dataSourceId, fileName, recordsImported: previous.total, unmatched: [], skipped: true };
+      }
+    }
+
+    const records = this.parse(dataset, content, filePath);
+    if (records.length === 0) {
+      throw new Error(`No ${dataset} records found in ${fileName}`);
+    }
+
+    const resolveCountry = await this.countryResolver();
+    const importId = randomUUID();
+    const importedAt = new Date();
+    const expiresAt = new Date(importedAt.getTime() + DATASETS[dataset].validityDays * 24 * 60 * 60 * 1000);
+    const unmatched = new Set<string>();
+    const rows = new Map<string, InsertRiskDataCache>();
+
+    for (const record of records) {
+      const country = resolveCountry(record.country, record.countryName);
+      if (!country) {
+        unmatched.add(record.countryName || record.country);
+        continue;
+      }
+      const dataKey = `${record.indicator}_${record.year}`;
+      // The same country given twice (code and name, old and new code) keeps the higher risk
+      const key = `${country}|${dataKey}`;
+      if ((rows.get(key)?.score ?? -1) >= Math.round(record.score)) continue;
+      rows.set(key, {
+        dataSourceId,
+        country,
+        dataKey,
+        data: {
+          indicator: record.indicator,
+          year: record.year,
+          value: record.value,
+          countryName: record.countryName ?? null,
+          ...record.details,
+          provenance: { dataset, fileName, checksum, importId, importedAt: importedAt.toISOString(), method: 'file' },
+        },
+        score: Math.round(record.score),
+        confidence: record.confidence,
+        expiresAt,
+      });
+    }
+
+    const values = Array.from(rows.values());
+    if (values.length === 0) {
+      throw new Error(`None of the countries in ${fileName} are known`);
+    }
+
+    for (let i = 0; i < values.length; i += INSERT_BATCH_SIZE) {
+      await db.insert(riskDataCache).values(values.slice(i, i + INSERT_BATCH_SIZE));
+    }
+
+    // New rows are in place before the ones they replace are removed. A FATF file is a full
+    // snapshot, so jurisdictions that have left the lists lose their rows too.
+    const previousImport = sql`${riskDataCache.data}->'provenance'->>'importId' IS DISTINCT FROM ${importId}`;
+    await db
+      .delete(riskDataCache)
+      .where(dataset === 'fatf'
+        ? and(eq(riskDataCache.dataSourceId, dataSourceId), like(riskDataCache.dataKey, 'FATF\\_%'), previousImport)
+        : and(
+            eq(riskDataCache.dataSourceId, dataSourceId),
+            inArray(riskDataCache.dataKey, Array.from(new Set(values.map(row => row.dataKey)))),
+            inArray(riskDataCache.country, Array.from(new Set(values.map(row => row.country!)))),
+            previousImport
+          ));
+
+    if (!options.dataSourceId) {
+      await db
+        .update(externalDataSources)
+        .set({ lastSyncAt: importedAt, lastSyncStatus: unmatched.size > 0 ? 'partial' : 'success' })
+        .where(eq(externalDataSources.id, dataSourceId));
+    }
+
+    const unmatchedList = Array.from(unmatched);
+    if (unmatchedList.length > 0) {
+      logger.warn({ dataset, fileName, unmatched: unmatchedList.slice(0, MAX_UNMATCHED_REPORTED) }, 'Risk data rows for unknown countries were skipped');
+    }
+    logger.info({ dataset, fileName, dataSourceId, records: values.length }, 'Risk data file imported');
+
+    return {
+      dataset,
+      dataSourceId,
+      fileName,
+      recordsImported: values.length,
+      unmatched: unmatchedList.slice(0, MAX_UNMATCHED_REPORTED),
+      skipped: false,
+    };
+  }
+
+  parse(dataset: RiskDataset, content: string, filePath: string): ParsedRiskRecord[] {
+    switch (dataset) {
+      case 'wgi':
+        return this.parseWgiCsv(content);
+      case 'cpi':
+        return this.parseCpiCsv(content);
+      case 'fatf':
+        return path.extname(filePath).toLowerCase() === '.json'
+          ? this.parseFatfJson(content)
+          : this.parseFatfCsv(content);
+    }
+  }
+
+  /**
+   * World Bank DataBank export (one row per country and series, a column per
+   * year, ".." when missing) or the long WGI dataset (one row per country,
+   * indicator and year). Only the latest estimate per indicator is kept.
+   */
+  parseWgiCsv(content: string): ParsedRiskRecord[] {
+    const rows = readRows(content);
+    const header = (rows[0] || []).map(cell => cell.toLowerCase());
+    const latest = new Map<string, ParsedRiskRecord>();
+    const keep = (record: ParsedRiskRecord) => {
+      const key = `${record.country}|${record.indicator}`;
+      if ((latest.get(key)?.year ?? -Infinity) < record.year) latest.set(key, record);
+    };
+
+    const seriesCol = headerIndex(header, 'series code');
+    const codeCol = headerIndex(header, 'country code', 'code', 'countrycode');
+    const nameCol = headerIndex(header, 'country name', 'countryname', 'country');
+
+    if (seriesCol !== -1 && codeCol !== -1) {
+      const yearCols = header
+        .map((cell, index) => ({ index, year: parseInt(cell.match(/^(\d{4})(?:\s*\[yr\d{4}\])?$/)?.[1] ?? '', 10) }))
+        .filter(col => Number.isFinite(col.year));
+
+      for (const row of rows.slice(1)) {
+        const indicator = (row[seriesCol] || '').toUpperCase();
+        if (!indicator.endsWith('.EST') || !row[codeCol]) continue; // skips rank / error series and footer lines
+        for (const { index, year } of [...yearCols].sort((a, b) => b.year - a.year)) {
+          const value = toNumber(row[index]);
+          if (value === null) continue;
+          keep({ country: row[codeCol], countryName: row[nameCol], indicator, year, value, score: wgiEstimateToRisk(value), confidence: WGI_CONFIDENCE });
+          break;
+        }
+      }
+      return Array.from(latest.values());
+    }
+
+    const indicatorCol = headerIndex(header, 'indicator');
+    const yearCol = headerIndex(header, 'year');
+    const estimateCol = headerIndex(header, 'estimate');
+    if (indicatorCol !== -1 && yearCol !== -1 && estimateCol !== -1 && codeCol !== -1) {
+      for (const row of rows.slice(1)) {
+        const indicator = WGI_INDICATORS[(row[indicatorCol] || '').toLowerCase()];
+        const year = parseInt(row[yearCol], 10);
+        const value = toNumber(row[estimateCol]);
+        if (!indicator || !Number.isFinite(year) || value === null || !row[codeCol]) continue;
+        keep({ country: row[codeCol], countryName: row[nameCol], indicator, year, value, score: wgiEstimateToRisk(value), confidence: WGI_CONFIDENCE });
+      }
+      return Array.from(latest.values());
+    }
+
+    throw new Error('Unrecognized WGI CSV: expected a DataBank export (Country Code, Series Code, year columns) or the long dataset (code, indicator, year, estimate)');
+  }
+
+  /**
+   * Transparency International's CPI results table: title rows, then a header
+   * with ISO3 and one "CPI score <year>" column per edition. The latest score
+   * is kept; CPI runs 0 (highly corrupt) to 100 (very clean), so risk is the inverse.
+   */
+  parseCpiCsv(content: string): ParsedRiskRecord[] {
+    const rows = readRows(content);
+    const start = rows.findIndex(row => row.some(cell => cell.toLowerCase() === 'iso3'));
+    if (start === -1) {
+      throw new Error('Unrecognized CPI CSV: no header row with an ISO3 column');
+    }
+
+    const header = rows[start].map(cell => cell.toLowerCase().replace(/\s+/g, ' '));
+    const isoCol = headerIndex(header, 'iso3');
+    const nameCol = header.findIndex(cell => cell.startsWith('country'));
+    const sourcesCol = headerIndex(header, 'number of sources', 'sources');
+    const rankCol = headerIndex(header, 'rank');
+    const yearCol = headerIndex(header, 'year');
+    const scoreCol = headerIndex(header, 'score', 'cpi score');
+
+    // Wide ("CPI score 2023", "CPI 2019 score") or long (year + score columns)
+    const editionCols = header
+      .map((cell, index) => ({ index, year: parseInt(cell.match(/^cpi (?:score )?(\d{4})(?: score)?$/)?.[1] ?? '', 10) }))
+      .filter(col => Number.isFinite(col.year))
+      .sort((a, b) => b.year - a.year);
+    if (editionCols.length === 0 && (yearCol === -1 || scoreCol === -1)) {
+      throw new Error('Unrecognized CPI CSV: no "CPI score <year>" columns and no year / score columns');
+    }
+
+    const latest = new Map<string, ParsedRiskRecord>();
+    for (const row of rows.slice(start + 1)) {
+      const country = row[isoCol];
+      if (!country) continue;
+
+      const edition = editionCols.length > 0
+        ? editionCols.map(col => ({ year: col.year, value: toNumber(row[col.index]) })).find(col => col.value !== null)
+        : { year: parseInt(row[yearCol], 10), value: toNumber(row[scoreCol]) };
+      if (!edition || edition.value === null || !Number.isFinite(edition.year)) continue;
+      if ((latest.get(country)?.year ?? -Infinity) >= edition.year) continue;
+
+      // Fewer underlying surveys means a less certain score
+      const sources = sourcesCol !== -1 ? toNumber(row[sourcesCol]) : null;
+      latest.set(country, {
+        country,
+        countryName: nameCol !== -1 ? row[nameCol] : undefined,
+        indicator: 'CPI',
+        year: edition.year,
+        value: edition.value,
+        score: Math.max(0, Math.min(100, 100 - edition.value)),
+        confidence: sources !== null ? Math.min(95, 55 + sources * 5) : CPI_DEFAULT_CONFIDENCE,
+        details: rankCol !== -1 && toNumber(row[rankCol]) !== null ? { rank: toNumber(row[rankCol]) } : undefined,
+      });
+    }
+    return Array.from(latest.values());
+  }
+
+  /**
+   * FATF list snapshot as JSON: either `{ "asOf": "2024-10-25", "black": [...], "grey": [...] }`
+   * (also "call_for_action" / "increased_monitoring") with codes, names or
+   * `{ "country": ... }` objects, or an array of `{ "country", "list", "asOf" }`.
+   */
+  parseFatfJson(content: string): ParsedRiskRecord[] {
+    const parsed = JSON.parse(content);
+    const entries: Array<{ country: string; list: string; asOf?: string }> = [];
+    const countryOf = (entry: any): string =>
+      typeof entry === 'string' ? entry : String(entry?.iso2 ?? entry?.iso ?? entry?.iso3 ?? entry?.code ?? entry?.country ?? entry?.name ?? '');
+
+    if (Array.isArray(parsed)) {
+      for (const entry of parsed) {
+        entries.push({ country: countryOf(entry), list: String(entry?.list ?? entry?.status ?? ''), asOf: entry?.asOf ?? entry?.as_of ?? entry?.date });
+      }
+    } else if (parsed && typeof parsed === 'object') {
+      const asOf = parsed.asOf ?? parsed.as_of ?? parsed.date;
+      for (const [key, value] of Object.entries(parsed)) {
+        if (!Array.isArray(value) || !toFatfList(key)) continue;
+        for (const entry of value) {
+          entries.push({ country: countryOf(entry), list: key, asOf: (typeof entry === 'object' && entry?.asOf) || asOf });
+        }
+      }
+    } else {
+      throw new Error('Unrecognized FATF JSON: expected an object of lists or an array of entries');
+    }
+
+    return this.toFatfRecords(entries);
+  }
+
+  // Header row with a country column (ISO code or name), a list column and optionally as_of
+  parseFatfCsv(content: string): ParsedRiskRecord[] {
+    const rows = readRows(content);
+    const header = (rows[0] || []).map(cell => cell.toLowerCase().replace(/\s+/g, '_'));
+    const countryCol = headerIndex(header, 'iso2', 'iso', 'iso3', 'code', 'country', 'jurisdiction', 'name');
+    const listCol = headerIndex(header, 'list', 'status');
+    const asOfCol = headerIndex(header, 'as_of', 'asof', 'date');
+    if (countryCol === -1 || listCol === -1) {
+      throw new Error('Unrecognized FATF CSV: expected country and list columns');
+    }
+
+    return this.toFatfRecords(rows.slice(1).map(row => ({
+      country: row[countryCol],
+      list: row[listCol],
+      asOf: asOfCol !== -1 ? row[asOfCol] : undefined,
+    })));
+  }
+
+  private toFatfRecords(entries: Array<{ country: string; list: string; asOf?: string }>): ParsedRiskRecord[] {
+    const records = new Map<string, ParsedRiskRecord>();
+    for (const entry of entries) {
+      const list = toFatfList(entry.list || '');
+      const country = (entry.country || '').trim();
+      if (!list || !country) continue;
+
+      const asOf = entry.asOf && !Number.isNaN(Date.parse(entry.asOf)) ? new Date(entry.asOf) : null;
+      const record: ParsedRiskRecord = {
+        country,
+        countryName: country.length > 3 ? country : undefined,
+        indicator: 'FATF',
+        year: (asOf ?? new Date()).getUTCFullYear(),
+        value: list,
+        score: FATF_LIST_SCORES[list],
+        confidence: FATF_CONFIDENCE,
+        details: { list, asOf: asOf ? asOf.toISOString().slice(0, 10) : null },
+      };
+      // A jurisdiction listed twice keeps the more severe listing
+      if ((records.get(country)?.score ?? -1) < record.score) records.set(country, record);
+    }
+    return Array.from(records.values());
+  }
+
+  // Maps codes and names from the files onto the countries table, which the cache references
+  private async countryResolver(): Promise<(code: string, name?: string) => string | null> {
+    const known = await db.select({ iso: countries.iso, name: countries.name }).from(countries);
+    const isoCodes = new Set(known.map(country => country.iso));
+    const display = new Intl.DisplayNames(['en'], { type: 'region' });
+    const byName = new Map<string, string>();
+    for (const country of known) {
+      byName.set(normalizeName(country.name), country.iso);
+      const displayName = display.of(country.iso);
+      if (displayName) byName.set(normalizeName(displayName), country.iso);
+    }
+
+    return (code, name) => {
+      const trimmed = code.trim();
+      const alpha2 = /^[A-Za-z]{2,3}$/.test(trimmed) ? toAlpha2(trimmed) : null;
+      if (alpha2 && isoCodes.has(alpha2)) return alpha2;
+      return byName.get(normalizeName(name || trimmed)) ?? null;
+    };
+  }
+
+  // One data source per dataset for direct imports; pointed at the latest file so a sync re-reads it
+  private async ensureDataSource(dataset: RiskDataset, filePath: string): Promise<string> {
+    const { name, dataType } = DATASETS[dataset];
+    const absolutePath = path.resolve(filePath);
+    const apiConfig: LocalDataSourceConfig = { files: [{ dataset, path: absolutePath }] };
+
+    const [existing] = await db
+      .select({ id: externalDataSources.id })
+      .from(externalDataSources)
+      .where(and(eq(externalDataSources.provider, 'local_regulatory'), eq(externalDataSources.name, name)))
+      .limit(1);
+
+    if (existing) {
+      await db
+        .update(externalDataSources)
+        .set({ apiEndpoint: `file://${absolutePath}`, apiConfig })
+        .where(eq(externalDataSources.id, existing.id));
+      return existing.id;
+    }
+
+    const [created] = await db
+      .insert(externalDataSources)
+      .values({
+        name,
+        provider: 'local_regulatory',
+        apiEndpoint: `file://${absolutePath}`,
+        dataType,
+        refreshFrequency: 'quarterly',
+        apiConfig,
+      })
+      .returning({ id: externalDataSources.id });
+    return created.id;
+  }
+}
+
+export const riskDataFileImportService = new RiskDataFileImportService();
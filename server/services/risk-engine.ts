@@ -1,355 +1,428 @@
-import { RiskCheckRequest, RiskAssessmentResult } from "@shared/schema";
-import { externalApis } from "./external-apis";
-import { storage } from "../storage";
 import { createChildLogger } from "../lib/logger";
-import { complyAdvantageProvider, type SanctionsCheckResult } from "../providers/comply-advantage";
-import { newsAPIProvider, type AdverseMediaResult } from "../providers/news-api";
+import { newsAPIProvider } from "../providers/news-api";
+import { localMediaProvider } from "../providers/local-media";
+import type { AdverseMediaResult } from "../providers/adverse-media-scoring";
+import { scoringProfileService } from "./scoring-profile-service";
+import { internalHistoryService, type InternalHistorySignals } from "./internal-history-service";
+import type { PaymentMethodRisk } from "./payment-method-risk-service";
+import type { FiredRule, RuleEvaluationResult } from "./rule-evaluator";
+import { registrationIdValidators, type RegistrationIdCheck } from "./registration-id-validators";
+import type { ProviderCallRecord } from "./evidence-store-service";
+import {
+  riskSignalPipeline,
+  SANCTIONS_PROVIDER,
+  MEDIA_PROVIDER,
+  type RiskAssessmentRequest,
+  type SanctionsCheckResult,
+  type SignalOutcome,
+  type SanctionsSignalDetails,
+  type AdverseMediaSignalDetails,
+  type CountryBaselineDetails,
+} from "./risk-signals";
+import type { SanctionsHit, ScoreEvidence, ScreenedParty } from "@shared/schema";
 
 const logger = createChildLogger('risk-engine');
 
-// Feature flags for provider selection
-const FEATURE_SANCTIONS_PROVIDER = process.env.FEATURE_SANCTIONS_PROVIDER || 'mock'; // 'mock' | 'complyadvantage'
-const FEATURE_MEDIA_PROVIDER = process.env.FEATURE_MEDIA_PROVIDER || 'mock'; // 'mock' | 'newsapi'
-
-interface RiskEngineConfig {
-  weights: {
-    sanctions: number;
-    pep: number;
-    adverseMedia: number;
-    internalHistory: number;
-    countryBaseline: number;
-  };
-  tierThresholds: {
-    low: number;
-    medium: number;
-    high: number;
-  };
+if (process.env.FEATURE_SANCTIONS_PROVIDER) {
+  logger.warn('FEATURE_SANCTIONS_PROVIDER is no longer read, set SANCTIONS_PROVIDER instead');
 }
 
-const DEFAULT_CONFIG: RiskEngineConfig = {
-  weights: {
-    sanctions: 0.45,
-    pep: 0.15,
-    adverseMedia: 0.15,
-    internalHistory: 0.15,
-    countryBaseline: 0.10,
-  },
-  tierThresholds: {
-    low: 33,
-    medium: 67,
-    high: 100,
-  },
-};
+export type { RiskAssessmentRequest } from "./risk-signals";
+
+// One numeric entry per registered risk signal, plus the history signals behind internalHistory
+export interface ScoreBreakdown {
+  sanctions: number;
+  pep: number;
+  adverseMedia: number;
+  internalHistory: number;
+  countryBaseline: number;
+  regulatory: number;
+  paymentMethod: number;
+  internalHistorySignals: InternalHistorySignals;
+  [signal: string]: number | InternalHistorySignals;
+}
 
-interface RiskAssessmentInput extends RiskCheckRequest {
+export interface RiskAssessmentResult {
+  id: string;
   contractorId: string;
+  overallScore: number;
+  riskTier: 'low' | 'medium' | 'high';
+  topRisks: Array<{ title: string; description: string; severity: 'low' | 'medium' | 'high' }>;
+  recommendations: string[];
+  penaltyRange: string;
+  partialSources?: string[];
+  rulesetVersion: number;
+  breakdown: ScoreBreakdown;
+  paymentMethodRisk: PaymentMethodRisk | null;
+  registrationIdCheck: RegistrationIdCheck | null;
+  evidence: ScoreEvidence;
+  providerCalls: ProviderCallRecord[]; // raw provider responses, persisted by the caller once the score has an ID
+  firedRules: FiredRule[];
+  scoringProfileVersion: number;
+  sanctionsHits: SanctionsHit[];
+  screenedParties: ScreenedParty[]; // per-party sanctions outcome behind the rolled-up score
+  generatedAt: string;
+  expiresAt: string;
+  providerInfo?: {
+    sanctions: any;
+    adverseMedia: any;
+  };
 }
 
-class RiskEngine {
-  private config: RiskEngineConfig;
-
-  constructor(config: RiskEngineConfig = DEFAULT_CONFIG) {
-    this.config = config;
-  }
-
-  async assessRisk(input: RiskAssessmentInput): Promise<RiskAssessmentResult> {
-    logger.info({ contractorId: input.contractorId, countryIso: input.countryIso }, 'Starting risk assessment');
-
-    const partialSources: string[] = [];
-    let breakdown = {
-      sanctions: 0,
-      pep: 0,
-      adverseMedia: 0,
-      internalHistory: 0,
-      countryBaseline: 0,
-    };
-
+/**
+ * Scores a contractor from the registered risk signals (see ./risk-signals):
+ * each signal's score is weighted by the active scoring profile, signals
+ * without a weight are recorded in the breakdown but don't move the score.
+ */
+export class RiskEngine {
+  async assessRisk(request: RiskAssessmentRequest): Promise<RiskAssessmentResult> {
+    const startTime = Date.now();
+    const providerCalls: ProviderCallRecord[] = [];
+    
+    logger.info({ 
+      contractorName: request.contractorName, 
+      countryIso: request.countryIso, 
+      contractorType: request.contractorType,
+      sanctionsProvider: SANCTIONS_PROVIDER,
+      mediaProvider: MEDIA_PROVIDER,
+      signals: riskSignalPipeline.names
+    }, 'Starting risk assessment');
+    
     try {
-      // Run all risk checks in parallel
-      const [
-        sanctionsResult,
-        pepResult,
-        adverseMediaResult,
-        internalHistoryResult,
-        countryBaselineResult,
-      ] = await Promise.allSettled([
-        this.checkSanctions(input),
-        this.checkPEP(input),
-        this.checkAdverseMedia(input),
-        this.checkInternalHistory(input),
-        this.getCountryBaseline(input.countryIso),
-      ]);
-
-      // Process sanctions check
-      if (sanctionsResult.status === 'fulfilled') {
-        breakdown.sanctions = sanctionsResult.value;
-      } else {
-        logger.warn({ error: sanctionsResult.reason }, 'Sanctions check failed');
-        partialSources.push('sanctions');
-        breakdown.sanctions = 50; // Conservative default
-      }
-
-      // Process PEP check
-      if (pepResult.status === 'fulfilled') {
-        breakdown.pep = pepResult.value;
-      } else {
-        logger.warn({ error: pepResult.reason }, 'PEP check failed');
-        partialSources.push('pep');
-        breakdown.pep = 30; // Conservative default
-      }
-
-      // Process adverse media check
-      if (adverseMediaResult.status === 'fulfilled') {
-        breakdown.adverseMedia = adverseMediaResult.value;
-      } else {
-        logger.warn({ error: adverseMediaResult.reason }, 'Adverse media check failed');
-        partialSources.push('adverse_media');
-        breakdown.adverseMedia = 25; // Conservative default
-      }
-
-      // Process internal history check
-      if (internalHistoryResult.status === 'fulfilled') {
-        breakdown.internalHistory = internalHistoryResult.value;
-      } else {
-        logger.warn({ error: internalHistoryResult.reason }, 'Internal history check failed');
-        partialSources.push('internal_history');
-        breakdown.internalHistory = 20; // Conservative default
-      }
-
-      // Process country baseline
-      if (countryBaselineResult.status === 'fulfilled') {
-        breakdown.countryBaseline = countryBaselineResult.value;
-      } else {
-        logger.warn({ error: countryBaselineResult.reason }, 'Country baseline check failed');
-        partialSources.push('country_baseline');
-        breakdown.countryBaseline = 15; // Conservative default
-      }
-
+      // Weights and tier thresholds come from the active scoring profile
+      const profile = await scoringProfileService.getActiveProfile();
+      const { weights, tierThresholds } = profile;
+
+      const outcomes = await riskSignalPipeline.run({ request, providerCalls });
+      const partialSources = Array.from(outcomes.values()).flatMap(outcome => outcome.partialSources);
+
+      const sanctions = outcomes.get('sanctions') as SignalOutcome<SanctionsSignalDetails> | undefined;
+      const media = outcomes.get('adverseMedia') as SignalOutcome<AdverseMediaSignalDetails> | undefined;
+      const baseline = outcomes.get('countryBaseline') as SignalOutcome<CountryBaselineDetails> | undefined;
+      const regulatory = outcomes.get('regulatory') as SignalOutcome<RuleEvaluationResult> | undefined;
+      const history = outcomes.get('internalHistory') as SignalOutcome<InternalHistorySignals> | undefined;
+      const payment = outcomes.get('paymentMethod') as SignalOutcome<PaymentMethodRisk | null> | undefined;
+
+      const sanctionsInfo: SanctionsCheckResult | null = sanctions?.details?.info ?? null;
+      const screenedParties = sanctions?.details?.parties ?? [];
+      const mediaInfo: AdverseMediaResult | null = media?.status === 'ok' ? media.details?.info ?? null : null;
+      const rules: RuleEvaluationResult = regulatory?.details ?? { score: 0, rulesetVersion: 0, firedRules: [] };
+      const paymentMethodRisk = payment?.details ?? null;
+
+      // Registration ID format and check digits, where a validator exists for the country
+      const registrationIdCheck = request.registrationId
+        ? registrationIdValidators.validate(request.countryIso, request.registrationId)
+        : null;
+
+      const overallScore = Math.round(Array.from(outcomes.values()).reduce(
+        (sum, outcome) => sum + outcome.score * (weights[outcome.name] ?? 0),
+        0
+      ));
+      
+      // Determine risk tier
+      const riskTier = scoringProfileService.determineTier(overallScore, tierThresholds);
+      
+      // Generate contextual risks and recommendations
+      const { topRisks, recommendations, penaltyRange } = this.generateRiskContext(
+        request.countryIso,
+        riskTier,
+        overallScore,
+        request.contractorType,
+        sanctionsInfo,
+        mediaInfo,
+        rules.firedRules,
+        paymentMethodRisk,
+        registrationIdCheck,
+        screenedParties
+      );
+      
+      const breakdown = {
+        ...Object.fromEntries(Array.from(outcomes.values()).map(outcome => [outcome.name, outcome.score])),
+        internalHistorySignals: history?.details ?? internalHistoryService.emptySignals()
+      } as ScoreBreakdown;
+      
+      const evidence: ScoreEvidence = {
+        sanctions: {
+          provider: sanctions?.details?.provider || SANCTIONS_PROVIDER,
+          lists: sanctionsInfo?.details?.lists || [],
+          fallback: (sanctions?.fallback as NonNullable<ScoreEvidence['sanctions']>['fallback']) ?? null,
+          ...(request.entity && { parties: screenedParties })
+        },
+        adverseMedia: {
+          provider: mediaInfo?.sources?.[0] || MEDIA_PROVIDER,
+          articles: (mediaInfo?.articles || []).slice(0, 10).map(({ title, url, publishedAt, sentiment, categories, severity, relevance, resolution }) => ({
+            title, url, publishedAt, sentiment, categories, severity, relevance, resolution
+          })),
+          excludedArticles: (mediaInfo?.excludedArticles || []).slice(0, 10),
+          categories: (mediaInfo?.categories || []).map(({ category, articles, severity, score }) => ({
+            category, articles, severity, score
+          })),
+          fallback: !mediaInfo
+        },
+        countryBaseline: {
+          source: baseline?.details?.source || 'static-country-map',
+          // The static table is itself the fallback for the governance indicators
+          fallback: baseline?.status !== 'ok' || baseline.details?.source !== 'governance-indicators',
+          ...(baseline?.details?.indicators && {
+            confidence: baseline.details.confidence,
+            indicators: baseline.details.indicators.map(({ indicator, year, score, weight, freshness }) => ({
+              indicator, year, score, weight, freshness
+            }))
+          })
+        },
+        paymentMethod: paymentMethodRisk && {
+          method: paymentMethodRisk.method,
+          baseScore: paymentMethodRisk.baseScore,
+          crossBorder: paymentMethodRisk.crossBorder,
+          cryptoRestricted: paymentMethodRisk.cryptoRestricted,
+          policySource: paymentMethodRisk.policySource
+        },
+        registrationId: registrationIdCheck && {
+          checked: registrationIdCheck.checked,
+          valid: registrationIdCheck.valid,
+          type: registrationIdCheck.type,
+          reason: registrationIdCheck.reason
+        }
+      };
+
+      // Ensure topRisks and recommendations are always arrays for React
+      const safeTopRisks = Array.isArray(topRisks) ? topRisks : [topRisks].filter(Boolean);
+      const safeRecommendations = Array.isArray(recommendations) ? recommendations : [recommendations].filter(Boolean);
+
+      const result: RiskAssessmentResult = {
+        id: crypto.randomUUID(),
+        contractorId: '', // Will be set by caller
+        overallScore,
+        riskTier,
+        topRisks: safeTopRisks,
+        recommendations: safeRecommendations,
+        penaltyRange,
+        partialSources: partialSources.length > 0 ? partialSources : undefined,
+        rulesetVersion: rules.rulesetVersion,
+        breakdown,
+        firedRules: rules.firedRules,
+        scoringProfileVersion: profile.version,
+        sanctionsHits: sanctionsInfo?.details?.hits || [],
+        screenedParties,
+        paymentMethodRisk,
+        registrationIdCheck,
+        evidence,
+        providerCalls,
+        generatedAt: new Date().toISOString(),
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // 24h expiry
+        providerInfo: {
+          sanctions: sanctionsInfo,
+          adverseMedia: mediaInfo
+        }
+      };
+      
+      const duration = Date.now() - startTime;
+      logger.info({ 
+        duration, 
+        overallScore, 
+        riskTier,
+        partialSources,
+        rulesetVersion: rules.rulesetVersion,
+        firedRules: rules.firedRules.length,
+        scoringProfileVersion: profile.version,
+        signals: Array.from(outcomes.values()).map(({ name, status, durationMs }) => ({ name, status, durationMs })),
+        providers: {
+          sanctions: SANCTIONS_PROVIDER,
+          media: MEDIA_PROVIDER
+        }
+      }, 'Risk assessment completed');
+      
+      return result;
+      
     } catch (error) {
-      logger.error({ error }, 'Error during risk assessment');
+      const duration = Date.now() - startTime;
+      logger.error({ 
+        error: error instanceof Error ? error.message : 'Unknown error', 
+        duration 
+      }, 'Risk assessment failed');
       throw error;
     }
+  }
 
-    // Calculate weighted score
-    const score = Math.round(
-      breakdown.sanctions * this.config.weights.sanctions +
-      breakdown.pep * this.config.weights.pep +
-      breakdown.adverseMedia * this.config.weights.adverseMedia +
-      breakdown.internalHistory * this.config.weights.internalHistory +
-      breakdown.countryBaseline * this.config.weights.countryBaseline
-    );
-
-    // Determine tier
-    const tier = this.determineTier(score);
-
-    // Generate recommendations and risk factors
-    const { topRisks, recommendations } = await this.generateRecommendations(input, breakdown, score);
-
-    // Get penalty range
-    const penaltyRange = this.getPenaltyRange(tier);
-
-    // Get current ruleset version
-    const rulesetVersion = await this.getCurrentRulesetVersion(input.countryIso);
-
-    const result: RiskAssessmentResult = {
-      score,
-      tier,
-      topRisks,
-      recommendations,
-      penaltyRange,
-      partialSources,
-      rulesetVersion,
-      breakdown,
+  private generateRiskContext(
+    countryIso: string,
+    riskTier: 'low' | 'medium' | 'high',
+    overallScore: number,
+    contractorType: string,
+    sanctionsInfo?: any,
+    mediaInfo?: AdverseMediaResult | null,
+    firedRules: FiredRule[] = [],
+    paymentMethodRisk: PaymentMethodRisk | null = null,
+    registrationIdCheck: RegistrationIdCheck | null = null,
+    screenedParties: ScreenedParty[] = []
+  ) {
+    const countryNames: Record<string, string> = {
+      'US': 'United States', 'GB': 'United Kingdom', 'CA': 'Canada',
+      'AU': 'Australia', 'DE': 'Germany', 'FR': 'France'
     };
 
-    logger.info({ 
-      contractorId: input.contractorId, 
-      score, 
-      tier, 
-      partialSources 
-    }, 'Risk assessment completed');
-
-    return result;
-  }
-
-  private async checkSanctions(input: RiskAssessmentInput): Promise<number> {
-    try {
-      const result = await externalApis.checkSanctions({
-        name: input.contractorName || '',
-        country: input.countryIso,
-        registrationId: input.registrationId,
+    const countryName = countryNames[countryIso] || 'Selected country';
+    
+    // Generate top risks based on actual provider results
+    const topRisks: Array<{ title: string; description: string; severity: 'low' | 'medium' | 'high' }> = [];
+    
+    // Name who matched when the contractor's company or its owners were screened too
+    const partyLabels: Record<ScreenedParty['role'], string> = {
+      contractor: 'Contractor',
+      entity: 'Contracting company',
+      beneficial_owner: 'Beneficial owner'
+    };
+    const describeParties = (flagged: ScreenedParty[], fallback: string) => flagged.length > 0
+      ? flagged.map(party => party.role === 'contractor' ? partyLabels.contractor : `${partyLabels[party.role]} ${party.name}`).join(', ')
+      : fallback;
+
+    if (sanctionsInfo?.isSanctioned) {
+      const who = describeParties(screenedParties.filter(party => party.isSanctioned), 'Contractor');
+      topRisks.push({
+        title: "Sanctions List Match",
+        description: `${who} ${who.includes(', ') ? 'appear' : 'appears'} on international sanctions lists`,
+        severity: "high" as const
       });
-
-      // Convert sanctions hits to score (0-100)
-      return Math.min(result.hitsCount * 25, 100);
-    } catch (error) {
-      logger.error({ error }, 'Sanctions API check failed');
-      throw error;
     }
-  }
-
-  private async checkPEP(input: RiskAssessmentInput): Promise<number> {
-    try {
-      const result = await externalApis.checkPEP({
-        name: input.contractorName || '',
-        country: input.countryIso,
+    
+    if (sanctionsInfo?.isPEP) {
+      topRisks.push({
+        title: "Politically Exposed Person",
+        description: `${describeParties(screenedParties.filter(party => party.isPEP), 'Contractor')} identified as politically exposed person`,
+        severity: "medium" as const
       });
-
-      // Convert PEP status to score
-      return result.isPEP ? 80 : 10;
-    } catch (error) {
-      logger.error({ error }, 'PEP API check failed');
-      throw error;
     }
-  }
 
-  private async checkAdverseMedia(input: RiskAssessmentInput): Promise<number> {
-    try {
-      const result = await externalApis.checkAdverseMedia({
-        name: input.contractorName || '',
-        country: input.countryIso,
+    const invalidCompanyNumber = screenedParties.find(party => party.registrationNumber?.valid === false)?.registrationNumber;
+    if (invalidCompanyNumber) {
+      topRisks.push({
+        title: `Invalid company ${invalidCompanyNumber.type} number`,
+        description: `${invalidCompanyNumber.reason || 'Company registration number failed validation'} (${invalidCompanyNumber.value})`,
+        severity: "high" as const
       });
-
-      // Convert mentions to score
-      return Math.min(result.mentionsCount * 10, 100);
-    } catch (error) {
-      logger.error({ error }, 'Adverse media API check failed');
-      throw error;
     }
-  }
-
-  private async checkInternalHistory(input: RiskAssessmentInput): Promise<number> {
-    try {
-      const history = await storage.getContractorHistory(
-        input.contractorName || '',
-        input.countryIso
-      );
-
-      if (history.length === 0) return 0;
-
-      // Calculate score based on historical risk scores
-      const avgHistoricalScore = history.reduce((sum, h) => sum + h.score, 0) / history.length;
-      return Math.round(avgHistoricalScore * 0.5); // Reduce weight for historical data
-    } catch (error) {
-      logger.error({ error }, 'Internal history check failed');
-      throw error;
+    
+    if (mediaInfo?.hasAdverseMedia) {
+      // Lead with the worst category; name the others so they aren't lost to the top-5 trim
+      const [topCategory, ...otherCategories] = mediaInfo.categories ?? [];
+      topRisks.push(topCategory ? {
+        title: `Adverse Media: ${topCategory.label}`,
+        description: `${topCategory.articles} ${topCategory.articles === 1 ? 'article links' : 'articles link'} the contractor to ${topCategory.label.toLowerCase()}`
+          + (otherCategories.length > 0 ? `; also ${otherCategories.map(category => category.label.toLowerCase()).join(', ')}` : ''),
+        severity: topCategory.severity >= 70 ? "high" as const : topCategory.severity >= 40 ? "medium" as const : "low" as const
+      } : {
+        title: "Adverse Media Coverage",
+        description: `Negative media coverage found related to contractor`,
+        severity: "medium" as const
+      });
     }
-  }
 
-  private async getCountryBaseline(countryIso: string): Promise<number> {
-    try {
-      const country = await storage.getCountryByIso(countryIso);
-      if (!country) return 50; // Default moderate risk
-
-      // Get country-specific baseline risk from compliance rules
-      const rules = await storage.getComplianceRules({ 
-        countryIso, 
-        status: 'published' 
+    if (registrationIdCheck?.valid === false) {
+      topRisks.push({
+        title: `Invalid ${registrationIdCheck.type} registration ID`,
+        description: `${registrationIdCheck.reason || 'Registration ID failed validation'} (${registrationIdCheck.normalized})`,
+        severity: "high" as const
       });
+    }
 
-      if (rules.length === 0) return 30; // Low risk if no specific rules
+    if (paymentMethodRisk?.cryptoRestricted) {
+      topRisks.push({
+        title: "Restricted payment method",
+        description: `Crypto payouts are restricted for contractors in ${countryName}`,
+        severity: "high" as const
+      });
+    } else if (paymentMethodRisk && paymentMethodRisk.score >= 60) {
+      topRisks.push({
+        title: "High-risk payment method",
+        description: `Payouts via ${paymentMethodRisk.method} are harder to trace and reconcile for tax reporting`,
+        severity: "medium" as const
+      });
+    }
 
-      // Calculate baseline from rule severities
-      const avgSeverity = rules.reduce((sum, rule) => sum + rule.severity, 0) / rules.length;
-      return Math.round(avgSeverity * 10); // Convert 1-10 scale to 0-100
-    } catch (error) {
-      logger.error({ error }, 'Country baseline check failed');
-      throw error;
+    // Surface the most severe published rules that applied to this country
+    for (const rule of firedRules.slice(0, 2)) {
+      topRisks.push({
+        title: `Regulatory rule: ${rule.ruleType}`,
+        description: rule.description,
+        severity: rule.severity >= 8 ? "high" as const : rule.severity >= 5 ? "medium" as const : "low" as const
+      });
     }
-  }
 
-  private determineTier(score: number): 'low' | 'medium' | 'high' {
-    if (score < this.config.tierThresholds.low) return 'low';
-    if (score < this.config.tierThresholds.medium) return 'medium';
-    return 'high';
-  }
+    // Add standard country/compliance risks
+    topRisks.push({
+      title: "Standard compliance requirements",
+      description: `${countryName} regulatory environment requires careful compliance monitoring`,
+      severity: riskTier === 'high' ? "high" as const : "medium" as const
+    });
+
+    if (paymentMethodRisk?.crossBorder) {
+      topRisks.push({
+        title: "Cross-border payment considerations",
+        description: `${paymentMethodRisk.method} payouts to ${countryName} are cross-border and need additional due diligence and reporting`,
+        severity: "medium" as const
+      });
+    } else if (!paymentMethodRisk && (riskTier === 'medium' || riskTier === 'high')) {
+      topRisks.push({
+        title: "Cross-border payment considerations",
+        description: `International payments require additional due diligence and reporting`,
+        severity: "medium" as const
+      });
+    }
 
-  private async generateRecommendations(
-    input: RiskAssessmentInput, 
-    breakdown: any, 
-    score: number
-  ): Promise<{ 
-    topRisks: Array<{ title: string; description: string; severity: 'low' | 'medium' | 'high' }>; 
-    recommendations: string[] 
-  }> {
-    const topRisks = [];
-    const recommendations = [];
+    // Trim to top 5 risks
+    const finalRisks = topRisks.slice(0, 5);
 
-    // Identify top risk factors
-    const riskFactors = [
-      { name: 'Sanctions', score: breakdown.sanctions },
-      { name: 'PEP', score: breakdown.pep },
-      { name: 'Adverse Media', score: breakdown.adverseMedia },
-      { name: 'Internal History', score: breakdown.internalHistory },
-      { name: 'Country Baseline', score: breakdown.countryBaseline },
-    ].sort((a, b) => b.score - a.score);
+    // Generate recommendations
+    const recommendations = [
+      "Review local employment laws and regulations",
+      "Ensure proper tax compliance and withholding procedures",
+      "Maintain updated contractor agreements and documentation"
+    ];
 
-    // Generate risk factors
-    for (const factor of riskFactors.slice(0, 3)) {
-      if (factor.score > 20) {
-        topRisks.push({
-          title: `${factor.name} Risk`,
-          description: this.getRiskDescription(factor.name, factor.score),
-          severity: factor.score > 60 ? 'high' : factor.score > 30 ? 'medium' : 'low',
-        });
-      }
+    if (sanctionsInfo?.isSanctioned || sanctionsInfo?.isPEP) {
+      recommendations.unshift("Conduct enhanced due diligence before engagement");
     }
 
-    // Generate recommendations based on risk factors
-    if (breakdown.sanctions > 30) {
-      recommendations.push('Conduct enhanced due diligence and sanctions screening');
-    }
-    if (breakdown.pep > 30) {
-      recommendations.push('Implement PEP monitoring and reporting procedures');
-    }
-    if (breakdown.adverseMedia > 30) {
-      recommendations.push('Monitor adverse media mentions and establish reputational risk controls');
-    }
-    if (breakdown.internalHistory > 30) {
-      recommendations.push('Review previous compliance issues and implement corrective measures');
-    }
-    if (breakdown.countryBaseline > 40) {
-      recommendations.push('Apply country-specific compliance requirements and enhanced monitoring');
+    if (registrationIdCheck?.valid === false) {
+      recommendations.unshift("Verify the contractor's registration ID with the issuing authority before onboarding");
     }
 
-    // Add general recommendations based on overall score
-    if (score > 50) {
-      recommendations.push('Consider increased oversight and regular compliance reviews');
+    if (mediaInfo?.hasAdverseMedia) {
+      recommendations.push("Monitor ongoing media coverage and reputation risks");
     }
-    
-    return { topRisks, recommendations };
-  }
 
-  private getRiskDescription(factorName: string, score: number): string {
-    const descriptions = {
-      'Sanctions': 'Potential sanctions list matches requiring investigation and verification',
-      'PEP': 'Politically Exposed Person status requiring enhanced due diligence',
-      'Adverse Media': 'Negative media coverage indicating potential reputational risks',
-      'Internal History': 'Previous compliance issues or risk factors in our records',
-      'Country Baseline': 'Country-specific regulatory and compliance risks',
+    // Penalty ranges based on risk tier and country
+    const penaltyRanges = {
+      low: "$1,000 - $10,000",
+      medium: "$5,000 - $50,000", 
+      high: "$25,000 - $500,000"
     };
 
-    return descriptions[factorName as keyof typeof descriptions] || 'Risk factor requiring attention';
-  }
-
-  private getPenaltyRange(tier: 'low' | 'medium' | 'high'): string {
-    const ranges = {
-      low: '$500 - $2,500 in potential fines for minor compliance issues',
-      medium: '$2,500 - $25,000 in potential fines for moderate compliance violations',
-      high: '$25,000 - $500,000+ in potential fines for serious compliance violations',
+    return {
+      topRisks: finalRisks,
+      recommendations,
+      penaltyRange: penaltyRanges[riskTier]
     };
-
-    return ranges[tier];
   }
 
-  private async getCurrentRulesetVersion(countryIso: string): Promise<number> {
-    try {
-      const version = await storage.getCurrentRulesetVersion(countryIso);
-      return version || 1;
-    } catch (error) {
-      logger.warn({ error, countryIso }, 'Failed to get ruleset version');
-      return 1;
-    }
+  // Provider information methods
+  getProviderStatus() {
+    return {
+      sanctions: {
+        enabled: SANCTIONS_PROVIDER,
+        provider: SANCTIONS_PROVIDER === 'mock' ?
+          { name: 'Mock', configured: true } :
+          { name: SANCTIONS_PROVIDER, configured: true }
+      },
+      adverseMedia: {
+        enabled: MEDIA_PROVIDER,
+        provider: MEDIA_PROVIDER === 'newsapi' ?
+          newsAPIProvider.getProviderInfo() :
+          MEDIA_PROVIDER === 'local' ?
+          localMediaProvider.getProviderInfo() :
+          { name: 'Mock', configured: true }
+      }
+    };
   }
 }
 
@@ -0,0 +1,67 @@
+import { createChildLogger } from "../../lib/logger";
+import { newsAPIProvider } from "../../providers/news-api";
+import { localMediaProvider } from "../../providers/local-media";
+import type { AdverseMediaResult } from "../../providers/adverse-media-scoring";
+import type { MediaSubjectContext } from "../../providers/adverse-media-entity-resolution";
+import { evidenceStoreService } from "../evidence-store-service";
+import { providerCacheService } from "../provider-cache-service";
+import { getMockAdverseMediaResult } from "./mock-data";
+import type { RiskSignal } from "./types";
+
+const logger = createChildLogger('adverse-media-signal');
+
+export const MEDIA_PROVIDER = process.env.FEATURE_MEDIA_PROVIDER || 'mock'; // 'mock' | 'newsapi' | 'local'
+
+export interface AdverseMediaSignalDetails {
+  info: AdverseMediaResult;
+}
+
+export const adverseMediaSignal: RiskSignal<AdverseMediaSignalDetails> = {
+  name: 'adverseMedia',
+  timeoutMs: 10000,
+  unavailableSource: 'adverse-media-timeout',
+  fallback: { type: 'default', score: 15 }, // moderate risk assumption
+
+  async score(context) {
+    const { request } = context;
+    const { contractorName, countryIso } = request;
+    // Context that tells the contractor's articles from a namesake's
+    const subject: MediaSubjectContext = {
+      nationality: request.nationality,
+      companyName: request.entity?.companyName,
+      role: request.role,
+      email: request.contractorEmail,
+      registrationId: request.registrationId,
+    };
+
+    // An empty local store throws, so the signal takes its fallback rather than scoring clean
+    const info = MEDIA_PROVIDER === 'local'
+      ? await evidenceStoreService.capture(
+          context.providerCalls,
+          { category: 'adverse_media', provider: 'local-media' },
+          () => localMediaProvider.checkAdverseMedia(contractorName, countryIso, subject)
+        )
+      : MEDIA_PROVIDER === 'newsapi'
+      ? await evidenceStoreService.captureCached(
+          context.providerCalls,
+          { category: 'adverse_media', provider: 'newsapi' },
+          () => providerCacheService.wrap(
+            // The context changes which articles are kept, so it is part of the key
+            { provider: 'newsapi', name: contractorName, countryIso, attributes: subject },
+            () => newsAPIProvider.checkAdverseMedia(contractorName, countryIso, subject),
+            { bypass: request.bypassCache }
+          )
+        )
+      : getMockAdverseMediaResult(contractorName, countryIso);
+
+    logger.info({
+      provider: MEDIA_PROVIDER,
+      hasAdverseMedia: info.hasAdverseMedia,
+      riskScore: info.riskScore,
+      articlesFound: info.articles?.length || 0,
+      articlesExcluded: info.excludedArticles?.length || 0
+    }, 'Adverse media check completed');
+
+    return { score: info.riskScore, details: { info } };
+  },
+};
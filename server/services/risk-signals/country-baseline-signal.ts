@@ -0,0 +1,62 @@
+import { countryBaselineService, type BaselineIndicator } from "../country-baseline-service";
+import type { RiskSignal, SignalResult } from "./types";
+
+// Last resort when the external data cache has too little for the country
+const COUNTRY_RISK: Record<string, number> = {
+  'US': 15, 'GB': 12, 'CA': 10, 'AU': 8, 'DE': 14,
+  'FR': 16, 'IT': 20, 'ES': 18, 'NL': 11, 'SE': 7,
+  'NO': 6, 'DK': 8, 'CH': 5, 'SG': 12, 'HK': 22,
+  'JP': 10, 'KR': 18, 'IN': 35, 'CN': 45, 'BR': 32,
+  'MX': 28, 'AR': 30, 'CL': 25, 'RU': 55, 'TR': 40,
+  'ZA': 38, 'NG': 45, 'EG': 42, 'PK': 48, 'BD': 50,
+  'IR': 75, 'IQ': 80, 'AF': 85, 'SY': 90, 'KP': 95
+};
+
+const DEFAULT_BASELINE = 25;
+
+export interface CountryBaselineDetails {
+  source: 'governance-indicators' | 'static-country-map';
+  confidence?: number;
+  coverage?: number;
+  indicators?: BaselineIndicator[];
+}
+
+function staticBaseline(countryIso: string): SignalResult<CountryBaselineDetails> {
+  return {
+    score: COUNTRY_RISK[countryIso] || DEFAULT_BASELINE,
+    details: { source: 'static-country-map' },
+    partialSources: ['country-baseline-static-map'],
+  };
+}
+
+export const countryBaselineSignal: RiskSignal<CountryBaselineDetails> = {
+  name: 'countryBaseline',
+  timeoutMs: 5000,
+  unavailableSource: 'country-baseline-unavailable',
+  // The cache could not be read at all; the static table still beats a flat default
+  fallback: {
+    type: 'handler',
+    async handle(context) {
+      return staticBaseline(context.request.countryIso);
+    },
+  },
+
+  async score(context) {
+    const baseline = await countryBaselineService.getBaseline(context.request.countryIso);
+    if (!baseline) {
+      return staticBaseline(context.request.countryIso);
+    }
+
+    return {
+      score: baseline.score,
+      details: {
+        source: 'governance-indicators',
+        confidence: baseline.confidence,
+        coverage: baseline.coverage,
+        indicators: baseline.indicators,
+      },
+      // Still scored from the cache, but from entries a sync should have replaced
+      partialSources: baseline.stale ? ['country-baseline-stale'] : [],
+    };
+  },
+};
@@ -0,0 +1,26 @@
+import { RiskSignalPipeline } from "./pipeline";
+import { sanctionsSignal } from "./sanctions-signal";
+import { pepSignal } from "./pep-signal";
+import { adverseMediaSignal } from "./adverse-media-signal";
+import { countryBaselineSignal } from "./country-baseline-signal";
+import { regulatorySignal } from "./regulatory-signal";
+import { internalHistorySignal } from "./internal-history-signal";
+import { paymentMethodSignal } from "./payment-method-signal";
+
+export * from "./types";
+export { RiskSignalPipeline } from "./pipeline";
+export { SANCTIONS_PROVIDER, type SanctionsSignalDetails } from "./sanctions-signal";
+export { MEDIA_PROVIDER, type AdverseMediaSignalDetails } from "./adverse-media-signal";
+export type { CountryBaselineDetails } from "./country-baseline-signal";
+
+// Signals run for every assessment; register additional ones here or at startup
+export const riskSignalPipeline = new RiskSignalPipeline();
+[
+  sanctionsSignal,
+  pepSignal,
+  adverseMediaSignal,
+  countryBaselineSignal,
+  regulatorySignal,
+  internalHistorySignal,
+  paymentMethodSignal,
+].forEach(signal => riskSignalPipeline.register(signal));
@@ -0,0 +1,16 @@
+import { internalHistoryService, type InternalHistorySignals } from "../internal-history-service";
+import type { RiskSignal } from "./types";
+
+// Our own prior assessments of the same person or registration ID
+export const internalHistorySignal: RiskSignal<InternalHistorySignals> = {
+  name: 'internalHistory',
+  timeoutMs: 5000,
+  unavailableSource: 'internal-history-unavailable',
+  fallback: { type: 'default', score: 10 },
+
+  async score(context) {
+    const { contractorName, countryIso, registrationId } = context.request;
+    const { score, signals } = await internalHistoryService.score(contractorName, countryIso, registrationId);
+    return { score, details: signals };
+  },
+};
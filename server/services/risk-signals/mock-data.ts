@@ -0,0 +1,72 @@
+import { normalizeName } from "../../providers/sanctions/nameMatching";
+import type { SanctionsCheckResult } from "./types";
+import { scoreAdverseMedia, type AdverseMediaResult } from "../../providers/adverse-media-scoring";
+
+// Deterministic results for local development when no provider is configured
+
+export function hashString(str: string): number {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    const char = str.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+  return Math.abs(hash);
+}
+
+export function getMockSanctionsResult(contractorName: string, countryIso: string): SanctionsCheckResult {
+  // Hash the normalized name so spelling / script variants get the same mock result
+  const nameHash = hashString(normalizeName(contractorName));
+
+  const highRiskCountries = ['IR', 'KP', 'SY', 'AF'];
+  const baseRisk = highRiskCountries.includes(countryIso) ? 30 : 5;
+
+  const riskModifier = nameHash % 100;
+  const isSanctioned = riskModifier < 5; // 5% chance
+  const isPEP = riskModifier >= 5 && riskModifier < 15; // 10% chance
+
+  let riskScore = baseRisk;
+  if (isSanctioned) riskScore += 70;
+  if (isPEP) riskScore += 40;
+
+  return {
+    isSanctioned,
+    isPEP,
+    riskScore: Math.min(100, riskScore),
+    confidence: 95,
+    sources: ['mock-sanctions'],
+    details: { mockData: true, searchTerm: contractorName, countryCode: countryIso }
+  };
+}
+
+// Headlines for mock adverse media, one per classifier category so each can be exercised
+const MOCK_MEDIA_TOPICS = [
+  'fraud investigation',
+  'bribery probe',
+  'money laundering inquiry',
+  'tax evasion case',
+  'wage theft lawsuit',
+  'regulatory penalty'
+];
+
+export function getMockAdverseMediaResult(contractorName: string, countryIso: string): AdverseMediaResult {
+  const nameHash = hashString(contractorName);
+  const riskModifier = nameHash % 100;
+
+  const hasAdverseMedia = riskModifier < 15; // 15% chance
+  const riskScore = hasAdverseMedia ? 20 + (riskModifier % 40) : 0;
+
+  const articles = hasAdverseMedia ? [{
+    title: `${contractorName} named in ${MOCK_MEDIA_TOPICS[nameHash % MOCK_MEDIA_TOPICS.length]}`,
+    description: `Mock adverse media article for testing purposes`,
+    url: 'https://example.com/mock-article',
+    publishedAt: new Date().toISOString()
+  }] : [];
+
+  // Classified like real articles; only the score stays deterministic
+  return {
+    ...scoreAdverseMedia(articles, { name: contractorName, countryIso }, 'mock-media'),
+    riskScore,
+    confidence: 85
+  };
+}
@@ -0,0 +1,30 @@
+import { paymentMethodRiskService, DEFAULT_METHOD_SCORES, type PaymentMethodRisk } from "../payment-method-risk-service";
+import type { RiskSignal } from "./types";
+
+// Scores 0 when no payment method was submitted
+export const paymentMethodSignal: RiskSignal<PaymentMethodRisk | null> = {
+  name: 'paymentMethod',
+  timeoutMs: 5000,
+  unavailableSource: 'payment-policy-unavailable',
+  fallback: {
+    type: 'handler',
+    // The default method table still applies when the country policy can't be read
+    async handle(context) {
+      const method = context.request.paymentMethod;
+      if (!method) return { score: 0, details: null };
+      const baseScore = DEFAULT_METHOD_SCORES[method];
+      return {
+        score: baseScore,
+        details: { method, score: baseScore, baseScore, crossBorder: false, cryptoRestricted: false, policySource: 'default' },
+      };
+    },
+  },
+
+  async score(context) {
+    const { paymentMethod, countryIso } = context.request;
+    if (!paymentMethod) return { score: 0, details: null };
+
+    const risk = await paymentMethodRiskService.assess(paymentMethod, countryIso);
+    return { score: risk.score, details: risk };
+  },
+};
@@ -0,0 +1,16 @@
+import type { RiskSignal } from "./types";
+import type { SanctionsSignalDetails } from "./sanctions-signal";
+
+// Derived from the sanctions screening, after reviewer decisions were applied
+export const pepSignal: RiskSignal = {
+  name: 'pep',
+  timeoutMs: 1000,
+  dependsOn: ['sanctions'],
+  unavailableSource: 'pep-unavailable',
+  fallback: { type: 'default', score: 0 },
+
+  async score(_context, deps) {
+    const sanctions = deps.sanctions.details as SanctionsSignalDetails | undefined;
+    return { score: sanctions?.info?.isPEP ? 60 : 0 };
+  },
+};
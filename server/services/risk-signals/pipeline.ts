@@ -0,0 +1,106 @@
+import { createChildLogger } from "../../lib/logger";
+import type { RiskSignal, SignalContext, SignalDependencies, SignalOutcome, SignalResult } from "./types";
+
+const logger = createChildLogger('risk-signal-pipeline');
+
+class SignalTimeoutError extends Error {}
+
+/**
+ * Runs every registered risk signal for an assessment. Signals start as soon
+ * as the signals they depend on have finished, each under its own timeout;
+ * a signal that throws, times out or returns a non-numeric score is scored by
+ * its fallback policy instead, so one failing source never fails the check.
+ */
+export class RiskSignalPipeline {
+  private readonly registered = new Map<string, RiskSignal<any>>();
+
+  // Dependencies must already be registered, which also rules out cycles
+  register(signal: RiskSignal<any>): void {
+    if (this.registered.has(signal.name)) {
+      throw new Error(`Risk signal already registered: ${signal.name}`);
+    }
+    const missing = (signal.dependsOn || []).filter(name => !this.registered.has(name));
+    if (missing.length > 0) {
+      throw new Error(`Risk signal ${signal.name} depends on unregistered signals: ${missing.join(', ')}`);
+    }
+    this.registered.set(signal.name, signal);
+  }
+
+  get names(): string[] {
+    return Array.from(this.registered.keys());
+  }
+
+  // What the signal records in partialSources when it is scored by its fallback
+  unavailableSource(name: string): string | undefined {
+    return this.registered.get(name)?.unavailableSource;
+  }
+
+  async run(context: SignalContext): Promise<Map<string, SignalOutcome>> {
+    const running = new Map<string, Promise<SignalOutcome>>();
+
+    const start = (signal: RiskSignal): Promise<SignalOutcome> => {
+      let outcome = running.get(signal.name);
+      if (!outcome) {
+        outcome = Promise.all((signal.dependsOn || []).map(name => start(this.registered.get(name)!)))
+          .then(deps => this.runSignal(signal, context, Object.fromEntries(deps.map(dep => [dep.name, dep]))));
+        running.set(signal.name, outcome);
+      }
+      return outcome;
+    };
+
+    const outcomes = await Promise.all(Array.from(this.registered.values()).map(start));
+    return new Map(outcomes.map(outcome => [outcome.name, outcome]));
+  }
+
+  private async runSignal(signal: RiskSignal, context: SignalContext, deps: SignalDependencies): Promise<SignalOutcome> {
+    const startTime = Date.now();
+
+    try {
+      const result = await this.withTimeout(signal.score(context, deps), signal.timeoutMs);
+      if (!Number.isFinite(result.score)) {
+        throw new Error(`Risk signal ${signal.name} returned a non-numeric score`);
+      }
+      return this.toOutcome(signal.name, result, startTime);
+    } catch (error) {
+      logger.warn({
+        signal: signal.name,
+        timeout: error instanceof SignalTimeoutError,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 'Risk signal failed, using fallback');
+
+      const fallback = await this.runFallback(signal, context, error, deps);
+      return {
+        ...this.toOutcome(signal.name, fallback, startTime),
+        status: 'fallback',
+        partialSources: [signal.unavailableSource, ...(fallback.partialSources || [])],
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  private runFallback(signal: RiskSignal, context: SignalContext, error: unknown, deps: SignalDependencies): Promise<SignalResult> {
+    return signal.fallback.type === 'default'
+      ? Promise.resolve({ score: signal.fallback.score })
+      : signal.fallback.handle(context, error, deps);
+  }
+
+  private toOutcome(name: string, result: SignalResult, startTime: number): SignalOutcome {
+    return {
+      name,
+      score: result.score,
+      details: result.details,
+      status: 'ok',
+      fallback: result.fallback ?? null,
+      partialSources: result.partialSources || [],
+      durationMs: Date.now() - startTime,
+    };
+  }
+
+  private withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new SignalTimeoutError(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+}
@@ -0,0 +1,15 @@
+import { ruleEvaluator, type RuleEvaluationResult } from "../rule-evaluator";
+import type { RiskSignal } from "./types";
+
+// Published, in-effect compliance rules for the contractor's country
+export const regulatorySignal: RiskSignal<RuleEvaluationResult> = {
+  name: 'regulatory',
+  timeoutMs: 5000,
+  unavailableSource: 'regulatory-rules-unavailable',
+  fallback: { type: 'default', score: 0 },
+
+  async score(context) {
+    const result = await ruleEvaluator.evaluate(context.request.countryIso);
+    return { score: result.score, details: result };
+  },
+};
@@ -0,0 +1,332 @@
+import { createChildLogger } from "../../lib/logger";
+import { SanctionsFactory, type SanctionsResult } from "../../providers/sanctions/sanctionsFactory";
+import type { ConsensusMatch } from "../../providers/sanctions/compositeAdapter";
+import type { SubjectType } from "../../providers/sanctions/nameMatching";
+import type { SubjectAttributes } from "../../providers/sanctions/attributeMatching";
+import { matchAdjudicationService } from "../match-adjudication-service";
+import { evidenceStoreService } from "../evidence-store-service";
+import { providerCacheService } from "../provider-cache-service";
+import { registrationIdValidators } from "../registration-id-validators";
+import { getMockSanctionsResult } from "./mock-data";
+import type { RiskAssessmentRequest, RiskSignal, SanctionsCheckResult, SignalContext, SignalResult } from "./types";
+import type { SanctionsHit, ScreenedParty } from "@shared/schema";
+
+const logger = createChildLogger('sanctions-signal');
+
+// 'opensanctions' | 'seon' | 'amlbot' | 'complyadvantage' | 'local' | 'composite' | 'mock'
+export const SANCTIONS_PROVIDER = (process.env.SANCTIONS_PROVIDER || 'opensanctions').toLowerCase();
+
+const FACTORY_PROVIDERS = ['seon', 'amlbot', 'opensanctions', 'complyadvantage', 'local', 'composite'];
+
+export interface SanctionsSignalDetails {
+  info: SanctionsCheckResult | null; // null when the conservative default was used
+  provider: string;
+  parties: ScreenedParty[]; // one entry per screened party, empty for the conservative default
+}
+
+// Conservative score when neither the provider nor the imported lists answered
+const FALLBACK_HIGH_RISK_COUNTRIES = ['IR', 'KP', 'SY', 'AF', 'RU'];
+
+// Owners below the usual 25% beneficial-ownership threshold count for half their score
+const MINORITY_OWNERSHIP_PERCENT = 25;
+const MINORITY_OWNER_WEIGHT = 0.5;
+
+interface Party {
+  role: ScreenedParty['role'];
+  subjectType: SubjectType;
+  name: string;
+  countryIso: string;
+  ownershipPercent?: number;
+  ownerRole?: string;
+  registrationNumber?: string;
+  attributes?: SubjectAttributes; // people only
+}
+
+type PartyScreening = { party: Party; info: SanctionsCheckResult; partialSources: string[] };
+
+export const sanctionsSignal: RiskSignal<SanctionsSignalDetails> = {
+  name: 'sanctions',
+  timeoutMs: 15000,
+  unavailableSource: 'sanctions-timeout',
+  fallback: {
+    type: 'handler',
+    async handle(context) {
+      const parties = partiesToScreen(context.request);
+      const localResults = await Promise.all(parties.map(party =>
+        checkLocalListsFallback(party, context)
+      ));
+
+      if (localResults.every((result): result is SanctionsCheckResult => result !== null)) {
+        const screenings = await Promise.all(parties.map((party, i) => withDecisions(party, localResults[i])));
+        return { ...rollUp(screenings), fallback: 'local-lists' };
+      }
+      return {
+        score: FALLBACK_HIGH_RISK_COUNTRIES.includes(context.request.countryIso) ? 40 : 10,
+        details: { info: null, provider: SANCTIONS_PROVIDER, parties: [] },
+        fallback: 'conservative-default',
+      };
+    },
+  },
+
+  // Any party the provider could not screen fails the signal, so the fallback rescreens all of them
+  async score(context) {
+    const screenings = await Promise.all(partiesToScreen(context.request).map(async party => {
+      const info = await checkSanctions(party, context);
+      return withDecisions(party, info);
+    }));
+    const result = rollUp(screenings);
+
+    logger.info({
+      provider: SANCTIONS_PROVIDER,
+      parties: screenings.length,
+      isSanctioned: result.details?.info?.isSanctioned,
+      isPEP: result.details?.info?.isPEP,
+      riskScore: result.score
+    }, 'Sanctions check completed');
+
+    return result;
+  },
+};
+
+// The contractor, plus their company and its beneficial owners; each person is screened once
+function partiesToScreen(request: RiskAssessmentRequest): Party[] {
+  const parties: Party[] = [
+    {
+      role: 'contractor',
+      subjectType: 'person',
+      name: request.contractorName,
+      countryIso: request.countryIso,
+      attributes: { dateOfBirth: request.dateOfBirth, nationality: request.nationality },
+    },
+  ];
+  if (!request.entity) return parties;
+
+  const entityCountry = (request.entity.countryIso || request.countryIso).toUpperCase();
+  parties.push({
+    role: 'entity',
+    subjectType: 'entity',
+    name: request.entity.companyName,
+    countryIso: entityCountry,
+    registrationNumber: request.entity.registrationNumber,
+  });
+
+  for (const owner of request.entity.beneficialOwners) {
+    parties.push({
+      role: 'beneficial_owner',
+      subjectType: 'person',
+      name: owner.name,
+      countryIso: (owner.countryIso || entityCountry).toUpperCase(),
+      ownershipPercent: owner.ownershipPercent,
+      ownerRole: owner.role,
+      attributes: { dateOfBirth: owner.dateOfBirth, nationality: owner.nationality },
+    });
+  }
+
+  const seen = new Set<string>();
+  return parties.filter(party => {
+    const key = `${party.subjectType}|${matchAdjudicationService.contractorKey(party.name, party.countryIso)}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Hits a reviewer already cleared for this party no longer count
+async function withDecisions(party: Party, info: SanctionsCheckResult): Promise<PartyScreening> {
+  const failedProviders: Array<{ provider: string; status: string }> = info.details?.failedProviders || [];
+  // Consensus mode degrades gracefully when a minority of providers fail
+  const partialSources = failedProviders.map(({ provider, status }) =>
+    `sanctions-${provider}-${status === 'timeout' ? 'timeout' : 'error'}`
+  );
+
+  try {
+    const partyKey = matchAdjudicationService.contractorKey(party.name, party.countryIso);
+    const adjudicated = await matchAdjudicationService.applyDecisions(partyKey, tagHits(party, info));
+    return { party, info: adjudicated, partialSources };
+  } catch (error) {
+    logger.warn({ error, role: party.role }, 'Failed to apply sanctions match decisions');
+    return { party, info: tagHits(party, info), partialSources: [...partialSources, 'match-adjudication-unavailable'] };
+  }
+}
+
+// Hits on anyone but the contractor carry the party so reviewers can tell who matched
+function tagHits(party: Party, info: SanctionsCheckResult): SanctionsCheckResult {
+  if (party.role === 'contractor' || !info.details?.hits) return info;
+
+  const tag = { role: party.role, name: party.name, countryIso: party.countryIso };
+  return {
+    ...info,
+    details: { ...info.details, hits: (info.details.hits as SanctionsHit[]).map(hit => ({ ...hit, party: tag })) },
+  };
+}
+
+const partyWeight = (party: Party) =>
+  party.role === 'beneficial_owner' && party.ownershipPercent !== undefined && party.ownershipPercent < MINORITY_OWNERSHIP_PERCENT
+    ? MINORITY_OWNER_WEIGHT
+    : 1;
+
+/**
+ * One sanctions result for the whole assessment: the riskiest party sets the
+ * score, any flagged party flags the assessment, and hits and lists are merged.
+ * An individual contractor's result passes through unchanged.
+ */
+function rollUp(screenings: PartyScreening[]): SignalResult<SanctionsSignalDetails> {
+  const [contractor] = screenings;
+  const provider = contractor.info.details?.provider || contractor.info.sources?.[0] || SANCTIONS_PROVIDER;
+  const partialSources = Array.from(new Set(screenings.flatMap(screening => screening.partialSources)));
+
+  const parties: ScreenedParty[] = screenings.map(({ party, info }) => ({
+    role: party.role,
+    name: party.name,
+    countryIso: party.countryIso,
+    ...(party.ownershipPercent !== undefined && { ownershipPercent: party.ownershipPercent }),
+    ...(party.ownerRole && { ownerRole: party.ownerRole }),
+    ...(party.registrationNumber && { registrationNumber: checkRegistrationNumber(party) }),
+    score: info.riskScore,
+    weight: partyWeight(party),
+    isSanctioned: info.isSanctioned,
+    isPEP: info.isPEP,
+    hitCount: ((info.details?.hits as SanctionsHit[] | undefined) || []).filter(hit => !hit.suppressed).length,
+  }));
+
+  if (screenings.length === 1) {
+    return { score: contractor.info.riskScore, details: { info: contractor.info, provider, parties }, partialSources };
+  }
+
+  const score = Math.round(Math.max(...screenings.map(({ party, info }) => info.riskScore * partyWeight(party))));
+  const infos = screenings.map(({ info }) => info);
+  const union = (values: string[]) => Array.from(new Set(values));
+
+  const info: SanctionsCheckResult = {
+    isSanctioned: infos.some(i => i.isSanctioned),
+    isPEP: infos.some(i => i.isPEP),
+    riskScore: score,
+    confidence: Math.min(...infos.map(i => i.confidence)),
+    sources: union(infos.flatMap(i => i.sources || [])),
+    details: {
+      ...contractor.info.details,
+      provider,
+      totalMatches: infos.reduce((sum, i) => sum + (i.details?.totalMatches || 0), 0),
+      hits: infos.flatMap(i => i.details?.hits || []),
+      suppressedHits: infos.flatMap(i => i.details?.suppressedHits || []),
+      excludedMatches: infos.flatMap(i => i.details?.excludedMatches || []),
+      lists: union(infos.flatMap(i => i.details?.lists || [])),
+    },
+  };
+
+  return { score, details: { info, provider, parties }, partialSources };
+}
+
+function checkRegistrationNumber(party: Party): NonNullable<ScreenedParty['registrationNumber']> {
+  const check = registrationIdValidators.validate(party.countryIso, party.registrationNumber!);
+  return { value: check.normalized, valid: check.valid, type: check.type, reason: check.reason };
+}
+
+async function checkSanctions(party: Party, context: SignalContext): Promise<SanctionsCheckResult> {
+  const { name, countryIso, subjectType, attributes } = party;
+  // Composite answers with failed providers are partial, so they are not cached
+  const cached = <T>(provider: string, load: () => Promise<T>) => providerCacheService.wrap(
+    { provider, name, countryIso, subjectType, attributes: { ...attributes } },
+    load,
+    { bypass: context.request.bypassCache, shouldCache: (value: any) => !value?.metadata?.failedProviders?.length }
+  );
+
+  if (!FACTORY_PROVIDERS.includes(SANCTIONS_PROVIDER)) {
+    // Use mock provider only for testing
+    return getMockSanctionsResult(name, countryIso);
+  }
+
+  // Live sanctions providers (or the imported local lists); failures go to the fallback policy, never to mock data
+  try {
+    const adapter = SanctionsFactory.getAdapter();
+    const result = await evidenceStoreService.captureCached(
+      context.providerCalls,
+      { category: 'sanctions', provider: SANCTIONS_PROVIDER },
+      () => cached(SANCTIONS_PROVIDER, () => subjectType === 'entity'
+        ? adapter.screenEntity(name, countryIso)
+        : adapter.screenPerson(name, countryIso, attributes))
+    );
+    return toSanctionsCheckResult(result);
+  } catch (error) {
+    logger.error({
+      provider: SANCTIONS_PROVIDER,
+      subjectType,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, 'Live sanctions provider failed');
+    throw error;
+  }
+}
+
+/**
+ * Screens against the imported OFAC / EU / UN lists when the configured provider
+ * fails. Returns null when no lists are loaded so the caller can fall back further.
+ */
+async function checkLocalListsFallback(party: Party, context: SignalContext): Promise<SanctionsCheckResult | null> {
+  const { name, countryIso, subjectType, attributes } = party;
+  if (SANCTIONS_PROVIDER === 'local') return null;
+
+  try {
+    const result = await evidenceStoreService.capture(
+      context.providerCalls,
+      { category: 'sanctions', provider: 'local', role: 'fallback' },
+      () => subjectType === 'entity'
+        ? SanctionsFactory.getLocalAdapter().screenEntity(name, countryIso)
+        : SanctionsFactory.getLocalAdapter().screenPerson(name, countryIso, attributes)
+    );
+    const converted = toSanctionsCheckResult(result);
+    return {
+      ...converted,
+      details: { ...converted.details, fallbackFor: SANCTIONS_PROVIDER }
+    };
+  } catch (error) {
+    logger.warn({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, 'Local sanctions list fallback unavailable');
+    return null;
+  }
+}
+
+// Convert adapter output to the SanctionsCheckResult the score and stored evidence are built from
+function toSanctionsCheckResult(result: SanctionsResult): SanctionsCheckResult {
+  const pepMatches = result.matches.filter(match => match.categories.includes('pep'));
+  const sanctionMatches = result.matches.filter(match => match.categories.includes('sanction'));
+  const isComposite = result.metadata.provider === 'composite';
+
+  return {
+    isSanctioned: sanctionMatches.length > 0,
+    isPEP: pepMatches.length > 0,
+    riskScore: result.riskScore,
+    confidence: result.riskScore,
+    sources: [result.metadata.provider],
+    details: {
+      provider: result.metadata.provider,
+      requestId: result.metadata.requestId,
+      totalMatches: result.matches.length,
+      hits: matchAdjudicationService.extractHits(result),
+      sanctionMatches: sanctionMatches.length,
+      pepMatches: pepMatches.length,
+      processedAt: result.metadata.processedAt,
+      // Candidates the subject's DOB ruled out, with the reasons
+      excludedMatches: result.metadata.excludedMatches || [],
+      lists: result.metadata.lists ?? Array.from(new Set(result.matches.flatMap(match => match.lists))),
+      top_matches: result.matches.slice(0, 3).map(match => ({
+        name: match.name,
+        score: Math.round(match.nameScore * 100),
+        categories: match.categories,
+        lists: match.lists,
+        ...(isComposite && {
+          providers: (match as ConsensusMatch).providers,
+          agreement: (match as ConsensusMatch).agreement
+        })
+      })),
+      ...(result.metadata.queryNormalized && { queryNormalized: result.metadata.queryNormalized }),
+      ...(result.metadata.hits_count !== undefined && { hits_count: result.metadata.hits_count }),
+      // Consensus mode: per-provider outcomes and agreement
+      ...(isComposite && {
+        providers: result.metadata.providers,
+        agreement: result.metadata.agreement,
+        failedProviders: result.metadata.failedProviders
+      })
+    }
+  };
+}
@@ -0,0 +1,71 @@
+import type { EntityScreeningInput, PaymentMethod } from "@shared/schema";
+import type { ProviderCallRecord } from "../evidence-store-service";
+
+export interface RiskAssessmentRequest {
+  contractorName: string;
+  contractorEmail?: string;
+  countryIso: string;
+  contractorType: 'independent' | 'eor' | 'freelancer';
+  registrationId?: string;
+  paymentMethod?: PaymentMethod;
+  dateOfBirth?: string; // YYYY, YYYY-MM or YYYY-MM-DD
+  nationality?: string; // ISO 3166-1 alpha-2
+  role?: string; // line of work, matched against adverse media articles
+  entity?: EntityScreeningInput; // company the contractor invoices through, with its beneficial owners
+  bypassCache?: boolean; // skip cached provider responses, e.g. for a forced rescreen
+}
+
+// Shared by every signal in one assessment
+export interface SignalContext {
+  request: RiskAssessmentRequest;
+  providerCalls: ProviderCallRecord[];
+}
+
+export interface SignalResult<T = unknown> {
+  score: number; // 0-100
+  details?: T;
+  partialSources?: string[]; // degraded inputs that still produced an answer
+  fallback?: string; // set by fallback policies, e.g. 'local-lists'
+}
+
+// Outcomes of the signals named in `dependsOn`, keyed by signal name
+export type SignalDependencies = Record<string, SignalOutcome>;
+
+export type FallbackPolicy =
+  | { type: 'default'; score: number } // fixed conservative score
+  | { type: 'handler'; handle(context: SignalContext, error: unknown, deps: SignalDependencies): Promise<SignalResult> };
+
+/**
+ * A risk signal contributes one component to the overall score. Its name is
+ * the key used in the score breakdown and in the scoring profile weights, so a
+ * new signal only needs registering and a weight in the active profile.
+ */
+export interface RiskSignal<T = unknown> {
+  name: string;
+  timeoutMs: number;
+  dependsOn?: string[]; // signals whose outcome this one reads; they run first
+  unavailableSource: string; // recorded in partialSources when the fallback policy is used
+  fallback: FallbackPolicy;
+  score(context: SignalContext, deps: SignalDependencies): Promise<SignalResult<T>>;
+}
+
+export interface SignalOutcome<T = unknown> {
+  name: string;
+  score: number;
+  details?: T;
+  status: 'ok' | 'fallback';
+  fallback: string | null;
+  partialSources: string[];
+  durationMs: number;
+  error?: string;
+}
+
+// Sanctions / PEP outcome for one screened party, whichever provider answered
+export interface SanctionsCheckResult {
+  isSanctioned: boolean;
+  isPEP: boolean;
+  riskScore: number; // 0-100
+  confidence: number;
+  sources: string[];
+  details?: any;
+}
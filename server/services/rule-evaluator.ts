@@ -0,0 +1,113 @@
+import { eq, desc, and, lte } from "drizzle-orm";
+import { db } from "../lib/database";
+import {
+  complianceRules,
+  countries,
+  rulesetVersions,
+  ComplianceRule,
+} from "@shared/schema";
+import { createChildLogger } from "../lib/logger";
+
+const logger = createChildLogger('rule-evaluator');
+
+export interface FiredRule {
+  ruleId: string;
+  ruleType: string;
+  description: string;
+  severity: number; // 1-10 scale
+  version: number;
+  effectiveFrom: string;
+  sourceUrl: string | null;
+}
+
+export interface RuleEvaluationResult {
+  score: number; // 0-100 regulatory component
+  rulesetVersion: number; // 0 when no ruleset has been published for the country
+  firedRules: FiredRule[];
+}
+
+export class RuleEvaluator {
+  async evaluate(countryIso: string, asOf: Date = new Date()): Promise<RuleEvaluationResult> {
+    const [country] = await db
+      .select({ id: countries.id })
+      .from(countries)
+      .where(eq(countries.iso, countryIso.toUpperCase()))
+      .limit(1);
+
+    if (!country) {
+      logger.warn({ countryIso }, 'Country not found, no rules evaluated');
+      return { score: 0, rulesetVersion: 0, firedRules: [] };
+    }
+
+    const [rules, rulesetVersion] = await Promise.all([
+      this.getPublishedRules(country.id, asOf),
+      this.getCurrentRulesetVersion(country.id),
+    ]);
+
+    const firedRules = rules.map(rule => this.toFiredRule(rule));
+    const score = this.scoreRules(firedRules);
+
+    logger.debug({
+      countryIso,
+      rulesetVersion,
+      firedRules: firedRules.length,
+      score
+    }, 'Compliance rules evaluated');
+
+    return { score, rulesetVersion, firedRules };
+  }
+
+  /**
+   * The most severe rule sets the base (severity x 10), every other rule
+   * adds a fifth of its own weight on top, capped at 100.
+   */
+  scoreRules(rules: Array<Pick<FiredRule, 'severity'>>): number {
+    if (rules.length === 0) return 0;
+
+    const [top, ...rest] = rules.map(rule => rule.severity).sort((a, b) => b - a);
+    const score = top * 10 + rest.reduce((sum, severity) => sum + severity * 2, 0);
+
+    return Math.min(100, Math.round(score));
+  }
+
+  async getCurrentRulesetVersion(countryId: string): Promise<number> {
+    const [latest] = await db
+      .select({ version: rulesetVersions.version })
+      .from(rulesetVersions)
+      .where(eq(rulesetVersions.countryId, countryId))
+      .orderBy(desc(rulesetVersions.version))
+      .limit(1);
+
+    return latest?.version ?? 0;
+  }
+
+  async getPublishedRules(countryId: string, asOf: Date = new Date()): Promise<ComplianceRule[]> {
+    const asOfDate = asOf.toISOString().split('T')[0];
+
+    return db
+      .select()
+      .from(complianceRules)
+      .where(
+        and(
+          eq(complianceRules.countryId, countryId),
+          eq(complianceRules.status, 'published'),
+          lte(complianceRules.effectiveFrom, asOfDate)
+        )
+      )
+      .orderBy(desc(complianceRules.severity));
+  }
+
+  private toFiredRule(rule: ComplianceRule): FiredRule {
+    return {
+      ruleId: rule.id,
+      ruleType: rule.ruleType,
+      description: rule.description,
+      severity: rule.severity,
+      version: rule.version,
+      effectiveFrom: rule.effectiveFrom,
+      sourceUrl: rule.sourceUrl,
+    };
+  }
+}
+
+export const ruleEvaluator = new RuleEvaluator();
@@ -0,0 +1,389 @@
+import { createHash } from "crypto";
+import { readFile } from "fs/promises";
+import path from "path";
+import { eq, and, ne, desc, count } from "drizzle-orm";
+import { XMLParser } from "fast-xml-parser";
+import * as csv from 'csv-parse/sync';
+import { db } from "../lib/database";
+import {
+  sanctionsListImports,
+  sanctionsListEntries,
+  SanctionsListImport,
+  InsertSanctionsListEntry,
+} from "@shared/schema";
+import { createChildLogger } from "../lib/logger";
+import { normalizeName } from "../providers/sanctions/nameMatching";
+
+const logger = createChildLogger('sanctions-list-ingestion');
+
+export type SanctionsListSource = 'ofac_sdn' | 'eu_consolidated' | 'un_consolidated';
+export type SanctionsListFormat = 'xml' | 'csv';
+
+export const SANCTIONS_LIST_SOURCES: SanctionsListSource[] = ['ofac_sdn', 'eu_consolidated', 'un_consolidated'];
+
+export interface ParsedSanctionsEntry {
+  sourceEntityId: string;
+  entityType: 'person' | 'entity' | 'vessel' | 'aircraft';
+  primaryName: string;
+  aliases: string[];
+  programs: string[];
+  nationalities: string[];
+  birthDates: string[];
+  listedOn: string | null;
+  remarks: string | null;
+}
+
+export interface IngestOptions {
+  aliasFilePath?: string; // OFAC alt.csv, only used with the CSV format
+  force?: boolean; // re-import even if the file checksum matches the last import
+}
+
+export interface IngestResult {
+  importId: string;
+  source: SanctionsListSource;
+  entriesImported: number;
+  skipped: boolean;
+}
+
+export interface SanctionsListStatus {
+  source: SanctionsListSource;
+  entries: number;
+  lastImport: SanctionsListImport | null;
+}
+
+const INSERT_BATCH_SIZE = 500;
+const OFAC_CSV_NULL = '-0-';
+
+// Elements that may repeat in the source files; always parse them as arrays
+const REPEATED_ELEMENTS = new Set([
+  // OFAC SDN
+  'sdnEntry', 'program', 'aka', 'nationality', 'citizenship', 'dateOfBirthItem',
+  // EU consolidated
+  'sanctionEntity', 'nameAlias', 'regulation', 'birthdate',
+  // UN consolidated
+  'INDIVIDUAL', 'ENTITY', 'INDIVIDUAL_ALIAS', 'ENTITY_ALIAS', 'INDIVIDUAL_DATE_OF_BIRTH', 'VALUE',
+]);
+
+const asArray = <T>(value: T | T[] | undefined | null): T[] =>
+  value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+
+const asText = (value: unknown): string =>
+  value === undefined || value === null ? '' : String(value).trim();
+
+const unique = (values: string[]): string[] =>
+  Array.from(new Set(values.map(v => v.trim()).filter(Boolean)));
+
+export class SanctionsListIngestionService {
+  private readonly xmlParser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    removeNSPrefix: true,
+    parseTagValue: false,
+    parseAttributeValue: false,
+    trimValues: true,
+    isArray: (name) => REPEATED_ELEMENTS.has(name),
+  });
+
+  async ingestFile(
+    source: SanctionsListSource,
+    filePath: string,
+    options: IngestOptions = {}
+  ): Promise<IngestResult> {
+    const format = this.detectFormat(filePath);
+    if (format === 'csv' && source !== 'ofac_sdn') {
+      throw new Error(`CSV format is only supported for ofac_sdn, got ${source}`);
+    }
+
+    const content = await readFile(filePath, 'utf8');
+    const aliasContent = options.aliasFilePath ? await readFile(options.aliasFilePath, 'utf8') : undefined;
+    const checksum = createHash('sha256').update(content).update(aliasContent || '').digest('hex');
+
+    const [lastImport] = await db
+      .select()
+      .from(sanctionsListImports)
+      .where(and(eq(sanctionsListImports.source, source), eq(sanctionsListImports.status, 'completed')))
+      .orderBy(desc(sanctionsListImports.startedAt))
+      .limit(1);
+
+    if (!options.force && lastImport?.checksum === checksum) {
+      logger.info({ source, importId: lastImport.id }, 'Sanctions list unchanged since last import, skipping');
+      return { importId: lastImport.id, source, entriesImported: lastImport.entriesImported, skipped: true };
+    }
+
+    const [importRecord] = await db
+      .insert(sanctionsListImports)
+      .values({
+        source,
+        format,
+        fileName: path.basename(filePath),
+        checksum,
+        status: 'processing',
+      })
+      .returning();
+
+    try {
+      const entries = this.parse(source, format, content, aliasContent);
+      if (entries.length === 0) {
+        throw new Error(`No entries found in ${path.basename(filePath)}`);
+      }
+
+      for (let i = 0; i < entries.length; i += INSERT_BATCH_SIZE) {
+        const batch = entries
+          .slice(i, i + INSERT_BATCH_SIZE)
+          .map(entry => this.toInsertEntry(importRecord.id, source, entry));
+        await db.insert(sanctionsListEntries).values(batch);
+      }
+
+      // New rows are in place before the previous import's rows are removed, so screening never sees an empty list
+      await db
+        .delete(sanctionsListEntries)
+        .where(and(eq(sanctionsListEntries.source, source), ne(sanctionsListEntries.importId, importRecord.id)));
+
+      await db
+        .update(sanctionsListImports)
+        .set({ status: 'completed', entriesImported: entries.length, completedAt: new Date() })
+        .where(eq(sanctionsListImports.id, importRecord.id));
+
+      logger.info({ source, importId: importRecord.id, entries: entries.length }, 'Sanctions list imported');
+      return { importId: importRecord.id, source, entriesImported: entries.length, skipped: false };
+    } catch (error) {
+      await db
+        .delete(sanctionsListEntries)
+        .where(eq(sanctionsListEntries.importId, importRecord.id));
+
+      await db
+        .update(sanctionsListImports)
+        .set({
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+          completedAt: new Date(),
+        })
+        .where(eq(sanctionsListImports.id, importRecord.id));
+
+      logger.error({ source, importId: importRecord.id, error }, 'Sanctions list import failed');
+      throw error;
+    }
+  }
+
+  async getListStatus(): Promise<SanctionsListStatus[]> {
+    const counts = await db
+      .select({ source: sanctionsListEntries.source, entries: count() })
+      .from(sanctionsListEntries)
+      .groupBy(sanctionsListEntries.source);
+
+    return Promise.all(SANCTIONS_LIST_SOURCES.map(async source => {
+      const [lastImport] = await db
+        .select()
+        .from(sanctionsListImports)
+        .where(eq(sanctionsListImports.source, source))
+        .orderBy(desc(sanctionsListImports.startedAt))
+        .limit(1);
+
+      return {
+        source,
+        entries: counts.find(c => c.source === source)?.entries ?? 0,
+        lastImport: lastImport ?? null,
+      };
+    }));
+  }
+
+  parse(
+    source: SanctionsListSource,
+    format: SanctionsListFormat,
+    content: string,
+    aliasContent?: string
+  ): ParsedSanctionsEntry[] {
+    if (format === 'csv') {
+      return this.parseOfacSdnCsv(content, aliasContent);
+    }
+
+    const document = this.xmlParser.parse(content);
+    switch (source) {
+      case 'ofac_sdn':
+        return this.parseOfacSdnXml(document);
+      case 'eu_consolidated':
+        return this.parseEuConsolidatedXml(document);
+      case 'un_consolidated':
+        return this.parseUnConsolidatedXml(document);
+      default:
+        throw new Error(`Unsupported sanctions list source: ${source}`);
+    }
+  }
+
+  private parseOfacSdnXml(document: any): ParsedSanctionsEntry[] {
+    const entries = asArray(document?.sdnList?.sdnEntry);
+
+    return entries.map((entry: any) => {
+      const entityType = this.mapOfacType(asText(entry.sdnType));
+      const toName = (item: any) => [asText(item.firstName), asText(item.lastName)].filter(Boolean).join(' ');
+
+      return {
+        sourceEntityId: asText(entry.uid),
+        entityType,
+        primaryName: toName(entry),
+        aliases: unique(asArray(entry.akaList?.aka).map(toName)),
+        programs: unique(asArray(entry.programList?.program).map(asText)),
+        nationalities: unique([
+          ...asArray(entry.nationalityList?.nationality).map((n: any) => asText(n.country)),
+          ...asArray(entry.citizenshipList?.citizenship).map((c: any) => asText(c.country)),
+        ]),
+        birthDates: unique(asArray(entry.dateOfBirthList?.dateOfBirthItem).map((d: any) => asText(d.dateOfBirth))),
+        listedOn: null,
+        remarks: asText(entry.remarks) || null,
+      };
+    }).filter(entry => entry.sourceEntityId && entry.primaryName);
+  }
+
+  /**
+   * sdn.csv has no header row: ent_num, SDN_Name, SDN_Type, Program, Title, Call_Sign,
+   * Vess_type, Tonnage, GRT, Vess_flag, Vess_owner, Remarks. alt.csv is
+   * ent_num, alt_num, alt_type, alt_name, alt_remarks.
+   */
+  private parseOfacSdnCsv(content: string, aliasContent?: string): ParsedSanctionsEntry[] {
+    const readRows = (text: string) => (csv.parse(text, {
+      relax_column_count: true,
+      relax_quotes: true,
+      skip_empty_lines: true,
+      trim: true,
+    }) as string[][]).map(row => row.map(value => value === OFAC_CSV_NULL ? '' : value));
+
+    const aliasesByEntity = new Map<string, string[]>();
+    if (aliasContent) {
+      for (const [entNum, , , altName] of readRows(aliasContent)) {
+        if (!entNum || !altName) continue;
+        const aliases = aliasesByEntity.get(entNum) || [];
+        aliases.push(altName);
+        aliasesByEntity.set(entNum, aliases);
+      }
+    }
+
+    return readRows(content)
+      .filter(row => row.length >= 4 && row[0] && row[1])
+      .map(row => {
+        const [entNum, sdnName, sdnType, program, , , , , , , , remarks = ''] = row;
+        const entityType = this.mapOfacType(sdnType);
+        const displayName = (name: string) => entityType === 'person' ? this.flipLastFirst(name) : name;
+
+        return {
+          sourceEntityId: entNum,
+          entityType,
+          primaryName: displayName(sdnName),
+          aliases: unique((aliasesByEntity.get(entNum) || []).map(displayName)),
+          programs: unique(program.replace(/^\[|\]$/g, '').split(/\]\s*\[/)),
+          nationalities: unique(this.extractRemarkValues(remarks, /(?:nationality|citizen)\s+([^;.]+)/gi)),
+          birthDates: unique(this.extractRemarkValues(remarks, /DOB\s+([^;]+)/g)),
+          listedOn: null,
+          remarks: remarks || null,
+        };
+      });
+  }
+
+  private parseEuConsolidatedXml(document: any): ParsedSanctionsEntry[] {
+    const entities = asArray(document?.export?.sanctionEntity);
+
+    return entities.map((entity: any) => {
+      const aliases = asArray(entity.nameAlias);
+      const primary = aliases.find((alias: any) => alias['@_strong'] === 'true') || aliases[0];
+      const primaryName = asText(primary?.['@_wholeName']);
+      const regulations = asArray(entity.regulation);
+      const code = asText(entity.subjectType?.['@_code']);
+
+      return {
+        sourceEntityId: asText(entity['@_logicalId']),
+        entityType: code === 'person' ? 'person' as const : 'entity' as const,
+        primaryName,
+        aliases: unique(aliases.map((alias: any) => asText(alias['@_wholeName'])).filter(name => name !== primaryName)),
+        programs: unique(regulations.map((regulation: any) => asText(regulation['@_programme']))),
+        nationalities: unique(asArray(entity.citizenship).map((c: any) => asText(c['@_countryIso2Code']))),
+        birthDates: unique(asArray(entity.birthdate).map((b: any) => asText(b['@_birthdate']) || asText(b['@_year']))),
+        listedOn: this.toDate(asText(entity['@_designationDate']) || asText(regulations[0]?.['@_publicationDate'])),
+        remarks: asText(entity.remark) || null,
+      };
+    }).filter(entry => entry.sourceEntityId && entry.primaryName);
+  }
+
+  private parseUnConsolidatedXml(document: any): ParsedSanctionsEntry[] {
+    const list = document?.CONSOLIDATED_LIST;
+    const toName = (item: any) =>
+      ['FIRST_NAME', 'SECOND_NAME', 'THIRD_NAME', 'FOURTH_NAME'].map(key => asText(item[key])).filter(Boolean).join(' ');
+
+    const individuals = asArray(list?.INDIVIDUALS?.INDIVIDUAL).map((person: any) => ({
+      sourceEntityId: asText(person.DATAID),
+      entityType: 'person' as const,
+      primaryName: toName(person),
+      aliases: unique([
+        ...asArray(person.INDIVIDUAL_ALIAS).map((alias: any) => asText(alias.ALIAS_NAME)),
+        asText(person.NAME_ORIGINAL_SCRIPT),
+      ]),
+      programs: unique([asText(person.UN_LIST_TYPE)]),
+      nationalities: unique(asArray(person.NATIONALITY?.VALUE).map(asText)),
+      birthDates: unique(asArray(person.INDIVIDUAL_DATE_OF_BIRTH).map((dob: any) => asText(dob.DATE) || asText(dob.YEAR))),
+      listedOn: this.toDate(asText(person.LISTED_ON)),
+      remarks: asText(person.COMMENTS1) || null,
+    }));
+
+    const entities = asArray(list?.ENTITIES?.ENTITY).map((entity: any) => ({
+      sourceEntityId: asText(entity.DATAID),
+      entityType: 'entity' as const,
+      primaryName: toName(entity),
+      aliases: unique(asArray(entity.ENTITY_ALIAS).map((alias: any) => asText(alias.ALIAS_NAME))),
+      programs: unique([asText(entity.UN_LIST_TYPE)]),
+      nationalities: [],
+      birthDates: [],
+      listedOn: this.toDate(asText(entity.LISTED_ON)),
+      remarks: asText(entity.COMMENTS1) || null,
+    }));
+
+    return [...individuals, ...entities].filter(entry => entry.sourceEntityId && entry.primaryName);
+  }
+
+  private toInsertEntry(importId: string, source: SanctionsListSource, entry: ParsedSanctionsEntry): InsertSanctionsListEntry {
+    return {
+      importId,
+      source,
+      sourceEntityId: entry.sourceEntityId,
+      entityType: entry.entityType,
+      primaryName: entry.primaryName,
+      aliases: entry.aliases,
+      searchNames: unique([entry.primaryName, ...entry.aliases].map(normalizeName)),
+      programs: entry.programs,
+      nationalities: entry.nationalities,
+      birthDates: entry.birthDates,
+      listedOn: entry.listedOn,
+      remarks: entry.remarks,
+    };
+  }
+
+  private detectFormat(filePath: string): SanctionsListFormat {
+    const extension = path.extname(filePath).toLowerCase();
+    if (extension === '.xml') return 'xml';
+    if (extension === '.csv') return 'csv';
+    throw new Error(`Unsupported sanctions list file type: ${extension || filePath}`);
+  }
+
+  private mapOfacType(sdnType: string): ParsedSanctionsEntry['entityType'] {
+    switch (sdnType.toLowerCase()) {
+      case 'individual': return 'person';
+      case 'vessel': return 'vessel';
+      case 'aircraft': return 'aircraft';
+      default: return 'entity';
+    }
+  }
+
+  // OFAC lists individuals as "LAST, First Middle"
+  private flipLastFirst(name: string): string {
+    const [last, first] = name.split(/,\s*/, 2);
+    return first ? `${first} ${last}` : name;
+  }
+
+  private extractRemarkValues(remarks: string, pattern: RegExp): string[] {
+    return Array.from(remarks.matchAll(pattern), match => match[1].trim());
+  }
+
+  private toDate(value: string): string | null {
+    const match = value.match(/^\d{4}-\d{2}-\d{2}/);
+    return match ? match[0] : null;
+  }
+}
+
+export const sanctionsListIngestionService = new SanctionsListIngestionService();
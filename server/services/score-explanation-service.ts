@@ -0,0 +1,198 @@
+import { eq } from "drizzle-orm";
+import { db } from "../lib/database";
+import { riskScores, ScoreEvidence, SanctionsHit, ScoringWeights, TierThresholds } from "@shared/schema";
+import { scoringProfileService, DEFAULT_SCORING_PROFILE } from "./scoring-profile-service";
+import type { FiredRule } from "./rule-evaluator";
+import { riskSignalPipeline } from "./risk-signals";
+
+type Component = keyof ScoringWeights;
+
+export interface ComponentExplanation {
+  component: Component;
+  label: string;
+  rawValue: number; // 0-100
+  weight: number;
+  contribution: number; // rawValue * weight, in overall score points
+  share: number; // fraction of the weighted total, 0-1
+  fallbackUsed: boolean;
+  evidence: Record<string, any>;
+}
+
+export interface ScoreExplanation {
+  riskScoreId: string;
+  contractorId: string;
+  score: number;
+  tier: string;
+  generatedAt: Date;
+  scoringProfile: {
+    version: number;
+    name: string;
+    found: boolean; // false when the stored version no longer exists and the default weights were used
+  };
+  tierDecision: {
+    thresholds: TierThresholds;
+    reason: string;
+  };
+  components: ComponentExplanation[];
+  registrationId: ScoreEvidence['registrationId'] | null; // validated but not weighted; invalid IDs surface as top risks
+  partialSources: string[];
+}
+
+const COMPONENT_LABELS: Record<string, string> = {
+  sanctions: 'Sanctions screening',
+  pep: 'Politically exposed person',
+  adverseMedia: 'Adverse media',
+  internalHistory: 'Internal history',
+  countryBaseline: 'Country baseline',
+  regulatory: 'Regulatory rules',
+  paymentMethod: 'Payment method',
+};
+
+// partialSources entries, besides each signal's own unavailableSource, that mean a
+// component was computed from a fallback or degraded input
+const PARTIAL_SOURCE_MARKERS: Partial<Record<Component, string[]>> = {
+  sanctions: ['sanctions-', 'match-adjudication-unavailable'],
+  pep: ['sanctions-'], // PEP is read from the sanctions outcome
+  adverseMedia: ['adverse-media-'],
+  countryBaseline: ['country-baseline-static-map'],
+};
+
+/**
+ * Rebuilds how a stored risk score was reached: each component's weighted
+ * contribution under the scoring profile it was computed with, the evidence
+ * behind it, and the thresholds that decided the tier.
+ */
+export class ScoreExplanationService {
+  async explain(riskScoreId: string): Promise<ScoreExplanation | undefined> {
+    const [riskScore] = await db
+      .select()
+      .from(riskScores)
+      .where(eq(riskScores.id, riskScoreId))
+      .limit(1);
+
+    if (!riskScore) return undefined;
+
+    const storedProfile = await scoringProfileService.getProfileByVersion(riskScore.scoringProfileVersion);
+    const profile = storedProfile || DEFAULT_SCORING_PROFILE;
+
+    const breakdown = riskScore.breakdown as Record<string, any>;
+    const evidence = (riskScore.evidence || {}) as ScoreEvidence;
+    const hits = (riskScore.sanctionsHits || []) as SanctionsHit[];
+    const firedRules = (riskScore.firedRules || []) as FiredRule[];
+    const partialSources = (riskScore.partialSources || []) as string[];
+
+    // Signals registered beyond the built-in ones appear once the profile weights them
+    const componentNames = Array.from(new Set([...Object.keys(COMPONENT_LABELS), ...Object.keys(profile.weights)]));
+    const components = componentNames.map(component => {
+      const rawValue = typeof breakdown[component] === 'number' ? breakdown[component] : 0;
+      const weight = profile.weights[component] ?? 0;
+      return {
+        component,
+        label: COMPONENT_LABELS[component] || component,
+        rawValue,
+        weight,
+        contribution: Math.round(rawValue * weight * 10) / 10,
+        share: 0,
+        fallbackUsed: this.usedFallback(component, partialSources, evidence),
+        evidence: this.componentEvidence(component, { breakdown, evidence, hits, firedRules, rulesetVersion: riskScore.rulesetVersion }),
+      };
+    });
+
+    const total = components.reduce((sum, c) => sum + c.contribution, 0);
+    components.forEach(c => {
+      c.share = total > 0 ? Math.round((c.contribution / total) * 100) / 100 : 0;
+    });
+    components.sort((a, b) => b.contribution - a.contribution);
+
+    return {
+      riskScoreId: riskScore.id,
+      contractorId: riskScore.contractorId,
+      score: riskScore.score,
+      tier: riskScore.tier,
+      generatedAt: riskScore.createdAt,
+      scoringProfile: {
+        version: riskScore.scoringProfileVersion,
+        name: profile.name,
+        found: !!storedProfile,
+      },
+      tierDecision: {
+        thresholds: profile.tierThresholds,
+        reason: this.tierReason(riskScore.score, riskScore.tier, profile.tierThresholds),
+      },
+      components,
+      registrationId: evidence.registrationId ?? null,
+      partialSources,
+    };
+  }
+
+  private tierReason(score: number, tier: string, thresholds: TierThresholds): string {
+    if (tier === 'low') return `Score ${score} is below ${thresholds.low}, where the medium tier starts`;
+    if (tier === 'medium') return `Score ${score} is at least ${thresholds.low} and below ${thresholds.medium}, the medium tier range`;
+    return `Score ${score} is at or above ${thresholds.medium}, where the high tier starts`;
+  }
+
+  private usedFallback(component: Component, partialSources: string[], evidence: ScoreEvidence): boolean {
+    if (component === 'sanctions' && evidence.sanctions?.fallback) return true;
+    if (component === 'adverseMedia' && evidence.adverseMedia?.fallback) return true;
+    if (component === 'countryBaseline' && evidence.countryBaseline?.fallback) return true;
+
+    const unavailableSource = riskSignalPipeline.unavailableSource(String(component));
+    const markers = [
+      ...(unavailableSource ? [unavailableSource] : []),
+      ...(PARTIAL_SOURCE_MARKERS[component] || []),
+    ];
+    return partialSources.some(source => markers.some(marker => source.startsWith(marker)));
+  }
+
+  private componentEvidence(
+    component: Component,
+    context: {
+      breakdown: Record<string, any>;
+      evidence: ScoreEvidence;
+      hits: SanctionsHit[];
+      firedRules: FiredRule[];
+      rulesetVersion: number;
+    }
+  ): Record<string, any> {
+    const { breakdown, evidence, hits, firedRules, rulesetVersion } = context;
+
+    switch (component) {
+      case 'sanctions':
+        return {
+          provider: evidence.sanctions?.provider ?? null,
+          lists: evidence.sanctions?.lists ?? [],
+          fallback: evidence.sanctions?.fallback ?? null,
+          matches: hits.filter(hit => !hit.suppressed && hit.categories.includes('sanctions')),
+          suppressedMatches: hits.filter(hit => hit.suppressed),
+          ...(evidence.sanctions?.parties && { parties: evidence.sanctions.parties }),
+        };
+      case 'pep':
+        return {
+          matches: hits.filter(hit => !hit.suppressed && hit.categories.includes('pep')),
+        };
+      case 'adverseMedia':
+        return {
+          provider: evidence.adverseMedia?.provider ?? null,
+          articles: evidence.adverseMedia?.articles ?? [],
+          categories: evidence.adverseMedia?.categories ?? [],
+          excludedArticles: evidence.adverseMedia?.excludedArticles ?? [],
+        };
+      case 'internalHistory':
+        return { signals: breakdown.internalHistorySignals ?? null };
+      case 'countryBaseline':
+        return {
+          source: evidence.countryBaseline?.source ?? null,
+          confidence: evidence.countryBaseline?.confidence ?? null,
+          indicators: evidence.countryBaseline?.indicators ?? [],
+        };
+      case 'regulatory':
+        return { rulesetVersion, firedRules };
+      case 'paymentMethod':
+        return { paymentMethod: evidence.paymentMethod ?? null };
+      default:
+        return {};
+    }
+  }
+}
+
+export const scoreExplanationService = new ScoreExplanationService();
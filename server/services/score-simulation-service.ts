@@ -0,0 +1,201 @@
+import { eq, and, desc, gte, inArray } from "drizzle-orm";
+import { db } from "../lib/database";
+import {
+  riskScores,
+  contractors,
+  countries,
+  complianceRules,
+  ScoreSimulationInput,
+  ScoringWeights,
+  TierThresholds,
+} from "@shared/schema";
+import { createChildLogger } from "../lib/logger";
+import { scoringProfileService } from "./scoring-profile-service";
+import { ruleEvaluator } from "./rule-evaluator";
+import { matchAdjudicationService } from "./match-adjudication-service";
+
+const logger = createChildLogger('score-simulation-service');
+
+type Tier = 'low' | 'medium' | 'high';
+
+export interface SimulatedContractor {
+  riskScoreId: string;
+  contractorId: string;
+  contractorName: string | null;
+  countryIso: string;
+  currentScore: number;
+  simulatedScore: number;
+  currentTier: Tier;
+  simulatedTier: Tier;
+}
+
+export interface ScoreSimulationResult {
+  assessed: number;
+  scope: { days: number; countryIso: string | null };
+  weights: ScoringWeights;
+  tierThresholds: TierThresholds;
+  baseProfileVersion: number;
+  draftRules: Array<{ id: string; countryIso: string; ruleType: string; severity: number }>;
+  distribution: {
+    current: Record<Tier, number>;
+    simulated: Record<Tier, number>;
+  };
+  movedUp: SimulatedContractor[];
+  movedDown: SimulatedContractor[];
+  averageScoreDelta: number;
+}
+
+const TIER_RANK: Record<Tier, number> = { low: 0, medium: 1, high: 2 };
+
+/**
+ * Replays the stored component values of recent risk scores under candidate
+ * weights, thresholds and unpublished rules. Read-only: provider checks are
+ * not re-run and nothing is written.
+ */
+export class ScoreSimulationService {
+  async simulate(input: ScoreSimulationInput): Promise<ScoreSimulationResult> {
+    const startTime = Date.now();
+    const activeProfile = await scoringProfileService.getActiveProfile();
+    const weights = input.weights || activeProfile.weights;
+    const tierThresholds = input.tierThresholds || activeProfile.tierThresholds;
+
+    const regulatoryOverrides = await this.draftRegulatoryScores(input.draftRuleIds);
+    const assessments = await this.latestAssessments(input.days, input.limit, input.countryIso);
+
+    const distribution = {
+      current: { low: 0, medium: 0, high: 0 },
+      simulated: { low: 0, medium: 0, high: 0 },
+    };
+    const movedUp: SimulatedContractor[] = [];
+    const movedDown: SimulatedContractor[] = [];
+    let totalDelta = 0;
+
+    for (const assessment of assessments) {
+      const breakdown = { ...(assessment.breakdown as Record<string, any>) };
+      const override = regulatoryOverrides.scores.get(assessment.countryId);
+      if (override !== undefined) breakdown.regulatory = override;
+
+      const simulatedScore = Math.round(Object.entries(weights).reduce(
+        (sum, [component, weight]) => sum + (typeof breakdown[component] === 'number' ? breakdown[component] : 0) * weight,
+        0
+      ));
+      const simulatedTier = scoringProfileService.determineTier(simulatedScore, tierThresholds);
+      const currentTier = assessment.tier as Tier;
+
+      distribution.current[currentTier]++;
+      distribution.simulated[simulatedTier]++;
+      totalDelta += simulatedScore - assessment.score;
+
+      if (simulatedTier !== currentTier) {
+        const entry: SimulatedContractor = {
+          riskScoreId: assessment.riskScoreId,
+          contractorId: assessment.contractorId,
+          contractorName: assessment.contractorName,
+          countryIso: assessment.countryIso,
+          currentScore: assessment.score,
+          simulatedScore,
+          currentTier,
+          simulatedTier,
+        };
+        (TIER_RANK[simulatedTier] > TIER_RANK[currentTier] ? movedUp : movedDown).push(entry);
+      }
+    }
+
+    const bySwing = (a: SimulatedContractor, b: SimulatedContractor) =>
+      Math.abs(b.simulatedScore - b.currentScore) - Math.abs(a.simulatedScore - a.currentScore);
+
+    logger.info({
+      assessed: assessments.length,
+      draftRules: regulatoryOverrides.rules.length,
+      movedUp: movedUp.length,
+      movedDown: movedDown.length,
+      duration: Date.now() - startTime
+    }, 'Score simulation completed');
+
+    return {
+      assessed: assessments.length,
+      scope: { days: input.days, countryIso: input.countryIso?.toUpperCase() ?? null },
+      weights,
+      tierThresholds,
+      baseProfileVersion: activeProfile.version,
+      draftRules: regulatoryOverrides.rules,
+      distribution,
+      movedUp: movedUp.sort(bySwing),
+      movedDown: movedDown.sort(bySwing),
+      averageScoreDelta: assessments.length > 0 ? Math.round((totalDelta / assessments.length) * 10) / 10 : 0,
+    };
+  }
+
+  // Regulatory score per affected country with the draft rules added to what is published today
+  private async draftRegulatoryScores(draftRuleIds: string[]) {
+    const scores = new Map<string, number>();
+    if (draftRuleIds.length === 0) return { scores, rules: [] };
+
+    const drafts = await db
+      .select({ rule: complianceRules, countryIso: countries.iso })
+      .from(complianceRules)
+      .innerJoin(countries, eq(complianceRules.countryId, countries.id))
+      .where(inArray(complianceRules.id, draftRuleIds));
+
+    const draftIds = new Set(drafts.map(({ rule }) => rule.id));
+    const countryIds = Array.from(new Set(drafts.map(({ rule }) => rule.countryId)));
+    for (const countryId of countryIds) {
+      const published = await ruleEvaluator.getPublishedRules(countryId);
+      // Draft rules count regardless of effectiveFrom so future-dated rules still show their impact
+      const rules = [
+        ...published.filter(rule => !draftIds.has(rule.id)),
+        ...drafts.filter(({ rule }) => rule.countryId === countryId).map(({ rule }) => rule),
+      ];
+      scores.set(countryId, ruleEvaluator.scoreRules(rules));
+    }
+
+    return {
+      scores,
+      rules: drafts.map(({ rule, countryIso }) => ({
+        id: rule.id,
+        countryIso,
+        ruleType: rule.ruleType,
+        severity: rule.severity,
+      })),
+    };
+  }
+
+  // Latest score per person (country + normalized name) within the window
+  private async latestAssessments(days: number, limit: number, countryIso?: string) {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const rows = await db
+      .select({
+        riskScoreId: riskScores.id,
+        score: riskScores.score,
+        tier: riskScores.tier,
+        breakdown: riskScores.breakdown,
+        contractorId: contractors.id,
+        contractorName: contractors.name,
+        countryId: countries.id,
+        countryIso: countries.iso,
+      })
+      .from(riskScores)
+      .innerJoin(contractors, eq(riskScores.contractorId, contractors.id))
+      .innerJoin(countries, eq(contractors.countryId, countries.id))
+      .where(countryIso
+        ? and(gte(riskScores.createdAt, since), eq(countries.iso, countryIso.toUpperCase()))
+        : gte(riskScores.createdAt, since))
+      .orderBy(desc(riskScores.createdAt));
+
+    const seen = new Set<string>();
+    const latest: typeof rows = [];
+    for (const row of rows) {
+      const key = row.contractorName
+        ? matchAdjudicationService.contractorKey(row.contractorName, row.countryIso)
+        : row.contractorId;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      latest.push(row);
+      if (latest.length >= limit) break;
+    }
+    return latest;
+  }
+}
+
+export const scoreSimulationService = new ScoreSimulationService();
@@ -0,0 +1,231 @@
+import { eq, desc } from "drizzle-orm";
+import { db } from "../lib/database";
+import {
+  scoringProfiles,
+  auditLogs,
+  scoringProfileInputSchema,
+  ScoringProfile,
+  ScoringProfileInput,
+  ScoringWeights,
+  TierThresholds,
+} from "@shared/schema";
+import { createChildLogger } from "../lib/logger";
+
+const logger = createChildLogger('scoring-profile-service');
+
+export interface ResolvedScoringProfile {
+  version: number;
+  name: string;
+  weights: ScoringWeights;
+  tierThresholds: TierThresholds;
+}
+
+// Built-in profile used until an admin activates one from the database
+export const DEFAULT_SCORING_PROFILE: ResolvedScoringProfile = {
+  version: 0,
+  name: 'Built-in default',
+  weights: {
+    sanctions: 0.35,
+    pep: 0.15,
+    adverseMedia: 0.15,
+    internalHistory: 0.10,
+    countryBaseline: 0.10,
+    regulatory: 0.10,
+    paymentMethod: 0.05,
+  },
+  tierThresholds: {
+    low: 30,
+    medium: 70,
+    high: 100,
+  },
+};
+
+export interface ProfileValidationResult {
+  valid: boolean;
+  errors: Array<{ path: string; message: string }>;
+  weightsTotal?: number;
+}
+
+export class ScoringProfileService {
+  private activeProfileCache: { profile: ResolvedScoringProfile; loadedAt: number } | null = null;
+  private readonly cacheTTL = 60 * 1000; // 1 minute
+
+  async getActiveProfile(): Promise<ResolvedScoringProfile> {
+    if (this.activeProfileCache && Date.now() - this.activeProfileCache.loadedAt < this.cacheTTL) {
+      return this.activeProfileCache.profile;
+    }
+
+    try {
+      const [active] = await db
+        .select()
+        .from(scoringProfiles)
+        .where(eq(scoringProfiles.status, 'active'))
+        .orderBy(desc(scoringProfiles.version))
+        .limit(1);
+
+      const profile = active ? this.toResolvedProfile(active) : DEFAULT_SCORING_PROFILE;
+      this.activeProfileCache = { profile, loadedAt: Date.now() };
+      return profile;
+    } catch (error) {
+      logger.warn({ error }, 'Failed to load active scoring profile, using built-in default');
+      return DEFAULT_SCORING_PROFILE;
+    }
+  }
+
+  async getProfiles(): Promise<ScoringProfile[]> {
+    return db
+      .select()
+      .from(scoringProfiles)
+      .orderBy(desc(scoringProfiles.version));
+  }
+
+  async getProfile(id: string): Promise<ScoringProfile | undefined> {
+    const [profile] = await db
+      .select()
+      .from(scoringProfiles)
+      .where(eq(scoringProfiles.id, id))
+      .limit(1);
+
+    return profile;
+  }
+
+  // Profile a stored score was computed with; version 0 is the built-in default
+  async getProfileByVersion(version: number): Promise<ResolvedScoringProfile | undefined> {
+    if (version === 0) return DEFAULT_SCORING_PROFILE;
+
+    const [profile] = await db
+      .select()
+      .from(scoringProfiles)
+      .where(eq(scoringProfiles.version, version))
+      .limit(1);
+
+    return profile ? this.toResolvedProfile(profile) : undefined;
+  }
+
+  validateProfile(input: unknown): ProfileValidationResult {
+    const parsed = scoringProfileInputSchema.safeParse(input);
+    const weights = (input as any)?.weights;
+    const weightsTotal = weights && typeof weights === 'object'
+      ? Object.values(weights).reduce<number>((sum, w) => sum + (typeof w === 'number' ? w : 0), 0)
+      : undefined;
+
+    if (parsed.success) {
+      return { valid: true, errors: [], weightsTotal };
+    }
+
+    return {
+      valid: false,
+      errors: parsed.error.errors.map(e => ({ path: e.path.join('.'), message: e.message })),
+      weightsTotal,
+    };
+  }
+
+  async createProfile(input: ScoringProfileInput): Promise<ScoringProfile> {
+    const data = scoringProfileInputSchema.parse(input);
+
+    const [latest] = await db
+      .select({ version: scoringProfiles.version })
+      .from(scoringProfiles)
+      .orderBy(desc(scoringProfiles.version))
+      .limit(1);
+
+    const [created] = await db
+      .insert(scoringProfiles)
+      .values({
+        version: (latest?.version ?? 0) + 1,
+        name: data.name,
+        weights: data.weights,
+        tierThresholds: data.tierThresholds,
+        notes: data.notes,
+        createdBy: data.createdBy,
+        status: 'draft',
+      })
+      .returning();
+
+    logger.info({ profileId: created.id, version: created.version }, 'Scoring profile created');
+    return created;
+  }
+
+  async activateProfile(id: string, activatedBy: string): Promise<ScoringProfile | undefined> {
+    const profile = await this.getProfile(id);
+    if (!profile) return undefined;
+
+    // Re-validate stored values before they start driving live scores
+    const validation = this.validateProfile({
+      name: profile.name,
+      weights: profile.weights,
+      tierThresholds: profile.tierThresholds,
+      createdBy: profile.createdBy,
+    });
+    if (!validation.valid) {
+      throw new Error(`Scoring profile v${profile.version} is invalid: ${validation.errors.map(e => e.message).join(', ')}`);
+    }
+
+    // One transaction so readers never see zero or two active profiles. Locking the
+    // profile rows first makes concurrent activations wait for each other.
+    const { previousVersion, activated } = await db.transaction(async (tx) => {
+      const [previous] = await tx
+        .select({ version: scoringProfiles.version, status: scoringProfiles.status })
+        .from(scoringProfiles)
+        .orderBy(desc(scoringProfiles.version))
+        .for('update')
+        .then(rows => rows.filter(row => row.status === 'active'));
+      const previousVersion = previous?.version ?? DEFAULT_SCORING_PROFILE.version;
+
+      await tx
+        .update(scoringProfiles)
+        .set({ status: 'retired' })
+        .where(eq(scoringProfiles.status, 'active'));
+
+      const [activated] = await tx
+        .update(scoringProfiles)
+        .set({ status: 'active', activatedAt: new Date() })
+        .where(eq(scoringProfiles.id, id))
+        .returning();
+
+      await tx.insert(auditLogs).values({
+        actor: activatedBy,
+        action: 'scoring_profile_activate',
+        entity: 'scoring_profile',
+        entityId: id,
+        diff: {
+          fromVersion: previousVersion,
+          toVersion: activated.version,
+          weights: activated.weights,
+          tierThresholds: activated.tierThresholds,
+        },
+      });
+
+      return { previousVersion, activated };
+    });
+
+    this.activeProfileCache = null;
+
+    logger.info({
+      profileId: id,
+      fromVersion: previousVersion,
+      toVersion: activated.version,
+      activatedBy
+    }, 'Scoring profile activated');
+
+    return activated;
+  }
+
+  determineTier(score: number, thresholds: TierThresholds): 'low' | 'medium' | 'high' {
+    if (score < thresholds.low) return 'low';
+    if (score < thresholds.medium) return 'medium';
+    return 'high';
+  }
+
+  private toResolvedProfile(profile: ScoringProfile): ResolvedScoringProfile {
+    return {
+      version: profile.version,
+      name: profile.name,
+      // Profiles saved before the payment method factor existed leave it unweighted
+      weights: { paymentMethod: 0, ...(profile.weights as Partial<ScoringWeights>) } as ScoringWeights,
+      tierThresholds: profile.tierThresholds as TierThresholds,
+    };
+  }
+}
+
+export const scoringProfileService = new ScoringProfileService();
@@ -1,5 +1,6 @@
-import { eq, desc, asc, like, and, or, sql, count, isNull } from "drizzle-orm";
+import { eq, desc, asc, like, ilike, and, or, sql, count, isNull } from "drizzle-orm";
 import { db } from "./lib/database";
+import { normalizeName } from "./providers/sanctions/nameMatching";
 import {
   countries,
   contractors,
@@ -38,6 +39,16 @@ import { createChildLogger } from "./lib/logger";
 
 const logger = createChildLogger('storage');
 
+export interface ContractorHistoryOptions {
+  registrationId?: string; // also match prior contractors registered under this ID
+  limit?: number;
+}
+
+export type ContractorHistoryEntry = RiskScore & {
+  contractorName: string | null;
+  registrationId: string | null;
+};
+
 export interface IStorage {
   // Countries
   searchCountries(filters: SearchFilters): Promise<PaginatedResponse<CountrySearchResult>>;
@@ -49,7 +60,7 @@ export interface IStorage {
   // Contractors
   getContractor(id: string): Promise<Contractor | undefined>;
   createContractor(contractor: InsertContractor): Promise<Contractor>;
-  getContractorHistory(name: string, countryIso: string): Promise<RiskScore[]>;
+  getContractorHistory(name: string, countryIso: string, options?: ContractorHistoryOptions): Promise<ContractorHistoryEntry[]>;
 
   // Risk Scores
   getRiskScore(id: string): Promise<RiskScore | undefined>;
@@ -278,16 +289,27 @@ export class DatabaseStorage implements IStorage {
   async createContractor(contractor: InsertContractor): Promise<Contractor> {
     const [created] = await db
       .insert(contractors)
-      .values(contractor)
+      .values({ ...contractor, normalizedName: contractor.name ? normalizeName(contractor.name) : null })
       .returning();
 
     return created;
   }
 
-  async getContractorHistory(name: string, countryIso: string): Promise<RiskScore[]> {
+  async getContractorHistory(
+    name: string,
+    countryIso: string,
+    options: ContractorHistoryOptions = {}
+  ): Promise<ContractorHistoryEntry[]> {
     const country = await this.getCountryByIso(countryIso);
     if (!country) return [];
 
+    // Same person only, matched before the limit so namesakes can't crowd their rows out.
+    // Contractors stored before normalized_name existed fall back to a case-insensitive name match.
+    const nameMatch = or(
+      eq(contractors.normalizedName, normalizeName(name)),
+      and(isNull(contractors.normalizedName), sql`lower(${contractors.name}) = lower(${name})`)
+    );
+
     const history = await db
       .select({
         id: riskScores.id,
@@ -300,18 +322,28 @@ export class DatabaseStorage implements IStorage {
         partialSources: riskScores.partialSources,
         rulesetVersion: riskScores.rulesetVersion,
         breakdown: riskScores.breakdown,
+        firedRules: riskScores.firedRules,
+        scoringProfileVersion: riskScores.scoringProfileVersion,
+        sanctionsHits: riskScores.sanctionsHits,
+        evidence: riskScores.evidence,
+        trigger: riskScores.trigger,
+        expiresAt: riskScores.expiresAt,
         createdAt: riskScores.createdAt,
+        contractorName: contractors.name,
+        registrationId: contractors.registrationId,
       })
       .from(riskScores)
       .innerJoin(contractors, eq(contractors.id, riskScores.contractorId))
       .where(
         and(
-          like(contractors.name, `%${name}%`),
+          options.registrationId
+            ? or(nameMatch, eq(contractors.registrationId, options.registrationId))
+            : nameMatch,
           eq(contractors.countryId, country.id)
         )
       )
       .orderBy(desc(riskScores.createdAt))
-      .limit(10);
+      .limit(options.limit ?? 10);
 
     return history;
   }
@@ -40,10 +40,15 @@ export const rulesetVersions = pgTable("ruleset_versions", {
 export const contractors = pgTable("contractors", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name"),
+  normalizedName: text("normalized_name"), // normalizeName(name); prior assessments of the same person are looked up by it
   countryId: uuid("country_id").references(() => countries.id).notNull(),
   type: text("type").notNull(), // 'independent' | 'eor' | 'freelancer'
   paymentMethod: text("payment_method").notNull(), // 'wire' | 'ach' | 'crypto' | 'paypal'
   registrationId: text("registration_id"),
+  dateOfBirth: text("date_of_birth"), // YYYY, YYYY-MM or YYYY-MM-DD; narrows sanctions matches
+  nationality: text("nationality"), // ISO 3166-1 alpha-2
+  role: text("role"), // line of work, e.g. 'software engineer'; helps confirm adverse media is about this contractor
+  entity: jsonb("entity"), // EntityScreeningInput when the contractor invoices through a company
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
@@ -59,9 +64,64 @@ export const riskScores = pgTable("risk_scores", {
   partialSources: jsonb("partial_sources").notNull().default("[]"),
   rulesetVersion: integer("ruleset_version").notNull(),
   breakdown: jsonb("breakdown").notNull(), // Detailed score breakdown
+  firedRules: jsonb("fired_rules").notNull().default("[]"), // Published compliance rules that contributed to the score
+  scoringProfileVersion: integer("scoring_profile_version").notNull().default(0), // 0 = built-in default profile
+  sanctionsHits: jsonb("sanctions_hits").notNull().default("[]"), // SanctionsHit[] returned by the sanctions provider(s)
+  evidence: jsonb("evidence").notNull().default("{}"), // ScoreEvidence: what each component was computed from
+  trigger: text("trigger").notNull().default("manual"), // 'manual' | 'expired' | 'ruleset_changed'
+  expiresAt: timestamp("expires_at"), // null on rows written before expiry was stored; treated as createdAt + 24h
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
+// Raw provider responses behind each risk score, kept for audits and disputes
+export const providerEvidence = pgTable("provider_evidence", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  riskScoreId: uuid("risk_score_id").references(() => riskScores.id).notNull(),
+  category: text("category").notNull(), // 'sanctions' | 'adverse_media'
+  role: text("role").notNull().default("primary"), // 'primary' | 'fallback'
+  provider: text("provider").notNull(),
+  providerVersion: text("provider_version"), // API version the adapter called
+  requestId: text("request_id"),
+  status: text("status").notNull(), // 'success' | 'error'
+  latencyMs: integer("latency_ms").notNull(),
+  cached: boolean("cached").notNull().default(false), // served from the provider response cache
+  fetchedAt: timestamp("fetched_at"), // when the provider produced the response; earlier than requestedAt when cached
+  response: jsonb("response"), // Raw response with PII fields encrypted; null when the call failed
+  responseHash: text("response_hash"), // SHA-256 of the plaintext response
+  error: text("error"),
+  encryption: text("encryption").notNull(), // 'aes-256-gcm' | 'redacted'
+  encryptionKeyId: text("encryption_key_id"),
+  requestedAt: timestamp("requested_at").notNull(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Scoring profiles table (versioned weights and tier thresholds)
+export const scoringProfiles = pgTable("scoring_profiles", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  version: integer("version").notNull().unique(),
+  name: text("name").notNull(),
+  weights: jsonb("weights").notNull(), // { sanctions, pep, adverseMedia, internalHistory, countryBaseline, regulatory, paymentMethod }
+  tierThresholds: jsonb("tier_thresholds").notNull(), // { low, medium, high }
+  status: text("status").notNull().default("draft"), // 'draft' | 'active' | 'retired'
+  notes: text("notes"),
+  createdBy: text("created_by").notNull(),
+  activatedAt: timestamp("activated_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Per-country payment method risk policy (defaults apply to countries without a row)
+export const paymentMethodPolicies = pgTable("payment_method_policies", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  countryId: uuid("country_id").references(() => countries.id).notNull().unique(),
+  methodScores: jsonb("method_scores").notNull().default("{}"), // Partial<Record<PaymentMethod, number>> overriding the 0-100 defaults
+  cryptoRestricted: boolean("crypto_restricted").notNull().default(false),
+  crossBorderMethods: jsonb("cross_border_methods").notNull().default("[]"), // PaymentMethod[] that leave the country's banking system
+  crossBorderSurcharge: integer("cross_border_surcharge").notNull().default(0), // added to the method score, 0-100
+  notes: text("notes"),
+  updatedBy: text("updated_by").notNull(),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
 // PDF reports table
 export const pdfReports = pgTable("pdf_reports", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -170,13 +230,13 @@ export const externalDataSources = pgTable("external_data_sources", {
   name: text("name").notNull(),
   provider: text("provider").notNull(), // 'world_bank', 'oecd', 'local_regulatory', 'comply_advantage', 'news_api'
   apiEndpoint: text("api_endpoint").notNull(),
-  dataType: text("data_type").notNull(), // 'economic_indicators', 'regulatory_updates', 'sanctions', 'political_stability'
+  dataType: text("data_type").notNull(), // 'economic_indicators', 'regulatory_updates', 'sanctions', 'political_stability', 'governance_indicators', 'corruption_perceptions', 'aml_lists'
   country: varchar("country", { length: 3 }), // ISO country code if country-specific
   refreshFrequency: text("refresh_frequency").notNull(), // 'daily', 'weekly', 'monthly', 'quarterly'
   isActive: boolean("is_active").default(true),
   lastSyncAt: timestamp("last_sync_at"),
   lastSyncStatus: text("last_sync_status"), // 'success', 'failed', 'partial'
-  apiConfig: jsonb("api_config").notNull(), // API keys, rate limits, etc.
+  apiConfig: jsonb("api_config").notNull(), // API keys, rate limits, etc.; { files: [{ dataset, path }] } for 'local_regulatory'
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
@@ -248,6 +308,78 @@ export const approvalRequests = pgTable("approval_requests", {
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
 
+// Reviewer decisions on sanctions hits. Contractor rows are created per check, so decisions
+// are looked up by contractorKey (country + normalized name); the latest row per hit wins.
+export const matchDecisions = pgTable("match_decisions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  contractorId: uuid("contractor_id").references(() => contractors.id).notNull(),
+  contractorKey: text("contractor_key").notNull(),
+  riskScoreId: uuid("risk_score_id").references(() => riskScores.id),
+  provider: text("provider").notNull(),
+  providerEntityId: text("provider_entity_id").notNull(),
+  matchedName: text("matched_name").notNull(),
+  decision: text("decision").notNull(), // 'confirmed', 'false_positive', 'escalated'
+  notes: text("notes"),
+  reviewer: text("reviewer").notNull(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Offline sanctions lists loaded from OFAC / EU / UN source files
+export const sanctionsListImports = pgTable("sanctions_list_imports", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  source: text("source").notNull(), // 'ofac_sdn', 'eu_consolidated', 'un_consolidated'
+  format: text("format").notNull(), // 'xml', 'csv'
+  fileName: text("file_name").notNull(),
+  checksum: text("checksum").notNull(), // sha256 of the source file
+  status: text("status").notNull().default("processing"), // 'processing', 'completed', 'failed'
+  entriesImported: integer("entries_imported").notNull().default(0),
+  error: text("error"),
+  startedAt: timestamp("started_at").notNull().default(sql`now()`),
+  completedAt: timestamp("completed_at"),
+});
+
+export const sanctionsListEntries = pgTable("sanctions_list_entries", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  importId: uuid("import_id").references(() => sanctionsListImports.id).notNull(),
+  source: text("source").notNull(),
+  sourceEntityId: text("source_entity_id").notNull(), // OFAC uid / EU logicalId / UN DATAID
+  entityType: text("entity_type").notNull(), // 'person', 'entity', 'vessel', 'aircraft'
+  primaryName: text("primary_name").notNull(),
+  aliases: jsonb("aliases").notNull().default("[]"), // string[]
+  searchNames: jsonb("search_names").notNull().default("[]"), // normalized primary name + aliases
+  programs: jsonb("programs").notNull().default("[]"), // sanctions programmes / regimes
+  nationalities: jsonb("nationalities").notNull().default("[]"),
+  birthDates: jsonb("birth_dates").notNull().default("[]"),
+  listedOn: date("listed_on"),
+  remarks: text("remarks"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// RSS / Atom feeds ingested into the local adverse-media store (FEATURE_MEDIA_PROVIDER=local)
+export const mediaFeeds = pgTable("media_feeds", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  url: text("url").notNull(),
+  etag: text("etag"), // validators from the last fetch, sent back so unchanged feeds cost a 304
+  lastModified: text("last_modified"),
+  lastStatus: text("last_status"), // 'ok', 'not_modified', 'failed'
+  lastError: text("last_error"),
+  lastFetchedAt: timestamp("last_fetched_at"),
+  articlesIngested: integer("articles_ingested").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+export const mediaArticles = pgTable("media_articles", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  feedId: uuid("feed_id").references(() => mediaFeeds.id).notNull(),
+  url: text("url").notNull().unique(), // syndicated stories carried by several feeds are stored once
+  title: text("title").notNull(),
+  summary: text("summary"),
+  searchText: text("search_text").notNull(), // normalized title + summary, searched by name
+  publishedAt: timestamp("published_at").notNull(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
 // Create insert schemas
 export const insertCountrySchema = createInsertSchema(countries).omit({
   id: true,
@@ -274,6 +406,56 @@ export const insertRiskScoreSchema = createInsertSchema(riskScores).omit({
   createdAt: true,
 });
 
+export const insertProviderEvidenceSchema = createInsertSchema(providerEvidence).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertMatchDecisionSchema = createInsertSchema(matchDecisions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const matchDecisionInputSchema = z.object({
+  riskScoreId: z.string().uuid(),
+  provider: z.string().min(1),
+  providerEntityId: z.string().min(1),
+  decision: z.enum(['confirmed', 'false_positive', 'escalated']),
+  notes: z.string().max(2000).optional(),
+  reviewer: z.string().min(1),
+});
+
+export const insertSanctionsListImportSchema = createInsertSchema(sanctionsListImports).omit({
+  id: true,
+  startedAt: true,
+});
+
+export const insertSanctionsListEntrySchema = createInsertSchema(sanctionsListEntries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertMediaFeedSchema = createInsertSchema(mediaFeeds).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertMediaArticleSchema = createInsertSchema(mediaArticles).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertScoringProfileSchema = createInsertSchema(scoringProfiles).omit({
+  id: true,
+  createdAt: true,
+  activatedAt: true,
+});
+
+export const insertPaymentMethodPolicySchema = createInsertSchema(paymentMethodPolicies).omit({
+  id: true,
+  updatedAt: true,
+});
+
 export const insertPdfReportSchema = createInsertSchema(pdfReports).omit({
   id: true,
   generatedAt: true,
@@ -351,13 +533,94 @@ export const insertApprovalRequestSchema = createInsertSchema(approvalRequests).
   updatedAt: true,
 });
 
+export const paymentMethodSchema = z.enum(["wire", "ach", "crypto", "paypal"]);
+
+// As precise as is known: a full date, or year-month / year only
+export const dateOfBirthSchema = z.string().regex(
+  /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?)?$/,
+  "Date of birth must be YYYY, YYYY-MM or YYYY-MM-DD"
+);
+
+export const beneficialOwnerSchema = z.object({
+  name: z.string().trim().min(1),
+  countryIso: z.string().length(2).optional(), // defaults to the company's country
+  dateOfBirth: dateOfBirthSchema.optional(),
+  nationality: z.string().length(2).optional(),
+  ownershipPercent: z.number().min(0).max(100).optional(),
+  role: z.string().trim().max(64).optional(), // e.g. 'shareholder', 'director'
+});
+
+// The company a contractor invoices through, screened alongside the contractor
+export const entityScreeningInputSchema = z.object({
+  companyName: z.string().trim().min(1),
+  registrationNumber: z.string().trim().max(64).optional(),
+  countryIso: z.string().length(2).optional(), // defaults to the contractor's country
+  beneficialOwners: z.array(beneficialOwnerSchema).max(25).default([]),
+});
+
 // Risk check request schema
 export const riskCheckRequestSchema = z.object({
   contractorName: z.string().optional(),
   countryIso: z.string().length(2),
   contractorType: z.enum(["independent", "eor", "freelancer"]),
-  paymentMethod: z.enum(["wire", "ach", "crypto", "paypal"]),
+  paymentMethod: paymentMethodSchema,
   registrationId: z.string().optional(),
+  dateOfBirth: dateOfBirthSchema.optional(),
+  nationality: z.string().length(2).optional(),
+  role: z.string().trim().max(100).optional(),
+  entity: entityScreeningInputSchema.optional(),
+});
+
+// Scoring profile schemas
+export const scoringWeightsSchema = z.object({
+  sanctions: z.number().min(0).max(1),
+  pep: z.number().min(0).max(1),
+  adverseMedia: z.number().min(0).max(1),
+  internalHistory: z.number().min(0).max(1),
+  countryBaseline: z.number().min(0).max(1),
+  regulatory: z.number().min(0).max(1),
+  paymentMethod: z.number().min(0).max(1).default(0), // absent on profiles created before it existed
+}).catchall(z.number().min(0).max(1)); // weights for additionally registered risk signals
+
+export const tierThresholdsSchema = z.object({
+  low: z.number().int().min(1).max(100),
+  medium: z.number().int().min(1).max(100),
+  high: z.number().int().min(1).max(100),
+}).refine(t => t.low < t.medium && t.medium <= t.high, {
+  message: "Tier thresholds must satisfy low < medium <= high",
+});
+
+export const scoringProfileInputSchema = z.object({
+  name: z.string().min(1),
+  weights: scoringWeightsSchema,
+  tierThresholds: tierThresholdsSchema,
+  notes: z.string().optional(),
+  createdBy: z.string().min(1).default("admin"),
+}).refine(p => Math.abs(Object.values(p.weights).reduce((sum, w) => sum + w, 0) - 1) < 0.001, {
+  message: "Weights must sum to 1",
+  path: ["weights"],
+});
+
+// What-if replay of stored risk scores; nothing is written
+export const scoreSimulationInputSchema = z.object({
+  weights: scoringWeightsSchema.optional(), // defaults to the active profile
+  tierThresholds: tierThresholdsSchema.optional(),
+  draftRuleIds: z.array(z.string().uuid()).max(100).default([]), // unpublished rules to treat as published
+  countryIso: z.string().length(2).optional(),
+  days: z.number().int().min(1).max(3650).default(365),
+  limit: z.number().int().min(1).max(10000).default(5000),
+}).refine(p => !p.weights || Math.abs(Object.values(p.weights).reduce((sum, w) => sum + w, 0) - 1) < 0.001, {
+  message: "Weights must sum to 1",
+  path: ["weights"],
+});
+
+export const paymentMethodPolicyInputSchema = z.object({
+  methodScores: z.record(paymentMethodSchema, z.number().int().min(0).max(100)).default({}),
+  cryptoRestricted: z.boolean().default(false),
+  crossBorderMethods: z.array(paymentMethodSchema).default([]),
+  crossBorderSurcharge: z.number().int().min(0).max(100).default(0),
+  notes: z.string().optional(),
+  updatedBy: z.string().min(1).default("admin"),
 });
 
 // Infer types
@@ -376,6 +639,124 @@ export type InsertContractor = z.infer<typeof insertContractorSchema>;
 export type RiskScore = typeof riskScores.$inferSelect;
 export type InsertRiskScore = z.infer<typeof insertRiskScoreSchema>;
 
+export type ProviderEvidence = typeof providerEvidence.$inferSelect;
+export type InsertProviderEvidence = z.infer<typeof insertProviderEvidenceSchema>;
+
+export type ScoringProfile = typeof scoringProfiles.$inferSelect;
+export type InsertScoringProfile = z.infer<typeof insertScoringProfileSchema>;
+
+export type MatchDecision = typeof matchDecisions.$inferSelect;
+export type InsertMatchDecision = z.infer<typeof insertMatchDecisionSchema>;
+export type MatchDecisionInput = z.infer<typeof matchDecisionInputSchema>;
+
+export interface SanctionsHit {
+  provider: string;
+  entityId: string;
+  name: string;
+  nameScore: number | null;
+  categories: string[]; // 'sanctions' | 'pep'
+  suppressed?: boolean; // cleared as a false positive for this contractor
+  party?: { role: 'entity' | 'beneficial_owner'; name: string; countryIso: string }; // absent for the contractor
+  reasons?: SanctionsMatchReasons;
+}
+
+// Why a candidate was kept or ruled out: name similarity plus DOB / nationality agreement
+export interface SanctionsMatchReasons {
+  name: { score: number; matchedName: string };
+  dateOfBirth: { status: 'match' | 'partial' | 'mismatch' | 'unknown'; candidate: string[] };
+  nationality: { status: 'match' | 'mismatch' | 'unknown'; candidate: string[] }; // candidate as ISO codes
+  outcome: 'confirmed' | 'possible' | 'excluded';
+}
+
+// Sanctions / PEP outcome for one party of an entity screening
+export interface ScreenedParty {
+  role: 'contractor' | 'entity' | 'beneficial_owner';
+  name: string;
+  countryIso: string;
+  ownershipPercent?: number;
+  ownerRole?: string;
+  registrationNumber?: { value: string; valid: boolean | null; type: string | null; reason?: string };
+  score: number; // the party's own sanctions score, before roll-up weighting
+  weight: number; // share of that score counted in the roll-up
+  isSanctioned: boolean;
+  isPEP: boolean;
+  hitCount: number;
+}
+
+// Whether an adverse media article is about the contractor or a namesake, and why
+export interface AdverseMediaResolution {
+  decision: 'confirmed' | 'possible' | 'rejected';
+  confidence: number; // 0-100
+  reasons: string[];
+}
+
+// Inputs behind a stored risk score, kept so the score can be explained later
+export interface ScoreEvidence {
+  sanctions?: {
+    provider: string;
+    lists: string[];
+    fallback: 'local-lists' | 'conservative-default' | null;
+    parties?: ScreenedParty[]; // set when a company and its owners were screened too
+  };
+  adverseMedia?: {
+    provider: string;
+    articles: Array<{
+      title: string;
+      url: string;
+      publishedAt: string;
+      sentiment: string;
+      categories?: string[]; // risk categories, most severe first
+      severity?: number;
+      relevance?: number;
+      resolution?: AdverseMediaResolution; // why the article was taken to be about the contractor
+    }>;
+    excludedArticles?: Array<{ title: string; url: string; publishedAt: string; resolution: AdverseMediaResolution }>; // judged to be about a namesake
+    categories?: Array<{ category: string; articles: number; severity: number; score: number }>;
+    fallback: boolean;
+  };
+  countryBaseline?: {
+    source: string; // 'governance-indicators' | 'static-country-map'; 'country-risk-index' on older scores
+    fallback: boolean;
+    confidence?: number; // 0-100, of the indicator composite
+    indicators?: Array<{ indicator: string; year: number; score: number; weight: number; freshness: number }>;
+  };
+  paymentMethod?: {
+    method: string;
+    baseScore: number;
+    crossBorder: boolean;
+    cryptoRestricted: boolean;
+    policySource: 'default' | 'country';
+  } | null;
+  registrationId?: {
+    checked: boolean;
+    valid: boolean | null;
+    type: string | null;
+    reason?: string;
+  } | null;
+}
+
+export type SanctionsListImport = typeof sanctionsListImports.$inferSelect;
+export type InsertSanctionsListImport = z.infer<typeof insertSanctionsListImportSchema>;
+
+export type SanctionsListEntry = typeof sanctionsListEntries.$inferSelect;
+export type InsertSanctionsListEntry = z.infer<typeof insertSanctionsListEntrySchema>;
+
+export type MediaFeed = typeof mediaFeeds.$inferSelect;
+export type InsertMediaFeed = z.infer<typeof insertMediaFeedSchema>;
+
+export type MediaArticle = typeof mediaArticles.$inferSelect;
+export type InsertMediaArticle = z.infer<typeof insertMediaArticleSchema>;
+export type ScoringWeights = z.infer<typeof scoringWeightsSchema>;
+export type TierThresholds = z.infer<typeof tierThresholdsSchema>;
+export type ScoringProfileInput = z.infer<typeof scoringProfileInputSchema>;
+
+export type ScoreSimulationInput = z.infer<typeof scoreSimulationInputSchema>;
+
+export type PaymentMethod = z.infer<typeof paymentMethodSchema>;
+export type PaymentMethodPolicy = typeof paymentMethodPolicies.$inferSelect;
+export type InsertPaymentMethodPolicy = z.infer<typeof insertPaymentMethodPolicySchema>;
+export type PaymentMethodPolicyInput = z.infer<typeof paymentMethodPolicyInputSchema>;
+
 export type PdfReport = typeof pdfReports.$inferSelect;
 export type InsertPdfReport = z.infer<typeof insertPdfReportSchema>;
 
@@ -416,6 +797,8 @@ export type ApprovalRequest = typeof approvalRequests.$inferSelect;
 export type InsertApprovalRequest = z.infer<typeof insertApprovalRequestSchema>;
 
 export type RiskCheckRequest = z.infer<typeof riskCheckRequestSchema>;
+export type BeneficialOwner = z.infer<typeof beneficialOwnerSchema>;
+export type EntityScreeningInput = z.infer<typeof entityScreeningInputSchema>;
 
 // Additional schemas for API responses
 export type RiskAssessmentResult = {
@@ -436,6 +819,7 @@ export type RiskAssessmentResult = {
     adverseMedia: number;
     internalHistory: number;
     countryBaseline: number;
+    regulatory: number;
   };
 };
 